@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+/*
+  Local stand-in for the mail provider: POSTs signed sample delivery events to
+  the email-webhook function.
+
+    EMAIL_WEBHOOK_SECRET=... node scripts/send-sample-email-events.mjs <messageId> <recipient> [type] [url]
+
+  type is delivered (default), bounced, soft-bounced, complained or deferred.
+  url defaults to the local Supabase functions endpoint. Use a provider
+  message id from `email_deliveries` to see the delivery change.
+*/
+import { createHmac, randomUUID } from 'node:crypto';
+
+const [messageId, recipient, type = 'delivered', url = 'http://127.0.0.1:54321/functions/v1/email-webhook'] = process.argv.slice(2);
+const secret = process.env.EMAIL_WEBHOOK_SECRET;
+
+if (!messageId || !recipient || !secret) {
+  console.error('Usage: EMAIL_WEBHOOK_SECRET=... node scripts/send-sample-email-events.mjs <messageId> <recipient> [type] [url]');
+  process.exit(1);
+}
+
+const SAMPLES = {
+  delivered: { type: 'delivered' },
+  bounced: { type: 'bounced', bounceType: 'hard', reason: '550 5.1.1 The email account that you tried to reach does not exist' },
+  'soft-bounced': { type: 'bounced', bounceType: 'soft', reason: '452 4.2.2 The email account that you tried to reach is over quota' },
+  complained: { type: 'complained' },
+  deferred: { type: 'deferred', reason: '421 4.7.0 Try again later' },
+};
+
+if (!SAMPLES[type]) {
+  console.error(`Unknown event type "${type}". Use one of: ${Object.keys(SAMPLES).join(', ')}`);
+  process.exit(1);
+}
+
+const body = JSON.stringify({
+  events: [{
+    id: `evt_${randomUUID()}`,
+    messageId,
+    recipient,
+    occurredAt: new Date().toISOString(),
+    ...SAMPLES[type],
+  }],
+});
+
+// Same scheme as supabase/functions/_shared/webhook-signature.ts
+const timestamp = String(Math.floor(Date.now() / 1000));
+const signature = 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'X-Webhook-Timestamp': timestamp,
+    'X-Webhook-Signature': signature,
+  },
+  body,
+});
+
+console.log(response.status, await response.text());
+process.exit(response.ok ? 0 : 1);
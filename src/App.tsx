@@ -5,7 +5,17 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { useState, useEffect } from "react";
 import LoadingScreen from "@/components/LoadingScreen";
+import RequireAdmin from "@/components/RequireAdmin";
+import { AuthProvider } from "@/contexts/AuthContext";
 import Index from "./pages/Index";
+import Employees from "./pages/Employees";
+import Approvals from "./pages/Approvals";
+import Campaigns from "./pages/Campaigns";
+import CampaignDetail from "./pages/CampaignDetail";
+import Audit from "./pages/Audit";
+import Analytics from "./pages/Analytics";
+import Suppressions from "./pages/Suppressions";
+import Preferences from "./pages/Preferences";
 import NotFound from "./pages/NotFound";
 import "@/styles/animations.css";
 
@@ -29,11 +39,24 @@ const App = () => {
         <Toaster />
         <Sonner />
         <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <AuthProvider>
+            <Routes>
+              <Route element={<RequireAdmin />}>
+                <Route path="/" element={<Index />} />
+                <Route path="/employees" element={<Employees />} />
+                <Route path="/approvals" element={<Approvals />} />
+                <Route path="/campaigns" element={<Campaigns />} />
+                <Route path="/campaigns/:id" element={<CampaignDetail />} />
+                <Route path="/suppressions" element={<Suppressions />} />
+                <Route path="/analytics" element={<Analytics />} />
+                <Route path="/audit" element={<Audit />} />
+              </Route>
+              {/* Public: opened from links in emails, authenticated by a signed token */}
+              <Route path="/preferences" element={<Preferences />} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </AuthProvider>
         </BrowserRouter>
       </TooltipProvider>
     </QueryClientProvider>
@@ -1,15 +1,34 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { functionErrorStatus, supabase, safeSupabaseCall } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { useDraftAutosave } from '@/hooks/use-draft-autosave';
 import Header from './dashboard/Header';
 import EmailComposer from './dashboard/EmailComposer';
+import { EmailAttachment } from './dashboard/AttachmentPicker';
+import TemplatePicker from './dashboard/TemplatePicker';
 import PillarGrid from './dashboard/PillarGrid';
 import EmployeeStats from './dashboard/EmployeeStats';
 import EmailPreview from './dashboard/EmailPreview';
+import RecentCampaigns from './dashboard/RecentCampaigns';
+import ScheduledCampaigns from './dashboard/ScheduledCampaigns';
+import DraftList from './dashboard/DraftList';
+import AudienceBuilder from './dashboard/AudienceBuilder';
+import SegmentList, { Segment } from './dashboard/SegmentList';
+import RosterExport from './dashboard/RosterExport';
+import TrackingSettings from './dashboard/TrackingSettings';
 import Footer from './dashboard/Footer';
 import ErrorDisplay from './dashboard/ErrorDisplay';
-import { sanitizeHtml, validateEmailContent, validatePillarName } from '@/utils/security';
+import { validateEmailContent, validatePillarName } from '@/utils/security';
+import { ExportFormat, exportRoster, RosterFilter } from '@/utils/export';
+import { listActiveEmployees } from '@/utils/employees';
+import { defaultSchedule, ScheduleSettings, validateScheduleSettings, zonedTimeToIso } from '@/utils/schedule';
+import { DEFAULT_TRACKING_OPTIONS, TrackingOptions } from '@/utils/tracking';
+import { DraftContent } from '@/utils/drafts';
+import { AudienceFilter, describeAudience, emptyAudience, pillarAudience, selectAudience } from '@shared/audience';
+import { validateAttachments } from '@shared/attachment-policy';
+import { DEFAULT_CATEGORY } from '@shared/preferences';
 
 interface Employee {
   id: string;
@@ -21,92 +40,43 @@ interface Employee {
 }
 
 const AdminDashboard = () => {
-  const { signOut, user } = useAuth();
+  const { signOut } = useAuth();
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [pillars, setPillars] = useState<string[]>([]);
   const [emailContent, setEmailContent] = useState('');
   const [subject, setSubject] = useState('');
-  const [selectedPillar, setSelectedPillar] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<EmailAttachment[]>([]);
+  const [schedule, setSchedule] = useState<ScheduleSettings>(defaultSchedule);
+  const [tracking, setTracking] = useState<TrackingOptions>(DEFAULT_TRACKING_OPTIONS);
+  const [category, setCategory] = useState(DEFAULT_CATEGORY);
+  const [audience, setAudience] = useState<AudienceFilter>(emptyAudience);
+  const [previewAudience, setPreviewAudience] = useState<AudienceFilter | null>(null);
   const [loadingPillars, setLoadingPillars] = useState<Set<string>>(new Set());
   const [previewMode, setPreviewMode] = useState(false);
+  const [sendingTest, setSendingTest] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
-
-  useEffect(() => {
-    checkAdminStatus();
-  }, [user]);
-
-  useEffect(() => {
-    if (isAdmin) {
-      fetchEmployees();
-    }
-  }, [isAdmin]);
-
-  const checkAdminStatus = async () => {
-    if (!user) {
-      setIsAdmin(false);
-      return;
-    }
-
-    try {
-      const { data, error } = await supabase.rpc('is_admin_user');
-      
-      if (error) {
-        console.error('Error checking admin status:', error);
-        setIsAdmin(false);
-        return;
-      }
-
-      setIsAdmin(data === true);
-      
-      if (data !== true) {
-        toast({
-          title: 'Access Denied',
-          description: 'You do not have admin privileges to access this dashboard.',
-          variant: 'destructive',
-        });
-      }
-    } catch (error) {
-      console.error('Admin check failed:', error);
-      setIsAdmin(false);
-    }
+  const [campaignsRefreshKey, setCampaignsRefreshKey] = useState(0);
+  // Rejected campaign being revised; the next send is submitted as its revision
+  const [revising, setRevising] = useState<{ id: string; subject: string } | null>(null);
+  // Pillar (or EXPORT_KEY) of the roster export in progress
+  const [exporting, setExporting] = useState<string | null>(null);
+
+  // The composer is autosaved as a server-side draft
+  const handleDraftRestore = (draft: DraftContent) => {
+    setSubject(draft.subject);
+    setEmailContent(draft.content);
+    setAudience(draft.audience ?? emptyAudience());
+    setAttachments(draft.attachments);
   };
+  const drafts = useDraftAutosave(
+    { subject, content: emailContent, audience, attachments },
+    handleDraftRestore
+  );
 
-  // Show loading while checking admin status
-  if (isAdmin === null) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-amber-50 via-orange-50 to-yellow-50">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-600 mx-auto mb-4"></div>
-          <p className="text-amber-700 font-medium">Verifying admin access...</p>
-        </div>
-      </div>
-    );
-  }
-
-  // Show access denied if not admin
-  if (isAdmin === false) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-red-50 via-pink-50 to-rose-50">
-        <div className="text-center max-w-md p-8">
-          <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
-            <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
-            </svg>
-          </div>
-          <h2 className="text-2xl font-bold text-red-800 mb-2">Access Denied</h2>
-          <p className="text-red-600 mb-6">You don't have admin privileges to access this dashboard.</p>
-          <button
-            onClick={signOut}
-            className="bg-red-600 hover:bg-red-700 text-white px-6 py-2 rounded-lg transition-colors"
-          >
-            Sign Out
-          </button>
-        </div>
-      </div>
-    );
-  }
+  useEffect(() => {
+    fetchEmployees();
+  }, []);
 
   const fetchEmployees = async () => {
     setRefreshing(true);
@@ -115,56 +85,25 @@ const AdminDashboard = () => {
     try {
       console.log('Fetching employees...');
       
-      const result = await safeSupabaseCall(async () => {
-        const query = supabase
-          .from('employees')
-          .select('*')
-          .order('pillar', { ascending: true })
-          .limit(1000);
-        
-        return await query;
-      });
-
-      console.log('Supabase response:', result);
-
-      if (result.error) {
-        console.error('Supabase error:', result.error);
-        throw new Error(result.error.message || 'Database error');
-      }
-
-      const data = result.data || [];
-      
-      // Validate and sanitize employee data
-      const validatedEmployees: Employee[] = data
-        .filter((emp: any) => {
-          return emp.id && 
-                 emp.name && 
-                 emp.email && 
-                 emp.pillar && 
-                 emp.level &&
-                 validatePillarName(emp.pillar);
-        })
-        .map((emp: any) => ({
-          id: emp.id,
-          name: sanitizeHtml(emp.name),
-          email: emp.email,
-          employee_id: emp.employee_id,
-          pillar: sanitizeHtml(emp.pillar),
-          level: sanitizeHtml(emp.level)
-        }));
-
-      setEmployees(validatedEmployees);
+      // The whole directory, so audience counts match what send-email resolves.
+      // Every active employee is kept, even with a pillar the filters can't
+      // offer, and values stay as stored so pillar filters match the server's;
+      // React escapes them when they are shown.
+      const directory: Employee[] = (await listActiveEmployees())
+        .sort((a, b) => a.pillar.localeCompare(b.pillar));
+
+      setEmployees(directory);
       
       // Extract unique pillars dynamically with validation
-      const uniquePillars = [...new Set(validatedEmployees.map((emp: Employee) => emp.pillar))]
+      const uniquePillars = [...new Set(directory.map((emp: Employee) => emp.pillar))]
         .filter((pillar: string) => validatePillarName(pillar));
       setPillars(uniquePillars);
       
       toast({
         title: 'Success',
-        description: `Loaded ${validatedEmployees.length} employees across ${uniquePillars.length} pillars`,
+        description: `Loaded ${directory.length} employees across ${uniquePillars.length} pillars`,
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error fetching employees:', error);
       const errorMessage = error?.message || 'Failed to fetch employee data';
       setError(errorMessage);
@@ -179,9 +118,18 @@ const AdminDashboard = () => {
     }
   };
 
-  const handleSendEmail = async (pillar: string) => {
+  // Loading key used for sends started from the audience builder
+  const AUDIENCE_SEND_KEY = '__audience__';
+
+  // With a segmentId the server re-evaluates the segment's current definition
+  // instead of using `target`, which is only used for the local checks
+  const sendToAudience = async (target: AudienceFilter, loadingKey: string, segmentId?: string) => {
     // Enhanced validation
-    const validationErrors = validateEmailContent(subject, emailContent);
+    const validationErrors = [
+      ...validateEmailContent(subject, emailContent),
+      ...validateAttachments(attachments),
+      ...validateScheduleSettings(schedule)
+    ];
     if (validationErrors.length > 0) {
       toast({
         title: 'Validation Error',
@@ -191,63 +139,69 @@ const AdminDashboard = () => {
       return;
     }
 
-    if (!validatePillarName(pillar)) {
+    const recipients = selectAudience(employees, target);
+    if (recipients.length === 0) {
       toast({
         title: 'Error',
-        description: 'Invalid pillar selection',
+        description: 'No employees match the selected audience',
         variant: 'destructive',
       });
       return;
     }
 
-    // Add this pillar to loading state
-    setLoadingPillars(prev => new Set(prev).add(pillar));
-    const pillarEmployees = employees.filter(emp => emp.pillar === pillar);
+    const scheduledFor = schedule.enabled ? zonedTimeToIso(schedule.date, schedule.time, schedule.timezone) : null;
 
-    if (pillarEmployees.length === 0) {
-      toast({
-        title: 'Error',
-        description: 'No employees found in selected pillar',
-        variant: 'destructive',
-      });
-      setLoadingPillars(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(pillar);
-        return newSet;
-      });
-      return;
-    }
+    setLoadingPillars(prev => new Set(prev).add(loadingKey));
 
     try {
       // Add a 20-second timeout to the API call
       const timeoutMs = 20000;
-      const timeoutPromise = new Promise((_, reject) =>
+      const timeoutPromise = new Promise<never>((_, reject) =>
         setTimeout(() => reject(new Error('Request timed out. Please try again.')), timeoutMs)
       );
       const apiPromise = safeSupabaseCall(() =>
         supabase.functions.invoke('send-email', {
           body: {
-            pillar: sanitizeHtml(pillar),
-            subject: sanitizeHtml(subject),
-            content: sanitizeHtml(emailContent)
+            ...(segmentId ? { segmentId } : { audience: target }),
+            // Sent as written: the Markdown is rendered and sanitized per recipient on the server
+            subject,
+            content: emailContent,
+            ...(attachments.length > 0 && { attachmentIds: attachments.map(a => a.id) }),
+            ...(scheduledFor && { scheduledFor, timezone: schedule.timezone }),
+            ...tracking,
+            category,
+            ...(revising && { previousCampaignId: revising.id })
           }
         })
       );
-      const result: any = await Promise.race([apiPromise, timeoutPromise]);
+      const result = await Promise.race([apiPromise, timeoutPromise]);
 
       if (result && typeof result === 'object' && 'error' in result && result.error) {
         throw new Error(result.error.message || 'Failed to send emails');
       }
 
+      // The function queues a campaign and returns its id; delivery progress is
+      // tracked in Recent Sends
       const data = result && typeof result === 'object' && 'data' in result ? result.data : undefined;
+      if (!data?.campaignId) {
+        throw new Error('Failed to queue emails');
+      }
+
+      const titles: Record<string, string> = {
+        completed: 'Success!',
+        scheduled: 'Scheduled',
+        pending_approval: 'Sent for approval',
+      };
       toast({
-        title: 'Success!',
-        description: data?.message || `Email sent to ${pillarEmployees.length} employees in ${pillar} pillar`,
+        title: titles[data.status] || 'Sending in progress',
+        description: data.message || `Email queued for ${recipients.length} employees (${describeAudience(target)})`,
       });
 
-      console.log('Email sent successfully:', data);
+      console.log('Email campaign queued:', data.campaignId);
+      setRevising(null);
+      setCampaignsRefreshKey(key => key + 1);
       
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error sending email:', error);
       toast({
         title: 'Error',
@@ -255,15 +209,27 @@ const AdminDashboard = () => {
         variant: 'destructive',
       });
     } finally {
-      // Remove this pillar from loading state
       setLoadingPillars(prev => {
         const newSet = new Set(prev);
-        newSet.delete(pillar);
+        newSet.delete(loadingKey);
         return newSet;
       });
     }
   };
 
+  const handleSendEmail = (pillar: string) => {
+    if (!validatePillarName(pillar)) {
+      toast({
+        title: 'Error',
+        description: 'Invalid pillar selection',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    sendToAudience(pillarAudience(pillar), pillar);
+  };
+
   const handlePreview = (pillar: string) => {
     if (!validatePillarName(pillar)) {
       toast({
@@ -274,10 +240,53 @@ const AdminDashboard = () => {
       return;
     }
     
-    setSelectedPillar(pillar);
+    setPreviewAudience(pillarAudience(pillar));
+    setPreviewMode(true);
+  };
+
+  const handleSegmentSend = (segment: Segment) => {
+    if (segment.definition) {
+      sendToAudience(segment.definition, segment.id, segment.id);
+    }
+  };
+
+  const handleSegmentPreview = (segment: Segment) => {
+    setPreviewAudience(segment.definition);
     setPreviewMode(true);
   };
 
+  const handleAudiencePreview = () => {
+    setPreviewAudience(audience);
+    setPreviewMode(true);
+  };
+
+  const EXPORT_KEY = '__export__';
+
+  const handleExport = async (filter: RosterFilter, format: ExportFormat, key: string = EXPORT_KEY) => {
+    setExporting(key);
+
+    try {
+      const count = await exportRoster(filter, format);
+      toast({
+        title: 'Export ready',
+        description: `Downloaded ${count} employees as ${format.toUpperCase()}`,
+      });
+    } catch (error) {
+      console.error('Error exporting roster:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to export employees. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleDownloadRoster = (pillar: string) => {
+    handleExport({ pillar, level: null, includeDeactivated: false }, 'csv', pillar);
+  };
+
   // Enhanced input handlers with sanitization
   const handleSubjectChange = (newSubject: string) => {
     setSubject(newSubject);
@@ -287,6 +296,99 @@ const AdminDashboard = () => {
     setEmailContent(newContent);
   };
 
+  // A single rendered copy for the admin; nothing is queued and the send rate limit is untouched
+  const handleSendTest = async (sampleEmployeeId: string, to: string) => {
+    const validationErrors = [
+      ...validateEmailContent(subject, emailContent),
+      ...validateAttachments(attachments)
+    ];
+    if (validationErrors.length > 0) {
+      toast({
+        title: 'Validation Error',
+        description: validationErrors[0],
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSendingTest(true);
+    try {
+      const result = await safeSupabaseCall(() =>
+        supabase.functions.invoke('send-test-email', {
+          body: {
+            subject,
+            content: emailContent,
+            sampleEmployeeId,
+            category,
+            ...(attachments.length > 0 && { attachmentIds: attachments.map(a => a.id) }),
+            ...(to && { to })
+          }
+        })
+      );
+      if (result.error) {
+        const status = functionErrorStatus(result.error);
+        throw new Error(status === 403
+          ? 'Test emails can only be sent to your own address or an allow-listed one'
+          : result.error.message || 'Failed to send the test email');
+      }
+
+      toast({
+        title: 'Test sent',
+        description: result.data?.message || 'Test email sent',
+      });
+    } catch (error) {
+      console.error('Error sending test email:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to send the test email. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSendingTest(false);
+    }
+  };
+
+  const handleRevise = async (campaignId: string) => {
+    const result = await safeSupabaseCall(async () =>
+      await supabase
+        .from('email_campaigns')
+        .select('id, subject, content, audience, attachments, category, confidential, track_opens, track_clicks')
+        .eq('id', campaignId)
+        .single()
+    );
+
+    if (result.error || !result.data) {
+      toast({
+        title: 'Error',
+        description: result.error?.message || 'Failed to load the campaign. Please try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const campaign = result.data;
+    setSubject(campaign.subject);
+    setEmailContent(campaign.content);
+    setAudience(campaign.audience as unknown as AudienceFilter);
+    setAttachments(campaign.attachments as unknown as EmailAttachment[]);
+    setTracking({
+      confidential: campaign.confidential,
+      trackOpens: campaign.track_opens,
+      trackClicks: campaign.track_clicks,
+    });
+    setCategory(campaign.category);
+    setRevising({ id: campaign.id, subject: campaign.subject });
+    toast({
+      title: 'Campaign loaded',
+      description: 'Make the requested changes and send again; the reviewer will see what changed.',
+    });
+  };
+
+  const handleTemplateLoad = (templateSubject: string, templateContent: string) => {
+    setSubject(templateSubject);
+    setEmailContent(templateContent);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-yellow-50">
       <Header 
@@ -301,11 +403,60 @@ const AdminDashboard = () => {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Email Composition */}
           <div className="lg:col-span-2 space-y-6">
+            <TemplatePicker
+              subject={subject}
+              emailContent={emailContent}
+              onLoad={handleTemplateLoad}
+            />
+
+            {revising && (
+              <div className="flex items-center justify-between gap-4 p-3 rounded-lg border border-amber-300 bg-amber-100 text-sm text-amber-900">
+                <span>Revising the rejected campaign "{revising.subject}". The next send is submitted as its revision.</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRevising(null)}
+                  className="shrink-0 border-amber-300 text-amber-800 hover:bg-amber-200"
+                >
+                  Stop revising
+                </Button>
+              </div>
+            )}
+
             <EmailComposer
               subject={subject}
               emailContent={emailContent}
               onSubjectChange={handleSubjectChange}
               onContentChange={handleContentChange}
+              attachments={attachments}
+              onAttachmentsChange={setAttachments}
+              schedule={schedule}
+              onScheduleChange={setSchedule}
+              tracking={tracking}
+              onTrackingChange={setTracking}
+              category={category}
+              onCategoryChange={setCategory}
+            />
+
+            <AudienceBuilder
+              employees={employees}
+              pillars={pillars}
+              audience={audience}
+              sending={loadingPillars.has(AUDIENCE_SEND_KEY)}
+              canSend={!!subject.trim() && !!emailContent.trim()}
+              onAudienceChange={setAudience}
+              onSend={() => sendToAudience(audience, AUDIENCE_SEND_KEY)}
+              onPreview={handleAudiencePreview}
+            />
+
+            <SegmentList
+              employees={employees}
+              audience={audience}
+              loadingKeys={loadingPillars}
+              canSend={!!subject.trim() && !!emailContent.trim()}
+              onSend={handleSegmentSend}
+              onPreview={handleSegmentPreview}
+              onEdit={(segment) => segment.definition && setAudience(segment.definition)}
             />
 
             <PillarGrid
@@ -324,14 +475,45 @@ const AdminDashboard = () => {
 
           {/* Sidebar */}
           <div className="space-y-6">
-            <EmployeeStats employees={employees} pillars={pillars} />
+            <DraftList
+              currentDraftId={drafts.draftId}
+              status={drafts.status}
+              savedAt={drafts.savedAt}
+              onOpen={drafts.openDraft}
+              onNew={() => drafts.newDraft()}
+              onDelete={drafts.removeDraft}
+              onResolveConflict={drafts.resolveConflict}
+            />
+
+            <EmployeeStats
+              employees={employees}
+              pillars={pillars}
+              downloading={exporting}
+              onDownloadRoster={handleDownloadRoster}
+            />
+
+            <RosterExport
+              employees={employees}
+              pillars={pillars}
+              exporting={exporting === EXPORT_KEY}
+              onExport={(filter, format) => handleExport(filter, format)}
+            />
+
+            <TrackingSettings pillars={pillars} />
+
+            <ScheduledCampaigns refreshKey={campaignsRefreshKey} />
+
+            <RecentCampaigns refreshKey={campaignsRefreshKey} onRevise={handleRevise} />
 
-            {previewMode && selectedPillar && (
+            {previewMode && previewAudience && (
               <EmailPreview
-                selectedPillar={selectedPillar}
+                audience={previewAudience}
                 subject={subject}
                 emailContent={emailContent}
+                category={category}
                 employees={employees}
+                onSendTest={handleSendTest}
+                sendingTest={sendingTest}
                 onClose={() => setPreviewMode(false)}
               />
             )}
@@ -0,0 +1,42 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { failureRate, formatWeek, WeeklyActivity } from '@/utils/analytics';
+
+interface FailureRateChartProps {
+  weeks: WeeklyActivity[];
+}
+
+const chartConfig = {
+  failureRate: { label: 'Failure rate', color: '#dc2626' },
+} satisfies ChartConfig;
+
+// Failed and bounced messages as a share of all attempted; weeks without
+// attempts are left as gaps rather than drawn as 0%
+const FailureRateChart = ({ weeks }: FailureRateChartProps) => {
+  const data = weeks.map(week => {
+    const rate = failureRate(week.sent, week.failed);
+    return { week: week.week, failureRate: rate === null ? null : Math.round(rate * 1000) / 10 };
+  });
+
+  return (
+    <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+      <LineChart data={data} margin={{ left: -20 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="week" tickFormatter={formatWeek} tickLine={false} axisLine={false} minTickGap={16} />
+        <YAxis tickFormatter={(value) => `${value}%`} tickLine={false} axisLine={false} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(week) => `Week of ${formatWeek(week)}`}
+              formatter={(value) => `${value}% failed`}
+            />
+          }
+        />
+        <Line dataKey="failureRate" stroke="var(--color-failureRate)" strokeWidth={2} dot={{ r: 3 }} />
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export default FailureRateChart;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { PillarReach } from '@/utils/analytics';
+
+interface PillarReachChartProps {
+  pillars: PillarReach[];
+}
+
+const chartConfig = {
+  sent: { label: 'Reached', color: '#d97706' },
+  failed: { label: 'Failed', color: '#dc2626' },
+} satisfies ChartConfig;
+
+const ROW_HEIGHT = 36;
+
+const PillarReachChart = ({ pillars }: PillarReachChartProps) => {
+  return (
+    <ChartContainer
+      config={chartConfig}
+      className="w-full aspect-auto"
+      style={{ height: Math.max(160, pillars.length * ROW_HEIGHT + 60) }}
+    >
+      <BarChart data={pillars} layout="vertical" margin={{ left: 8 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+        <YAxis type="category" dataKey="pillar" width={110} tickLine={false} axisLine={false} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="sent" stackId="messages" fill="var(--color-sent)" />
+        <Bar dataKey="failed" stackId="messages" fill="var(--color-failed)" radius={[0, 4, 4, 0]} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+export default PillarReachChart;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TopSender } from '@/utils/analytics';
+
+interface TopSendersTableProps {
+  senders: TopSender[];
+}
+
+const TopSendersTable = ({ senders }: TopSendersTableProps) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="text-amber-900">Sender</TableHead>
+          <TableHead className="text-right text-amber-900">Campaigns</TableHead>
+          <TableHead className="text-right text-amber-900">Messages sent</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {senders.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={3} className="text-center py-8 text-amber-600">
+              No campaigns in this period
+            </TableCell>
+          </TableRow>
+        ) : senders.map(sender => (
+          <TableRow key={sender.email}>
+            <TableCell className="font-medium text-amber-900">{sender.email}</TableCell>
+            <TableCell className="text-right">{sender.campaigns}</TableCell>
+            <TableCell className="text-right">{sender.sent}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default TopSendersTable;
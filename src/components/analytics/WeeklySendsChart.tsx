@@ -0,0 +1,28 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { formatWeek, WeeklyActivity } from '@/utils/analytics';
+
+interface WeeklySendsChartProps {
+  weeks: WeeklyActivity[];
+}
+
+const chartConfig = {
+  campaigns: { label: 'Campaigns', color: '#d97706' },
+} satisfies ChartConfig;
+
+const WeeklySendsChart = ({ weeks }: WeeklySendsChartProps) => {
+  return (
+    <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+      <BarChart data={weeks} margin={{ left: -20 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="week" tickFormatter={formatWeek} tickLine={false} axisLine={false} minTickGap={16} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(week) => `Week of ${formatWeek(week)}`} />} />
+        <Bar dataKey="campaigns" fill="var(--color-campaigns)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+export default WeeklySendsChart;
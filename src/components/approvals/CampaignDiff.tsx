@@ -0,0 +1,51 @@
+import React, { useMemo } from 'react';
+import { diffLines, hasChanges } from '@/utils/diff';
+
+interface CampaignDiffProps {
+  before: { subject: string; content: string };
+  after: { subject: string; content: string };
+}
+
+const LINE_STYLES = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through',
+};
+
+const LINE_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+// Subject and Markdown source of a revision next to the version it replaces
+const CampaignDiff = ({ before, after }: CampaignDiffProps) => {
+  const subjectDiff = useMemo(() => diffLines(before.subject, after.subject), [before.subject, after.subject]);
+  const contentDiff = useMemo(() => diffLines(before.content, after.content), [before.content, after.content]);
+
+  const renderLines = (lines: ReturnType<typeof diffLines>) => (
+    <pre className="text-xs font-mono whitespace-pre-wrap break-words rounded-md border border-amber-200 overflow-hidden">
+      {lines.map((line, index) => (
+        <div key={index} className={`px-2 ${LINE_STYLES[line.type]}`}>
+          <span className="select-none mr-2">{LINE_MARKERS[line.type]}</span>
+          {line.text || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-sm font-medium mb-1 text-amber-900">Subject</h4>
+        {hasChanges(subjectDiff)
+          ? renderLines(subjectDiff)
+          : <p className="text-xs text-gray-500">Unchanged</p>}
+      </div>
+      <div>
+        <h4 className="text-sm font-medium mb-1 text-amber-900">Message</h4>
+        {hasChanges(contentDiff)
+          ? renderLines(contentDiff)
+          : <p className="text-xs text-gray-500">Unchanged</p>}
+      </div>
+    </div>
+  );
+};
+
+export default CampaignDiff;
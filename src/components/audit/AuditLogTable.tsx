@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { AuditEntry } from '@/utils/audit';
+
+interface AuditLogTableProps {
+  entries: AuditEntry[];
+  // Admin emails by user id; other users are shown by id
+  adminEmails: Map<string, string>;
+  loading: boolean;
+}
+
+// Failed and refused attempts stand out from routine actions
+const isWarning = (action: string) =>
+  /unauthorized|exceeded|failed|rejected|blocked|invalid/.test(action);
+
+const AuditLogTable = ({ entries, adminEmails, loading }: AuditLogTableProps) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-10" />
+          <TableHead className="text-amber-900">Time</TableHead>
+          <TableHead className="text-amber-900">Action</TableHead>
+          <TableHead className="text-amber-900">User</TableHead>
+          <TableHead className="text-amber-900">IP address</TableHead>
+          <TableHead className="text-amber-900">User agent</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody className={loading ? 'opacity-50' : ''}>
+        {entries.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={6} className="text-center py-8 text-amber-600">
+              {loading ? 'Loading audit log...' : 'No entries match the filters'}
+            </TableCell>
+          </TableRow>
+        ) : entries.map(entry => {
+          const open = expanded.has(entry.id);
+
+          return (
+            <React.Fragment key={entry.id}>
+              <TableRow>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => toggle(entry.id)}
+                    disabled={entry.details === null}
+                    className="h-7 w-7 p-0 text-amber-800 hover:bg-amber-100"
+                    title={open ? 'Hide details' : 'Show details'}
+                  >
+                    {open ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                  </Button>
+                </TableCell>
+                <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                <TableCell>
+                  <Badge
+                    variant="outline"
+                    className={isWarning(entry.action) ? 'border-red-200 text-red-700' : 'border-amber-300 text-amber-800'}
+                  >
+                    {entry.action}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {adminEmails.get(entry.admin_user_id) || <span className="font-mono text-xs">{entry.admin_user_id}</span>}
+                </TableCell>
+                <TableCell className="font-mono text-xs">{entry.ip_address || '-'}</TableCell>
+                <TableCell className="text-xs text-gray-500 max-w-xs truncate" title={entry.user_agent || ''}>
+                  {entry.user_agent || '-'}
+                </TableCell>
+              </TableRow>
+              {open && (
+                <TableRow className="bg-amber-50/50 hover:bg-amber-50/50">
+                  <TableCell />
+                  <TableCell colSpan={5}>
+                    <pre className="text-xs font-mono whitespace-pre-wrap break-words text-gray-700">
+                      {JSON.stringify(entry.details, null, 2)}
+                    </pre>
+                  </TableCell>
+                </TableRow>
+              )}
+            </React.Fragment>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default AuditLogTable;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CampaignSummary } from '@/utils/campaigns';
+
+interface CampaignTableProps {
+  campaigns: CampaignSummary[];
+  loading: boolean;
+}
+
+const formatTime = (value: string | null) => value ? new Date(value).toLocaleString() : '-';
+
+const CampaignTable = ({ campaigns, loading }: CampaignTableProps) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="text-amber-900">Subject</TableHead>
+          <TableHead className="text-amber-900">Sender</TableHead>
+          <TableHead className="text-amber-900">Audience</TableHead>
+          <TableHead className="text-amber-900">Created</TableHead>
+          <TableHead className="text-amber-900">Completed</TableHead>
+          <TableHead className="text-amber-900">Status</TableHead>
+          <TableHead className="text-right text-amber-900">Sent</TableHead>
+          <TableHead className="text-right text-amber-900">Failed</TableHead>
+          <TableHead className="text-right text-amber-900">Suppressed</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody className={loading ? 'opacity-50' : ''}>
+        {campaigns.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={9} className="text-center py-8 text-amber-600">
+              {loading ? 'Loading campaigns...' : 'No campaigns have been sent yet'}
+            </TableCell>
+          </TableRow>
+        ) : campaigns.map(campaign => (
+          <TableRow key={campaign.id}>
+            <TableCell className="font-medium max-w-xs">
+              <Link to={`/campaigns/${campaign.id}`} className="block truncate text-amber-900 hover:underline">
+                {campaign.subject}
+              </Link>
+            </TableCell>
+            <TableCell>{campaign.requested_by_email || '-'}</TableCell>
+            <TableCell>{campaign.audience_label}</TableCell>
+            <TableCell className="whitespace-nowrap">{formatTime(campaign.created_at)}</TableCell>
+            <TableCell className="whitespace-nowrap">{formatTime(campaign.completed_at)}</TableCell>
+            <TableCell>
+              <Badge variant="outline" className="border-amber-300 text-amber-800">{campaign.status}</Badge>
+            </TableCell>
+            <TableCell className="text-right">{campaign.sent_count} / {campaign.total_recipients}</TableCell>
+            <TableCell className={`text-right ${campaign.failed_count > 0 ? 'text-red-600 font-medium' : ''}`}>
+              {campaign.failed_count}
+            </TableCell>
+            <TableCell className="text-right">{campaign.suppressed_count}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default CampaignTable;
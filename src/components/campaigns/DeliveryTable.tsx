@@ -0,0 +1,80 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Delivery, FAILED_DELIVERY_STATUSES } from '@/utils/campaigns';
+
+interface DeliveryTableProps {
+  deliveries: Delivery[];
+  loading: boolean;
+  failuresOnly: boolean;
+}
+
+const DeliveryTable = ({ deliveries, loading, failuresOnly }: DeliveryTableProps) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="text-amber-900">Recipient</TableHead>
+          <TableHead className="text-amber-900">Status</TableHead>
+          <TableHead className="text-right text-amber-900">Attempts</TableHead>
+          <TableHead className="text-amber-900">Sent</TableHead>
+          <TableHead className="text-amber-900">Provider message id</TableHead>
+          <TableHead className="text-amber-900">Error</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody className={loading ? 'opacity-50' : ''}>
+        {deliveries.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={6} className="text-center py-8 text-amber-600">
+              {loading ? 'Loading recipients...' : failuresOnly ? 'No failed deliveries' : 'No recipients'}
+            </TableCell>
+          </TableRow>
+        ) : deliveries.map(delivery => {
+          const failed = FAILED_DELIVERY_STATUSES.includes(delivery.status);
+
+          return (
+            <TableRow key={delivery.id}>
+              <TableCell>
+                <div className="font-medium">{delivery.recipient_name}</div>
+                <div className="text-xs text-gray-500">{delivery.recipient_email}</div>
+              </TableCell>
+              <TableCell>
+                <Badge
+                  variant="outline"
+                  className={failed
+                    ? 'border-red-200 text-red-700'
+                    : delivery.status === 'suppressed' ? 'border-gray-300 text-gray-500' : 'border-amber-300 text-amber-800'}
+                >
+                  {delivery.status === 'bounced' && delivery.bounce_type
+                    ? `${delivery.bounce_type} bounce`
+                    : delivery.status}
+                </Badge>
+                {delivery.status === 'queued' && delivery.next_attempt_at && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    Retry at {new Date(delivery.next_attempt_at).toLocaleTimeString()}
+                  </div>
+                )}
+                {delivery.status === 'suppressed' && delivery.suppression_reason && (
+                  <div className="text-xs text-gray-500 mt-1">{delivery.suppression_reason}</div>
+                )}
+                {delivery.last_event_at && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    {delivery.last_event} {new Date(delivery.last_event_at).toLocaleString()}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{delivery.attempt_count}</TableCell>
+              <TableCell className="whitespace-nowrap">
+                {delivery.sent_at ? new Date(delivery.sent_at).toLocaleString() : '-'}
+              </TableCell>
+              <TableCell className="font-mono text-xs break-all">{delivery.provider_message_id || '-'}</TableCell>
+              <TableCell className="text-xs text-red-600 max-w-xs break-words">{delivery.last_error || ''}</TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default DeliveryTable;
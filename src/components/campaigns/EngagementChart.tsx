@@ -0,0 +1,91 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { PillarEngagement } from '@/utils/campaigns';
+
+interface EngagementChartProps {
+  engagement: PillarEngagement[];
+}
+
+const chartConfig = {
+  opened: { label: 'Opened', color: '#d97706' },
+  clicked: { label: 'Clicked', color: '#ea580c' },
+} satisfies ChartConfig;
+
+const rate = (count: number, of: number) => of > 0 ? `${Math.round((count / of) * 100)}%` : '-';
+
+// Recipients who opened or clicked, per pillar, with the campaign totals
+const EngagementChart = ({ engagement }: EngagementChartProps) => {
+  const totals = engagement.reduce(
+    (sum, row) => ({
+      openTracked: sum.openTracked + row.open_tracked,
+      opened: sum.opened + row.opened,
+      clickTracked: sum.clickTracked + row.click_tracked,
+      clicked: sum.clicked + row.clicked,
+      opens: sum.opens + row.opens,
+      clicks: sum.clicks + row.clicks,
+    }),
+    { openTracked: 0, opened: 0, clickTracked: 0, clicked: 0, opens: 0, clicks: 0 }
+  );
+
+  if (totals.openTracked === 0 && totals.clickTracked === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No sent messages were tracked. Tracking only applies to pillars where it is enabled.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <dt className="text-amber-600">Opened</dt>
+          <dd className="font-medium text-amber-900">
+            {totals.opened} of {totals.openTracked} ({rate(totals.opened, totals.openTracked)})
+          </dd>
+        </div>
+        <div>
+          <dt className="text-amber-600">Total opens</dt>
+          <dd className="font-medium text-amber-900">{totals.opens}</dd>
+        </div>
+        <div>
+          <dt className="text-amber-600">Clicked</dt>
+          <dd className="font-medium text-amber-900">
+            {totals.clicked} of {totals.clickTracked} ({rate(totals.clicked, totals.clickTracked)})
+          </dd>
+        </div>
+        <div>
+          <dt className="text-amber-600">Total clicks</dt>
+          <dd className="font-medium text-amber-900">{totals.clicks}</dd>
+        </div>
+      </dl>
+
+      <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+        <BarChart data={engagement} margin={{ left: -20 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="pillar" tickLine={false} axisLine={false} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Bar dataKey="opened" fill="var(--color-opened)" radius={4} />
+          <Bar dataKey="clicked" fill="var(--color-clicked)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+
+      <p className="text-xs text-gray-500">
+        Opens are counted when images load, so they are a lower bound. Recipients are only counted where tracking
+        was enabled for their pillar when the message was sent.
+      </p>
+    </div>
+  );
+};
+
+export default EngagementChart;
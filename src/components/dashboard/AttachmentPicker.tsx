@@ -0,0 +1,182 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Paperclip, X } from 'lucide-react';
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import {
+  ATTACHMENT_BUCKET,
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS,
+  MAX_TOTAL_ATTACHMENT_BYTES,
+  attachmentContentType,
+  formatBytes,
+  safeAttachmentName,
+  validateAttachments,
+} from '@shared/attachment-policy';
+
+export interface EmailAttachment {
+  id: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  storage_path: string;
+}
+
+interface AttachmentPickerProps {
+  attachments: EmailAttachment[];
+  onChange: (attachments: EmailAttachment[]) => void;
+}
+
+const ACCEPT = Object.keys(ATTACHMENT_TYPES).map(ext => `.${ext}`).join(',');
+
+const AttachmentPicker = ({ attachments, onChange }: AttachmentPickerProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const uploadFile = async (file: File): Promise<EmailAttachment> => {
+    const fileName = safeAttachmentName(file.name);
+    const contentType = attachmentContentType(fileName) as string;
+    const storagePath = `${crypto.randomUUID()}/${fileName}`;
+
+    const upload = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(storagePath, file, { contentType, upsert: false });
+    if (upload.error) {
+      throw new Error(`${fileName}: ${upload.error.message}`);
+    }
+
+    const result = await safeSupabaseCall(async () =>
+      await supabase
+        .from('email_attachments')
+        .insert({ storage_path: storagePath, file_name: fileName, content_type: contentType, size_bytes: file.size })
+        .select('id, file_name, content_type, size_bytes, storage_path')
+        .single()
+    );
+    if (result.error) {
+      // Don't leave an unregistered file in the bucket
+      await supabase.storage.from(ATTACHMENT_BUCKET).remove([storagePath]);
+      throw new Error(`${fileName}: ${result.error.message || 'upload failed'}`);
+    }
+
+    return result.data;
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    // Check the whole selection against the limits before uploading anything
+    const candidates = files.map(file => ({
+      file_name: safeAttachmentName(file.name),
+      content_type: attachmentContentType(file.name) ?? file.type,
+      size_bytes: file.size,
+    }));
+    const errors = validateAttachments([...attachments, ...candidates]);
+    if (errors.length > 0) {
+      toast({ title: 'Attachment not added', description: errors[0], variant: 'destructive' });
+      return;
+    }
+
+    setUploading(true);
+    const uploaded: EmailAttachment[] = [];
+
+    try {
+      for (const file of files) {
+        uploaded.push(await uploadFile(file));
+      }
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      toast({
+        title: 'Upload failed',
+        description: error?.message || 'Failed to upload attachment. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      onChange([...attachments, ...uploaded]);
+      setUploading(false);
+    }
+  };
+
+  const handleRemove = async (attachment: EmailAttachment) => {
+    onChange(attachments.filter(a => a.id !== attachment.id));
+
+    // Files already sent with a campaign are kept; only unused uploads are deleted
+    const result = await safeSupabaseCall(async () =>
+      await supabase
+        .from('email_attachments')
+        .delete()
+        .eq('id', attachment.id)
+        .is('used_at', null)
+        .select('id')
+    );
+    if (!result.error && result.data?.length) {
+      await supabase.storage.from(ATTACHMENT_BUCKET).remove([attachment.storage_path]);
+    }
+  };
+
+  const totalBytes = attachments.reduce((sum, a) => sum + a.size_bytes, 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Attachments</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={uploading || attachments.length >= MAX_ATTACHMENTS}
+          className="flex items-center space-x-2 border-amber-300 text-amber-800 hover:bg-amber-100"
+        >
+          <Paperclip size={16} />
+          <span>{uploading ? 'Uploading...' : 'Attach files'}</span>
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPT}
+          onChange={handleFiles}
+          className="hidden"
+        />
+      </div>
+
+      {attachments.length > 0 && (
+        <div className="space-y-1">
+          {attachments.map(attachment => (
+            <div
+              key={attachment.id}
+              className="flex items-center justify-between text-sm p-2 bg-amber-50 rounded border border-amber-100"
+            >
+              <span className="truncate text-amber-900">{attachment.file_name}</span>
+              <div className="flex items-center space-x-2 shrink-0">
+                <span className="text-xs text-gray-500">{formatBytes(attachment.size_bytes)}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(attachment)}
+                  className="h-6 w-6 p-0 text-amber-800 hover:bg-amber-100"
+                  title={`Remove ${attachment.file_name}`}
+                >
+                  <X size={14} />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="text-xs text-gray-500">
+        PDF, Office documents, CSV, text, calendar invites (.ics) and images; up to {formatBytes(MAX_ATTACHMENT_BYTES)} per
+        file, {MAX_ATTACHMENTS} files and {formatBytes(MAX_TOTAL_ATTACHMENT_BYTES)} per email
+        {attachments.length > 0 && ` (${formatBytes(totalBytes)} used)`}
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentPicker;
@@ -0,0 +1,224 @@
+import React, { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Eye, Filter, Send } from 'lucide-react';
+import { AudienceFilter, describeAudience, levelRank, selectAudience } from '@shared/audience';
+
+interface Employee {
+  id: string;
+  name: string;
+  email: string;
+  employee_id: number;
+  pillar: string;
+  level: string;
+}
+
+interface AudienceBuilderProps {
+  employees: Employee[];
+  pillars: string[];
+  audience: AudienceFilter;
+  sending: boolean;
+  canSend: boolean;
+  onAudienceChange: (audience: AudienceFilter) => void;
+  onSend: () => void;
+  onPreview: () => void;
+}
+
+// Matches the server-side recipient cap in send-email
+const MAX_RECIPIENTS = 500;
+
+type ChipState = 'none' | 'include' | 'exclude';
+type ListKey = 'Pillars' | 'Levels';
+
+const parseIdList = (value: string): number[] =>
+  value
+    .split(/[\s,]+/)
+    .map(part => part.trim())
+    .filter(part => /^\d+$/.test(part))
+    .map(Number);
+
+const AudienceBuilder = ({
+  employees,
+  pillars,
+  audience,
+  sending,
+  canSend,
+  onAudienceChange,
+  onSend,
+  onPreview
+}: AudienceBuilderProps) => {
+  const levels = useMemo(() => {
+    const unique = [...new Set(employees.map(emp => emp.level))];
+    return unique.sort((a, b) => (levelRank(a) ?? 0) - (levelRank(b) ?? 0) || a.localeCompare(b));
+  }, [employees]);
+
+  const ranks = useMemo(() => {
+    const unique = new Set(levels.map(levelRank).filter((rank): rank is number => rank !== null));
+    return [...unique].sort((a, b) => a - b);
+  }, [levels]);
+
+  const recipients = useMemo(() => selectAudience(employees, audience), [employees, audience]);
+
+  const chipState = (key: ListKey, value: string): ChipState => {
+    if (audience[`include${key}`].includes(value)) return 'include';
+    if (audience[`exclude${key}`].includes(value)) return 'exclude';
+    return 'none';
+  };
+
+  // Clicking a chip cycles it through include → exclude → not used
+  const toggleChip = (key: ListKey, value: string) => {
+    const include = audience[`include${key}`].filter(item => item !== value);
+    const exclude = audience[`exclude${key}`].filter(item => item !== value);
+    const state = chipState(key, value);
+
+    if (state === 'none') include.push(value);
+    if (state === 'include') exclude.push(value);
+
+    onAudienceChange({ ...audience, [`include${key}`]: include, [`exclude${key}`]: exclude });
+  };
+
+  const renderChips = (key: ListKey, values: string[]) => (
+    <div className="flex flex-wrap gap-2">
+      {values.map(value => {
+        const state = chipState(key, value);
+        return (
+          <button key={value} type="button" onClick={() => toggleChip(key, value)}>
+            <Badge
+              variant="outline"
+              className={
+                state === 'include'
+                  ? 'bg-amber-200 border-amber-400 text-amber-900'
+                  : state === 'exclude'
+                    ? 'bg-red-50 border-red-300 text-red-700 line-through'
+                    : 'border-amber-200 text-amber-700 hover:bg-amber-50'
+              }
+            >
+              {state === 'exclude' ? '− ' : state === 'include' ? '+ ' : ''}{value}
+            </Badge>
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const tooMany = recipients.length > MAX_RECIPIENTS;
+
+  return (
+    <Card className="border-amber-200 shadow-lg">
+      <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+        <div className="flex items-center space-x-2">
+          <Filter className="h-5 w-5 text-amber-700" />
+          <CardTitle className="text-amber-900">Build Audience</CardTitle>
+        </div>
+        <CardDescription className="text-amber-700">
+          Combine pillars, levels and individual employees. Click a pillar or level once to include it, twice to exclude it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-5">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="all-employees" className="text-sm font-medium">Everyone</Label>
+          <Switch
+            id="all-employees"
+            checked={audience.allEmployees}
+            onCheckedChange={(checked) => onAudienceChange({ ...audience, allEmployees: checked })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Pillars</Label>
+          {renderChips('Pillars', pillars)}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Levels</Label>
+          {renderChips('Levels', levels)}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Minimum level</Label>
+          <Select
+            value={audience.minLevel === null ? 'any' : String(audience.minLevel)}
+            onValueChange={(value) => onAudienceChange({ ...audience, minLevel: value === 'any' ? null : Number(value) })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any level</SelectItem>
+              {ranks.map(rank => (
+                <SelectItem key={rank} value={String(rank)}>Level {rank} and above</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="include-ids" className="text-sm font-medium">Always include employee IDs</Label>
+            <Input
+              id="include-ids"
+              // Remount when the filter changes from outside so the text follows it
+              key={audience.includeEmployeeIds.join(',')}
+              placeholder="e.g. 1042, 1077"
+              defaultValue={audience.includeEmployeeIds.join(', ')}
+              onBlur={(e) => onAudienceChange({ ...audience, includeEmployeeIds: parseIdList(e.target.value) })}
+              autoComplete="off"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="exclude-ids" className="text-sm font-medium">Always exclude employee IDs</Label>
+            <Input
+              id="exclude-ids"
+              key={audience.excludeEmployeeIds.join(',')}
+              placeholder="e.g. 1010"
+              defaultValue={audience.excludeEmployeeIds.join(', ')}
+              onBlur={(e) => onAudienceChange({ ...audience, excludeEmployeeIds: parseIdList(e.target.value) })}
+              autoComplete="off"
+            />
+          </div>
+        </div>
+
+        <div className="p-3 rounded-lg bg-gradient-to-br from-amber-100 to-orange-100 flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <div className="text-2xl font-bold text-amber-800">{recipients.length}</div>
+            <div className="text-xs text-amber-700 truncate">{describeAudience(audience)}</div>
+          </div>
+          {tooMany && (
+            <Badge variant="destructive" className="text-xs shrink-0">
+              Max {MAX_RECIPIENTS} recipients per send
+            </Badge>
+          )}
+        </div>
+
+        <div className="flex space-x-2">
+          <Button
+            onClick={onPreview}
+            variant="outline"
+            size="sm"
+            className="flex-1 flex items-center space-x-2 border-amber-300 text-amber-800 hover:bg-amber-100"
+            disabled={recipients.length === 0}
+          >
+            <Eye size={16} />
+            <span>Preview</span>
+          </Button>
+          <Button
+            onClick={onSend}
+            disabled={sending || !canSend || recipients.length === 0 || tooMany}
+            className="flex-1 flex items-center space-x-2 bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 text-white shadow-lg"
+            size="sm"
+          >
+            <Send size={16} className={sending ? 'animate-spin' : ''} />
+            <span>{sending ? 'Sending...' : `Send to ${recipients.length}`}</span>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AudienceBuilder;
@@ -0,0 +1,177 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, FilePlus, FileText, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { DraftSaveStatus } from '@/hooks/use-draft-autosave';
+import { DraftSummary, listDrafts } from '@/utils/drafts';
+import { markdownToText } from '@shared/markdown';
+
+interface DraftListProps {
+  currentDraftId: string | null;
+  status: DraftSaveStatus;
+  // Changes after every save so the list reloads
+  savedAt: string | null;
+  onOpen: (id: string) => Promise<boolean>;
+  onNew: () => void;
+  onDelete: (id: string) => Promise<void>;
+  onResolveConflict: (keep: 'theirs' | 'mine') => Promise<void>;
+}
+
+const STATUS_LABELS: Record<DraftSaveStatus, string> = {
+  idle: 'Not saved yet',
+  saving: 'Saving...',
+  saved: 'All changes saved',
+  conflict: 'Changed elsewhere',
+  error: 'Autosave failed, retrying on the next change',
+};
+
+const DraftList = ({
+  currentDraftId,
+  status,
+  savedAt,
+  onOpen,
+  onNew,
+  onDelete,
+  onResolveConflict,
+}: DraftListProps) => {
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+  const [resolving, setResolving] = useState(false);
+
+  const fetchDrafts = useCallback(async () => {
+    try {
+      setDrafts(await listDrafts());
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDrafts();
+  }, [fetchDrafts, savedAt, currentDraftId]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: 'Error',
+        description: error?.message || `${failure}. Please try again.`,
+        variant: 'destructive',
+      });
+    } finally {
+      await fetchDrafts();
+    }
+  };
+
+  const handleOpen = (draft: DraftSummary) => run(async () => {
+    if (!(await onOpen(draft.id))) {
+      toast({ title: 'Draft not found', description: 'It was deleted in another tab or window.' });
+    }
+  }, 'Failed to open draft');
+
+  const handleDelete = (draft: DraftSummary) => {
+    if (!window.confirm(`Delete the draft "${draft.subject || 'Untitled draft'}"?`)) return;
+    run(() => onDelete(draft.id), 'Failed to delete draft');
+  };
+
+  const handleResolve = async (keep: 'theirs' | 'mine') => {
+    setResolving(true);
+    await run(() => onResolveConflict(keep), 'Failed to resolve the draft conflict');
+    setResolving(false);
+  };
+
+  return (
+    <Card className="border-amber-200 shadow-lg">
+      <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+        <CardTitle className="flex items-center justify-between text-amber-900">
+          <span className="flex items-center space-x-2">
+            <FileText className="h-5 w-5" />
+            <span>Drafts</span>
+          </span>
+          <Button
+            onClick={onNew}
+            variant="outline"
+            size="sm"
+            className="flex items-center space-x-1 border-amber-300 text-amber-800 hover:bg-amber-100"
+          >
+            <FilePlus size={14} />
+            <span>New</span>
+          </Button>
+        </CardTitle>
+        <CardDescription className="text-amber-700">
+          {currentDraftId || status !== 'idle'
+            ? STATUS_LABELS[status]
+            : 'Your message is saved as a draft as you type'}
+          {status === 'saved' && savedAt && ` • ${new Date(savedAt).toLocaleTimeString()}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-3">
+        {status === 'conflict' && (
+          <div className="space-y-2 p-3 rounded-lg border border-red-200 bg-red-50">
+            <p className="flex items-start space-x-2 text-sm text-red-700">
+              <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+              <span>This draft was saved from another tab or window. Autosave is paused until you choose which version to keep.</span>
+            </p>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => handleResolve('theirs')}
+                disabled={resolving}
+                variant="outline"
+                size="sm"
+                className="flex-1 border-amber-300 text-amber-800 hover:bg-amber-100"
+              >
+                Load saved version
+              </Button>
+              <Button
+                onClick={() => handleResolve('mine')}
+                disabled={resolving}
+                size="sm"
+                className="flex-1 bg-amber-600 hover:bg-amber-700 text-white"
+              >
+                Keep this version
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {drafts.length === 0 && (
+          <p className="text-sm text-gray-500">No saved drafts</p>
+        )}
+
+        {drafts.map(draft => (
+          <div
+            key={draft.id}
+            className={`flex items-start justify-between gap-2 p-3 rounded-lg border ${
+              draft.id === currentDraftId ? 'border-amber-400 bg-amber-50' : 'border-amber-100'
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => handleOpen(draft)}
+              disabled={draft.id === currentDraftId}
+              className="min-w-0 flex-1 text-left"
+            >
+              <p className="text-sm font-medium text-amber-900 truncate">{draft.subject || 'Untitled draft'}</p>
+              <p className="text-xs text-gray-500 truncate">{markdownToText(draft.content).substring(0, 80)}</p>
+              <p className="text-xs text-amber-600">{new Date(draft.updated_at).toLocaleString()}</p>
+            </button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDelete(draft)}
+              className="h-6 w-6 p-0 text-amber-800 hover:bg-amber-100 shrink-0"
+              title="Delete draft"
+            >
+              <Trash2 size={14} />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DraftList;
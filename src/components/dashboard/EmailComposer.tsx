@@ -1,36 +1,69 @@
 import React from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Mail, Shield } from 'lucide-react';
 import { validateEmailContent } from '@/utils/security';
+import { ScheduleSettings, formatScheduledTime, validateScheduleSettings, zonedTimeToIso } from '@/utils/schedule';
+import { TrackingOptions } from '@/utils/tracking';
+import { categoryQueryKeys, listCategories } from '@/utils/preferences';
+import { MERGE_FIELD_DESCRIPTIONS, MERGE_FIELDS } from '@shared/merge-fields';
+import AttachmentPicker, { EmailAttachment } from './AttachmentPicker';
+import SchedulePicker from './SchedulePicker';
 
 interface EmailComposerProps {
   subject: string;
   emailContent: string;
   onSubjectChange: (subject: string) => void;
   onContentChange: (content: string) => void;
+  attachments: EmailAttachment[];
+  onAttachmentsChange: (attachments: EmailAttachment[]) => void;
+  schedule: ScheduleSettings;
+  onScheduleChange: (schedule: ScheduleSettings) => void;
+  tracking: TrackingOptions;
+  onTrackingChange: (tracking: TrackingOptions) => void;
+  category: string;
+  onCategoryChange: (category: string) => void;
 }
 
-const EmailComposer = ({ subject, emailContent, onSubjectChange, onContentChange }: EmailComposerProps) => {
-  const validationErrors = validateEmailContent(subject, emailContent);
+const EmailComposer = ({
+  subject,
+  emailContent,
+  onSubjectChange,
+  onContentChange,
+  attachments,
+  onAttachmentsChange,
+  schedule,
+  onScheduleChange,
+  tracking,
+  onTrackingChange,
+  category,
+  onCategoryChange,
+}: EmailComposerProps) => {
+  const categories = useQuery({
+    queryKey: categoryQueryKeys.all,
+    queryFn: listCategories,
+  });
+  const selectedCategory = categories.data?.find(option => option.id === category);
+  const validationErrors = [
+    ...validateEmailContent(subject, emailContent),
+    ...validateScheduleSettings(schedule),
+  ];
+  const scheduledFor = schedule.enabled ? zonedTimeToIso(schedule.date, schedule.time, schedule.timezone) : null;
   const hasErrors = validationErrors.length > 0;
   
-  // Handle input changes with sanitization
+  // Text is kept as typed; the Markdown is rendered through the allow-list sanitizer when sent
   const handleSubjectChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    // Basic sanitization for display, full sanitization happens on submit
-    const sanitized = value.replace(/[<>]/g, '');
-    onSubjectChange(sanitized);
+    onSubjectChange(e.target.value);
   };
 
   const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const value = e.target.value;
-    // Basic sanitization for display, full sanitization happens on submit
-    const sanitized = value.replace(/[<>]/g, '');
-    onContentChange(sanitized);
+    onContentChange(e.target.value);
   };
   
   return (
@@ -75,7 +108,7 @@ const EmailComposer = ({ subject, emailContent, onSubjectChange, onContentChange
           </Label>
           <Textarea
             id="content"
-            placeholder="Enter your message content here..."
+            placeholder={'Enter your message content here...\n\nMarkdown is supported: **bold**, *italic*, - lists, [links](https://example.com)'}
             value={emailContent}
             onChange={handleContentChange}
             className="min-h-32 w-full resize-none"
@@ -83,14 +116,109 @@ const EmailComposer = ({ subject, emailContent, onSubjectChange, onContentChange
             autoComplete="off"
             spellCheck={true}
           />
+          <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500">
+            <span>Personalize:</span>
+            {MERGE_FIELDS.map(field => (
+              <Badge
+                key={field}
+                variant="outline"
+                className="cursor-pointer border-amber-300 text-amber-800 hover:bg-amber-100 font-mono"
+                title={`${MERGE_FIELD_DESCRIPTIONS[field]} of each recipient`}
+                onClick={() => onContentChange(`${emailContent}{{${field}}}`)}
+              >
+                {`{{${field}}}`}
+              </Badge>
+            ))}
+          </div>
           <div className="flex justify-between text-xs text-gray-500">
-            <span>Your message will be automatically formatted for email delivery</span>
+            <span>Format with Markdown: **bold**, *italic*, # headings, - lists, &gt; quotes, [text](https://...)</span>
             <span className={emailContent.length > 9000 ? 'text-amber-600 font-medium' : ''}>
               {emailContent.length}/10,000
             </span>
           </div>
         </div>
 
+        <div className="space-y-2">
+          <Label htmlFor="category" className="text-sm font-medium">Category</Label>
+          <Select value={category} onValueChange={onCategoryChange}>
+            <SelectTrigger id="category">
+              <SelectValue placeholder="Select a category" />
+            </SelectTrigger>
+            <SelectContent>
+              {(categories.data ?? []).map(option => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label} ({option.mandatory ? 'mandatory' : 'optional'})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="text-xs text-gray-500">
+            {categories.error
+              ? 'Could not load the email categories.'
+              : selectedCategory?.mandatory === false
+                ? 'Employees who unsubscribed from this category are skipped. Every message includes an unsubscribe link.'
+                : 'Mandatory messages reach every employee in the audience, whatever their email preferences.'}
+          </div>
+        </div>
+
+        <AttachmentPicker attachments={attachments} onChange={onAttachmentsChange} />
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="schedule-enabled" className="text-sm font-medium">Schedule for later</Label>
+            <Switch
+              id="schedule-enabled"
+              checked={schedule.enabled}
+              onCheckedChange={(enabled) => onScheduleChange({ ...schedule, enabled })}
+            />
+          </div>
+          {schedule.enabled && (
+            <>
+              <SchedulePicker schedule={schedule} onChange={onScheduleChange} />
+              <div className="text-xs text-gray-500">
+                Sends started below are scheduled instead of going out now. The audience is evaluated again at send time.
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="confidential" className="text-sm font-medium">Confidential</Label>
+            <Switch
+              id="confidential"
+              checked={tracking.confidential}
+              // Confidential campaigns are never tracked
+              onCheckedChange={(confidential) => onTrackingChange(confidential
+                ? { confidential, trackOpens: false, trackClicks: false }
+                : { ...tracking, confidential })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="track-opens" className="text-sm font-medium">Track opens</Label>
+            <Switch
+              id="track-opens"
+              checked={tracking.trackOpens}
+              disabled={tracking.confidential}
+              onCheckedChange={(trackOpens) => onTrackingChange({ ...tracking, trackOpens })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="track-clicks" className="text-sm font-medium">Track clicks</Label>
+            <Switch
+              id="track-clicks"
+              checked={tracking.trackClicks}
+              disabled={tracking.confidential}
+              onCheckedChange={(trackClicks) => onTrackingChange({ ...tracking, trackClicks })}
+            />
+          </div>
+          <div className="text-xs text-gray-500">
+            {tracking.confidential
+              ? 'Confidential messages are never tracked.'
+              : 'Tracking only applies to employees of pillars where it is enabled in Tracking Settings.'}
+          </div>
+        </div>
+
         {hasErrors && (
           <div className="space-y-2">
             <div className="text-sm font-medium text-red-600">Validation Issues:</div>
@@ -104,7 +232,9 @@ const EmailComposer = ({ subject, emailContent, onSubjectChange, onContentChange
 
         {!hasErrors && subject && emailContent && (
           <Badge variant="secondary" className="bg-green-100 text-green-800">
-            ✓ Message ready to send
+            {scheduledFor
+              ? `✓ Message ready to schedule for ${formatScheduledTime(scheduledFor, schedule.timezone)}`
+              : '✓ Message ready to send'}
           </Badge>
         )}
         
@@ -113,8 +243,8 @@ const EmailComposer = ({ subject, emailContent, onSubjectChange, onContentChange
             <Shield className="w-3 h-3 text-green-600" />
             <strong>Security Notice:</strong>
           </div>
-          <p>All email content is automatically sanitized to prevent security vulnerabilities. 
-          HTML tags and potentially dangerous content are filtered before sending. 
+          <p>Messages are written in Markdown and rendered to a small set of safe HTML elements.
+          Raw HTML is shown as text, and links must use http, https or mailto.
           Your input is validated in real-time for safety.</p>
         </div>
       </CardContent>
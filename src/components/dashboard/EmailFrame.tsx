@@ -0,0 +1,55 @@
+import React, { useMemo } from 'react';
+
+export type PreviewDevice = 'desktop' | 'mobile';
+
+interface EmailFrameProps {
+  // Email HTML as rendered by @shared/email-render
+  html: string;
+  device: PreviewDevice;
+  // Approximates clients that invert light emails in dark mode
+  darkMode: boolean;
+}
+
+const DEVICE_WIDTHS: Record<PreviewDevice, number> = {
+  desktop: 680,
+  mobile: 375,
+};
+
+// Inverts the page and turns images back, like Outlook and Gmail's forced dark mode
+const DARK_MODE_STYLE = `
+  html { filter: invert(1) hue-rotate(180deg); background: #fff; }
+  img { filter: invert(1) hue-rotate(180deg); }
+`;
+
+const buildDocument = (html: string, darkMode: boolean) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<style>
+  body { margin: 0; padding: 16px 0; background: #f3f4f6; }
+  ${darkMode ? DARK_MODE_STYLE : ''}
+</style>
+</head>
+<body>${html}</body>
+</html>`;
+
+// The exact email HTML in an iframe without scripts, forms or same-origin access,
+// so nothing in the message can reach the dashboard
+const EmailFrame = ({ html, device, darkMode }: EmailFrameProps) => {
+  const srcDoc = useMemo(() => buildDocument(html, darkMode), [html, darkMode]);
+
+  return (
+    <div className="overflow-x-auto rounded-md border border-amber-200 bg-gray-100">
+      <iframe
+        title="Email preview"
+        sandbox=""
+        srcDoc={srcDoc}
+        className="block mx-auto h-[32rem] bg-white transition-[width]"
+        style={{ width: DEVICE_WIDTHS[device] }}
+      />
+    </div>
+  );
+};
+
+export default EmailFrame;
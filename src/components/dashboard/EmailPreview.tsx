@@ -1,7 +1,22 @@
 
-import React from 'react';
+import React, { useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Monitor, Send, Smartphone } from 'lucide-react';
+import EmailFrame, { PreviewDevice } from './EmailFrame';
+import { AudienceFilter, describeAudience, selectAudience } from '@shared/audience';
+import { mergeValues } from '@shared/merge-fields';
+import { renderEmail } from '@shared/email-render';
+import { describeSuppression, partitionSuppressed } from '@shared/suppressions';
+import { optOutSuppressions } from '@shared/preferences';
+import { listActiveSuppressions, suppressionQueryKeys } from '@/utils/suppressions';
+import { categoryQueryKeys, listCategories, listOptOuts } from '@/utils/preferences';
 
 interface Employee {
   id: string;
@@ -13,38 +28,90 @@ interface Employee {
 }
 
 interface EmailPreviewProps {
-  selectedPillar: string;
+  audience: AudienceFilter;
   subject: string;
   emailContent: string;
+  category: string;
   employees: Employee[];
+  // Sends the fully rendered message for the sample employee to the admin (or `to`)
+  onSendTest: (sampleEmployeeId: string, to: string) => void;
+  sendingTest: boolean;
   onClose: () => void;
 }
 
-const EmailPreview = ({ selectedPillar, subject, emailContent, employees, onClose }: EmailPreviewProps) => {
-  const getEmployeesByPillar = (pillar: string) => {
-    return employees.filter(emp => emp.pillar === pillar);
-  };
+const EmailPreview = ({ audience, subject, emailContent, category, employees, onSendTest, sendingTest, onClose }: EmailPreviewProps) => {
+  const recipients = selectAudience(employees, audience);
+  // Same split as send-email: suppressed addresses and, for optional
+  // categories, employees who unsubscribed are skipped at send time
+  const recipientEmails = recipients.map(emp => emp.email);
+  const suppressions = useQuery({
+    queryKey: suppressionQueryKeys.active(recipientEmails),
+    queryFn: () => listActiveSuppressions(recipientEmails),
+    // Keep the last split on screen while the audience changes
+    placeholderData: keepPreviousData,
+  });
+  const categories = useQuery({
+    queryKey: categoryQueryKeys.all,
+    queryFn: listCategories,
+  });
+  const emailCategory = categories.data?.find(option => option.id === category);
+  const optional = emailCategory?.mandatory === false;
+  const recipientIds = recipients.map(emp => emp.id);
+  const optOuts = useQuery({
+    queryKey: categoryQueryKeys.optOuts(category, recipientIds),
+    queryFn: () => listOptOuts(category, recipientIds),
+    enabled: optional,
+  });
+  const exclusions = [
+    ...(emailCategory ? optOutSuppressions(recipients, optOuts.data ?? [], emailCategory) : []),
+    ...(suppressions.data ?? []),
+  ];
+  const { sendable, suppressed } = partitionSuppressed(recipients, exclusions);
+  const [sampleId, setSampleId] = useState<string>('');
+  const [testRecipient, setTestRecipient] = useState('');
+  const [device, setDevice] = useState<PreviewDevice>('desktop');
+  const [darkMode, setDarkMode] = useState(false);
+  // Rendered by the same module as the edge functions, for this employee
+  const sample = recipients.find(emp => emp.id === sampleId) ?? recipients[0];
+  // Optional categories get the unsubscribe footer; the real link is signed per recipient when sending
+  const rendered = renderEmail(subject, emailContent, sample ? sample.name : '{{name}}', sample ? mergeValues(sample) : {},
+    optional ? { categoryLabel: emailCategory.label, url: '#' } : undefined);
 
   return (
     <Card className="border-amber-200 shadow-lg">
       <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
         <CardTitle className="text-amber-900">Email Preview</CardTitle>
         <CardDescription className="text-amber-700">
-          Preview for {selectedPillar} department
+          Preview for {describeAudience(audience)}
         </CardDescription>
       </CardHeader>
       <CardContent className="pt-6">
         <div className="space-y-4">
+          {sample && (
+            <div>
+              <h4 className="font-medium mb-2 text-amber-900">Preview as:</h4>
+              <Select value={sample.id} onValueChange={setSampleId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {recipients.map((emp) => (
+                    <SelectItem key={emp.id} value={emp.id}>{emp.name} ({emp.employee_id})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <div>
             <h4 className="font-medium mb-2 text-amber-900">Subject:</h4>
             <div className="p-3 bg-amber-50 rounded-md text-sm border border-amber-200">
-              {subject || 'No subject entered yet...'}
+              {rendered.subject || 'No subject entered yet...'}
             </div>
           </div>
           <div>
-            <h4 className="font-medium mb-2 text-amber-900">Recipients ({getEmployeesByPillar(selectedPillar).length}):</h4>
+            <h4 className="font-medium mb-2 text-amber-900">Recipients ({sendable.length}):</h4>
             <div className="max-h-32 overflow-y-auto space-y-1">
-              {getEmployeesByPillar(selectedPillar).map((emp) => (
+              {sendable.map((emp) => (
                 <div key={emp.id} className="text-sm text-amber-700 flex justify-between p-2 bg-amber-50 rounded border border-amber-100">
                   <span>{emp.name}</span>
                   <span>{emp.level}</span>
@@ -52,12 +119,79 @@ const EmailPreview = ({ selectedPillar, subject, emailContent, employees, onClos
               ))}
             </div>
           </div>
+          {suppressed.length > 0 && (
+            <div>
+              <h4 className="font-medium mb-2 text-red-700">Skipped - on the suppression list or unsubscribed ({suppressed.length}):</h4>
+              <div className="max-h-32 overflow-y-auto space-y-1">
+                {suppressed.map((emp) => (
+                  <div key={emp.id} className="text-sm text-red-700 flex justify-between gap-2 p-2 bg-red-50 rounded border border-red-100">
+                    <span>{emp.name}</span>
+                    <span className="text-xs text-right">{describeSuppression(emp.suppression)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          {(suppressions.error || optOuts.error) && (
+            <p className="text-xs text-red-600">Could not load the suppression list or opt-outs; they are still skipped when sending.</p>
+          )}
           <div>
-            <h4 className="font-medium mb-2 text-amber-900">Email Content:</h4>
-            <div className="p-3 bg-amber-50 rounded-md text-sm whitespace-pre-wrap border border-amber-200">
-              {emailContent || 'No content entered yet...'}
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <h4 className="font-medium text-amber-900">Email Content:</h4>
+              <div className="flex items-center gap-3">
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  value={device}
+                  onValueChange={(value) => value && setDevice(value as PreviewDevice)}
+                >
+                  <ToggleGroupItem value="desktop" aria-label="Desktop width">
+                    <Monitor size={14} />
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="mobile" aria-label="Mobile width">
+                    <Smartphone size={14} />
+                  </ToggleGroupItem>
+                </ToggleGroup>
+                <div className="flex items-center gap-2">
+                  <Switch id="preview-dark-mode" checked={darkMode} onCheckedChange={setDarkMode} />
+                  <Label htmlFor="preview-dark-mode" className="text-sm">Dark mode</Label>
+                </div>
+              </div>
             </div>
+            {emailContent ? (
+              <EmailFrame html={rendered.html} device={device} darkMode={darkMode} />
+            ) : (
+              <div className="p-3 bg-amber-50 rounded-md text-sm border border-amber-200">
+                No content entered yet...
+              </div>
+            )}
           </div>
+          {sample && (
+            <div className="space-y-2 pt-2 border-t border-amber-100">
+              <Label htmlFor="test-recipient" className="text-sm font-medium">Send a test</Label>
+              <Input
+                id="test-recipient"
+                type="email"
+                value={testRecipient}
+                onChange={(e) => setTestRecipient(e.target.value)}
+                placeholder="Your own address"
+                maxLength={254}
+              />
+              <p className="text-xs text-gray-500">
+                Rendered for {sample.name}, with attachments. Tests only go to your own address or an allow-listed one.
+              </p>
+              <Button
+                onClick={() => onSendTest(sample.id, testRecipient.trim())}
+                disabled={sendingTest}
+                variant="outline"
+                size="sm"
+                className="w-full flex items-center space-x-2 border-amber-300 text-amber-800 hover:bg-amber-100"
+              >
+                <Send size={14} />
+                <span>{sendingTest ? 'Sending test...' : 'Send test'}</span>
+              </Button>
+            </div>
+          )}
           <Button
             onClick={onClose}
             variant="outline"
@@ -1,8 +1,10 @@
 
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { Badge } from '@/components/ui/badge';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Download, Users } from 'lucide-react';
 
 interface Employee {
   id: string;
@@ -16,9 +18,12 @@ interface Employee {
 interface EmployeeStatsProps {
   employees: Employee[];
   pillars: string[];
+  // Pillar whose roster is being downloaded
+  downloading: string | null;
+  onDownloadRoster: (pillar: string) => void;
 }
 
-const EmployeeStats = ({ employees, pillars }: EmployeeStatsProps) => {
+const EmployeeStats = ({ employees, pillars, downloading, onDownloadRoster }: EmployeeStatsProps) => {
   const getEmployeesByPillar = (pillar: string) => {
     return employees.filter(emp => emp.pillar === pillar);
   };
@@ -30,6 +35,10 @@ const EmployeeStats = ({ employees, pillars }: EmployeeStatsProps) => {
           <Users className="h-5 w-5" />
           <span>Employee Statistics</span>
         </CardTitle>
+        <CardDescription className="text-amber-700">
+          Head count per pillar.{' '}
+          <Link to="/analytics" className="underline hover:text-amber-900">Communications analytics</Link>
+        </CardDescription>
       </CardHeader>
       <CardContent className="pt-6">
         <div className="space-y-4">
@@ -41,9 +50,21 @@ const EmployeeStats = ({ employees, pillars }: EmployeeStatsProps) => {
             {pillars.map((pillar) => (
               <div key={pillar} className="flex justify-between items-center p-3 bg-amber-25 rounded-lg border border-amber-100">
                 <span className="text-sm font-medium text-amber-900">{pillar}</span>
-                <Badge variant="outline" className="border-amber-300 text-amber-800">
-                  {getEmployeesByPillar(pillar).length}
-                </Badge>
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline" className="border-amber-300 text-amber-800">
+                    {getEmployeesByPillar(pillar).length}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onDownloadRoster(pillar)}
+                    disabled={downloading === pillar}
+                    className="h-7 w-7 p-0 text-amber-800 hover:bg-amber-100"
+                    title={`Download ${pillar} roster (CSV)`}
+                  >
+                    <Download size={14} className={downloading === pillar ? 'animate-pulse' : ''} />
+                  </Button>
+                </div>
               </div>
             ))}
           </div>
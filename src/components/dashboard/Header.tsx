@@ -1,14 +1,26 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
+import { NavLink } from 'react-router-dom';
 import { LogOut, Mail, RefreshCw } from 'lucide-react';
 
 interface HeaderProps {
   onSignOut: () => void;
-  onRefresh: () => void;
-  refreshing: boolean;
+  // The refresh button is only shown on pages that pass onRefresh
+  onRefresh?: () => void;
+  refreshing?: boolean;
 }
 
+const NAV_ITEMS = [
+  { to: '/', label: 'Dashboard' },
+  { to: '/employees', label: 'Employees' },
+  { to: '/campaigns', label: 'Campaigns' },
+  { to: '/analytics', label: 'Analytics' },
+  { to: '/approvals', label: 'Approvals' },
+  { to: '/suppressions', label: 'Suppressions' },
+  { to: '/audit', label: 'Audit' },
+];
+
 const Header = ({ onSignOut, onRefresh, refreshing }: HeaderProps) => {
   return (
     <header className="bg-gradient-to-r from-amber-100 to-orange-100 shadow-lg border-b border-amber-200">
@@ -23,16 +35,35 @@ const Header = ({ onSignOut, onRefresh, refreshing }: HeaderProps) => {
               <p className="text-xs sm:text-sm text-amber-700">Employee Messaging Portal</p>
             </div>
           </div>
+          <nav className="flex items-center space-x-1">
+            {NAV_ITEMS.map(item => (
+              <NavLink
+                key={item.to}
+                to={item.to}
+                // The dashboard link must not stay active on every other page
+                end={item.to === '/'}
+                className={({ isActive }) =>
+                  `px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    isActive ? 'bg-amber-200 text-amber-900' : 'text-amber-800 hover:bg-amber-100'
+                  }`
+                }
+              >
+                {item.label}
+              </NavLink>
+            ))}
+          </nav>
           <div className="flex items-center space-x-2 sm:space-x-3 w-full sm:w-auto">
-            <Button 
-              variant="outline" 
-              onClick={onRefresh}
-              disabled={refreshing}
-              className="flex items-center space-x-1 sm:space-x-2 border-amber-300 text-amber-800 hover:bg-amber-100 text-sm px-3 py-2 flex-1 sm:flex-initial"
-            >
-              <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
-              <span className="hidden sm:inline">Refresh</span>
-            </Button>
+            {onRefresh && (
+              <Button 
+                variant="outline" 
+                onClick={onRefresh}
+                disabled={refreshing}
+                className="flex items-center space-x-1 sm:space-x-2 border-amber-300 text-amber-800 hover:bg-amber-100 text-sm px-3 py-2 flex-1 sm:flex-initial"
+              >
+                <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                <span className="hidden sm:inline">Refresh</span>
+              </Button>
+            )}
             <Button 
               variant="outline" 
               onClick={onSignOut} 
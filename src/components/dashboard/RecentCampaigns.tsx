@@ -0,0 +1,219 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Link } from 'react-router-dom';
+import { History, Pencil, RotateCcw } from 'lucide-react';
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+interface Campaign {
+  id: string;
+  audience_label: string;
+  subject: string;
+  status: string;
+  transport: string;
+  total_recipients: number;
+  sent_count: number;
+  failed_count: number;
+  suppressed_count: number;
+  status_reason: string | null;
+  reviewed_by_email: string | null;
+  review_comment: string | null;
+  created_at: string;
+}
+
+interface RecentCampaignsProps {
+  // Bumped by the dashboard after each send so the list reloads
+  refreshKey: number;
+  // Loads a rejected campaign back into the composer
+  onRevise: (campaignId: string) => void;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+// Campaigns the queue worker still has to deliver
+const isActive = (campaign: Campaign) => campaign.status === 'queued' || campaign.status === 'sending';
+
+const RecentCampaigns = ({ refreshKey, onRevise }: RecentCampaignsProps) => {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const draining = useRef(false);
+
+  const fetchCampaigns = useCallback(async () => {
+    const result = await safeSupabaseCall(async () =>
+      await supabase
+        .from('email_campaigns')
+        .select('id, audience_label, subject, status, transport, total_recipients, sent_count, failed_count, suppressed_count, status_reason, reviewed_by_email, review_comment, created_at')
+        // Campaigns waiting for their send time are listed under Scheduled Sends
+        .neq('status', 'scheduled')
+        .order('created_at', { ascending: false })
+        .limit(5)
+    );
+
+    if (!result.error) {
+      setCampaigns(result.data || []);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns, refreshKey]);
+
+  const hasActive = campaigns.some(isActive);
+
+  // While a campaign is still queued or sending, keep the queue worker going
+  // and refresh progress. One drain request at a time.
+  useEffect(() => {
+    if (!hasActive) return;
+
+    const interval = setInterval(async () => {
+      if (draining.current) return;
+      draining.current = true;
+
+      try {
+        const active = campaigns.find(isActive);
+        if (active) {
+          await safeSupabaseCall(() =>
+            supabase.functions.invoke('process-email-queue', { body: { campaignId: active.id } })
+          );
+        }
+        await fetchCampaigns();
+      } finally {
+        draining.current = false;
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [hasActive, campaigns, fetchCampaigns]);
+
+  const handleRetryFailed = async (campaign: Campaign) => {
+    setRetrying(campaign.id);
+
+    try {
+      const result = await safeSupabaseCall(() =>
+        supabase.functions.invoke('process-email-queue', {
+          body: { campaignId: campaign.id, action: 'retry_failed' }
+        })
+      );
+
+      if (result.error) {
+        throw new Error(result.error.message || 'Failed to retry deliveries');
+      }
+
+      toast({
+        title: 'Retry started',
+        description: `Re-sending ${campaign.failed_count} failed deliveries for "${campaign.subject}"`,
+      });
+      await fetchCampaigns();
+    } catch (error) {
+      console.error('Error retrying deliveries:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to retry deliveries. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  if (campaigns.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-amber-200 shadow-lg">
+      <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+        <CardTitle className="flex items-center space-x-2 text-amber-900">
+          <History className="h-5 w-5" />
+          <span>Recent Sends</span>
+        </CardTitle>
+        <CardDescription className="text-amber-700">
+          Delivery progress of your latest campaigns.{' '}
+          <Link to="/campaigns" className="underline hover:text-amber-900">View all</Link>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        {campaigns.map((campaign) => {
+          const processed = campaign.sent_count + campaign.failed_count;
+          const percent = campaign.total_recipients > 0
+            ? Math.round((processed / campaign.total_recipients) * 100)
+            : 0;
+
+          return (
+            <div key={campaign.id} className="space-y-2 p-3 rounded-lg border border-amber-100">
+              <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <Link
+                    to={`/campaigns/${campaign.id}`}
+                    className="block text-sm font-medium text-amber-900 truncate hover:underline"
+                  >
+                    {campaign.subject}
+                  </Link>
+                  <p className="text-xs text-amber-600">
+                    {campaign.audience_label} • {new Date(campaign.created_at).toLocaleString()}
+                  </p>
+                </div>
+                <Badge variant="outline" className="border-amber-300 text-amber-800 shrink-0">
+                  {campaign.status}
+                </Badge>
+              </div>
+              <Progress value={percent} className="h-2" />
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>
+                  {campaign.sent_count} sent • {campaign.failed_count} failed • {campaign.total_recipients} total
+                  {campaign.suppressed_count > 0 && ` • ${campaign.suppressed_count} suppressed`}
+                </span>
+                {campaign.transport === 'log' && <span className="text-amber-600">log only</span>}
+              </div>
+              {campaign.status === 'cancelled' && campaign.status_reason && (
+                <p className="text-xs text-red-600">{campaign.status_reason}</p>
+              )}
+              {campaign.status === 'pending_approval' && (
+                <p className="text-xs text-amber-700">Waiting for another admin to approve it</p>
+              )}
+              {campaign.status === 'approved' && (
+                <p className="text-xs text-green-700">
+                  Approved by {campaign.reviewed_by_email || 'another admin'}
+                  {campaign.review_comment && `: ${campaign.review_comment}`}
+                </p>
+              )}
+              {campaign.status === 'rejected' && (
+                <>
+                  <p className="text-xs text-red-600">
+                    Rejected by {campaign.reviewed_by_email || 'another admin'}: {campaign.review_comment}
+                  </p>
+                  <Button
+                    onClick={() => onRevise(campaign.id)}
+                    variant="outline"
+                    size="sm"
+                    className="w-full flex items-center space-x-2 border-amber-300 text-amber-800 hover:bg-amber-100"
+                  >
+                    <Pencil size={14} />
+                    <span>Revise and resubmit</span>
+                  </Button>
+                </>
+              )}
+              {campaign.status === 'completed' && campaign.failed_count > 0 && (
+                <Button
+                  onClick={() => handleRetryFailed(campaign)}
+                  disabled={retrying === campaign.id}
+                  variant="outline"
+                  size="sm"
+                  className="w-full flex items-center space-x-2 border-amber-300 text-amber-800 hover:bg-amber-100"
+                >
+                  <RotateCcw size={14} className={retrying === campaign.id ? 'animate-spin' : ''} />
+                  <span>{retrying === campaign.id ? 'Retrying...' : 'Retry all failed'}</span>
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RecentCampaigns;
@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download } from 'lucide-react';
+import { ExportFormat, RosterFilter } from '@/utils/export';
+
+interface Employee {
+  id: string;
+  name: string;
+  email: string;
+  employee_id: number;
+  pillar: string;
+  level: string;
+}
+
+interface RosterExportProps {
+  employees: Employee[];
+  pillars: string[];
+  exporting: boolean;
+  onExport: (filter: RosterFilter, format: ExportFormat) => void;
+}
+
+const ALL = '__all__';
+
+const RosterExport = ({ employees, pillars, exporting, onExport }: RosterExportProps) => {
+  const [pillar, setPillar] = useState(ALL);
+  const [level, setLevel] = useState(ALL);
+  const [includeDeactivated, setIncludeDeactivated] = useState(false);
+
+  const levels = useMemo(() => [...new Set(employees.map(emp => emp.level))].sort(), [employees]);
+
+  const filter: RosterFilter = {
+    pillar: pillar === ALL ? null : pillar,
+    level: level === ALL ? null : level,
+    includeDeactivated,
+  };
+
+  return (
+    <Card className="border-amber-200 shadow-lg">
+      <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+        <CardTitle className="flex items-center space-x-2 text-amber-900">
+          <Download className="h-5 w-5" />
+          <span>Export Roster</span>
+        </CardTitle>
+        <CardDescription className="text-amber-700">
+          Download employee lists as CSV or JSON. Exports are recorded in the audit log.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Pillar</Label>
+            <Select value={pillar} onValueChange={setPillar}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All pillars</SelectItem>
+                {pillars.map(p => <SelectItem key={p} value={p}>{p}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Level</Label>
+            <Select value={level} onValueChange={setLevel}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All levels</SelectItem>
+                {levels.map(l => <SelectItem key={l} value={l}>{l}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="include-deactivated" className="text-sm">Include deactivated employees</Label>
+          <Switch id="include-deactivated" checked={includeDeactivated} onCheckedChange={setIncludeDeactivated} />
+        </div>
+
+        <div className="flex space-x-2">
+          <Button
+            onClick={() => onExport(filter, 'csv')}
+            disabled={exporting}
+            variant="outline"
+            size="sm"
+            className="flex-1 border-amber-300 text-amber-800 hover:bg-amber-100"
+          >
+            CSV
+          </Button>
+          <Button
+            onClick={() => onExport(filter, 'json')}
+            disabled={exporting}
+            variant="outline"
+            size="sm"
+            className="flex-1 border-amber-300 text-amber-800 hover:bg-amber-100"
+          >
+            JSON
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RosterExport;
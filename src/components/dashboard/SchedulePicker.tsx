@@ -0,0 +1,55 @@
+import React, { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScheduleSettings, listTimeZones } from '@/utils/schedule';
+
+interface SchedulePickerProps {
+  schedule: ScheduleSettings;
+  onChange: (schedule: ScheduleSettings) => void;
+  // Prefix for the input ids, so the picker can appear twice on a page
+  idPrefix?: string;
+}
+
+// Date, time and time zone of a scheduled send
+const SchedulePicker = ({ schedule, onChange, idPrefix = 'schedule' }: SchedulePickerProps) => {
+  const timeZones = useMemo(listTimeZones, []);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-date`} className="text-xs">Date</Label>
+        <Input
+          id={`${idPrefix}-date`}
+          type="date"
+          value={schedule.date}
+          onChange={(e) => onChange({ ...schedule, date: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-time`} className="text-xs">Time</Label>
+        <Input
+          id={`${idPrefix}-time`}
+          type="time"
+          value={schedule.time}
+          onChange={(e) => onChange({ ...schedule, time: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-timezone`} className="text-xs">Time zone</Label>
+        <Select value={schedule.timezone} onValueChange={(timezone) => onChange({ ...schedule, timezone })}>
+          <SelectTrigger id={`${idPrefix}-timezone`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {timeZones.map(zone => (
+              <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default SchedulePicker;
@@ -0,0 +1,268 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CalendarClock, Pencil, X } from 'lucide-react';
+import { functionErrorStatus, supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { validateEmailContent } from '@/utils/security';
+import {
+  ScheduleSettings,
+  formatScheduledTime,
+  isoToZonedTime,
+  validateScheduleSettings,
+  zonedTimeToIso,
+} from '@/utils/schedule';
+import SchedulePicker from './SchedulePicker';
+
+interface ScheduledCampaign {
+  id: string;
+  audience_label: string;
+  subject: string;
+  content: string;
+  scheduled_for: string;
+  schedule_timezone: string;
+}
+
+interface ScheduledCampaignsProps {
+  // Bumped by the dashboard after each send so the list reloads
+  refreshKey: number;
+}
+
+interface EditState {
+  campaign: ScheduledCampaign;
+  subject: string;
+  content: string;
+  schedule: ScheduleSettings;
+}
+
+const ScheduledCampaigns = ({ refreshKey }: ScheduledCampaignsProps) => {
+  const [campaigns, setCampaigns] = useState<ScheduledCampaign[]>([]);
+  const [editing, setEditing] = useState<EditState | null>(null);
+  // Id of the campaign being saved or cancelled
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const fetchCampaigns = useCallback(async () => {
+    const result = await safeSupabaseCall(async () =>
+      await supabase
+        .from('email_campaigns')
+        .select('id, audience_label, subject, content, scheduled_for, schedule_timezone')
+        .eq('status', 'scheduled')
+        .order('scheduled_for', { ascending: true })
+        .limit(20)
+    );
+
+    if (!result.error) {
+      setCampaigns(result.data || []);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns, refreshKey]);
+
+  // Edits and cancellations go through manage-campaign, which refuses them
+  // once the dispatcher has started the campaign
+  const manageCampaign = async (body: Record<string, unknown>, failure: string) => {
+    const result = await safeSupabaseCall(() =>
+      supabase.functions.invoke('manage-campaign', { body })
+    );
+    if (result.error) {
+      const status = functionErrorStatus(result.error);
+      throw new Error(status === 409
+        ? 'This campaign has already started sending and can no longer be changed'
+        : result.error.message || failure);
+    }
+  };
+
+  const openEditor = (campaign: ScheduledCampaign) => {
+    const { date, time } = isoToZonedTime(campaign.scheduled_for, campaign.schedule_timezone);
+    setEditing({
+      campaign,
+      subject: campaign.subject,
+      content: campaign.content,
+      schedule: { enabled: true, date, time, timezone: campaign.schedule_timezone },
+    });
+  };
+
+  const editErrors = editing
+    ? [...validateEmailContent(editing.subject, editing.content), ...validateScheduleSettings(editing.schedule)]
+    : [];
+
+  const handleSave = async () => {
+    if (!editing || editErrors.length > 0) return;
+    const { campaign, subject, content, schedule } = editing;
+    setBusy(campaign.id);
+
+    try {
+      await manageCampaign({
+        campaignId: campaign.id,
+        action: 'update',
+        subject,
+        content,
+        scheduledFor: zonedTimeToIso(schedule.date, schedule.time, schedule.timezone),
+        timezone: schedule.timezone,
+      }, 'Failed to update the scheduled send');
+
+      toast({ title: 'Schedule updated', description: `"${subject}" has been updated` });
+      setEditing(null);
+    } catch (error) {
+      console.error('Error updating scheduled campaign:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to update the scheduled send. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+      await fetchCampaigns();
+    }
+  };
+
+  const handleCancel = async (campaign: ScheduledCampaign) => {
+    if (!window.confirm(`Cancel the scheduled send "${campaign.subject}"? Nothing will be sent.`)) {
+      return;
+    }
+    setBusy(campaign.id);
+
+    try {
+      await manageCampaign({ campaignId: campaign.id, action: 'cancel' }, 'Failed to cancel the scheduled send');
+      toast({ title: 'Scheduled send cancelled', description: `"${campaign.subject}" will not be sent` });
+    } catch (error) {
+      console.error('Error cancelling scheduled campaign:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to cancel the scheduled send. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+      await fetchCampaigns();
+    }
+  };
+
+  if (campaigns.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-amber-200 shadow-lg">
+      <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+        <CardTitle className="flex items-center space-x-2 text-amber-900">
+          <CalendarClock className="h-5 w-5" />
+          <span>Scheduled Sends</span>
+        </CardTitle>
+        <CardDescription className="text-amber-700">
+          Campaigns waiting for their send time. They can be edited or cancelled until they start.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        {campaigns.map((campaign) => (
+          <div key={campaign.id} className="space-y-2 p-3 rounded-lg border border-amber-100">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-amber-900 truncate">{campaign.subject}</p>
+              <p className="text-xs text-amber-600">{campaign.audience_label}</p>
+              <p className="text-xs text-gray-500">
+                {formatScheduledTime(campaign.scheduled_for, campaign.schedule_timezone)}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => openEditor(campaign)}
+                disabled={busy === campaign.id}
+                variant="outline"
+                size="sm"
+                className="flex-1 flex items-center space-x-1 border-amber-300 text-amber-800 hover:bg-amber-100"
+              >
+                <Pencil size={14} />
+                <span>Edit</span>
+              </Button>
+              <Button
+                onClick={() => handleCancel(campaign)}
+                disabled={busy === campaign.id}
+                variant="outline"
+                size="sm"
+                className="flex-1 flex items-center space-x-1 border-red-200 text-red-700 hover:bg-red-50"
+              >
+                <X size={14} />
+                <span>Cancel send</span>
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        {editing && (
+          <DialogContent className="sm:max-w-2xl">
+            <DialogHeader>
+              <DialogTitle className="text-amber-900">Edit scheduled send</DialogTitle>
+              <DialogDescription>
+                {editing.campaign.audience_label}. Attachments and audience stay as scheduled.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="scheduled-subject" className="text-sm font-medium">Email Subject</Label>
+                <Input
+                  id="scheduled-subject"
+                  value={editing.subject}
+                  maxLength={200}
+                  onChange={(e) => setEditing({ ...editing, subject: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scheduled-content" className="text-sm font-medium">Message Content</Label>
+                <Textarea
+                  id="scheduled-content"
+                  value={editing.content}
+                  maxLength={10000}
+                  className="min-h-40 resize-none"
+                  onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                />
+              </div>
+              <SchedulePicker
+                idPrefix="scheduled-edit"
+                schedule={editing.schedule}
+                onChange={(schedule) => setEditing({ ...editing, schedule })}
+              />
+              {editErrors.length > 0 && (
+                <p className="text-sm text-red-600">{editErrors[0]}</p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => setEditing(null)}
+                className="border-amber-300 text-amber-800 hover:bg-amber-100"
+              >
+                Close
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={editErrors.length > 0 || busy === editing.campaign.id}
+                className="bg-amber-600 hover:bg-amber-700 text-white"
+              >
+                {busy === editing.campaign.id ? 'Saving...' : 'Save changes'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ScheduledCampaigns;
@@ -0,0 +1,321 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Archive, Bookmark, Eye, Pencil, Save, Send } from 'lucide-react';
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import {
+  AudienceFilter,
+  describeAudience,
+  normalizeAudienceFilter,
+  selectAudience,
+  validateAudienceFilter
+} from '@shared/audience';
+
+interface Employee {
+  id: string;
+  name: string;
+  email: string;
+  employee_id: number;
+  pillar: string;
+  level: string;
+}
+
+export interface Segment {
+  id: string;
+  name: string;
+  description: string | null;
+  version: number;
+  // null when the stored definition no longer passes validation
+  definition: AudienceFilter | null;
+}
+
+interface SegmentListProps {
+  employees: Employee[];
+  // Current audience builder filter, saved by "Save audience"
+  audience: AudienceFilter;
+  loadingKeys: Set<string>;
+  canSend: boolean;
+  onSend: (segment: Segment) => void;
+  onPreview: (segment: Segment) => void;
+  onEdit: (segment: Segment) => void;
+}
+
+const SegmentList = ({
+  employees,
+  audience,
+  loadingKeys,
+  canSend,
+  onSend,
+  onPreview,
+  onEdit
+}: SegmentListProps) => {
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [editing, setEditing] = useState<Segment | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchSegments = useCallback(async () => {
+    const result = await safeSupabaseCall(async () =>
+      await supabase
+        .from('audience_segments')
+        .select('id, name, description, current_version, audience_segment_versions(version, definition)')
+        .is('archived_at', null)
+        .order('name', { ascending: true })
+    );
+
+    if (result.error) {
+      console.error('Error fetching segments:', result.error);
+      return;
+    }
+
+    setSegments((result.data || []).map(row => {
+      const current = (row.audience_segment_versions || [])
+        .find(version => version.version === row.current_version);
+      const valid = current && validateAudienceFilter(current.definition).length === 0;
+
+      return {
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        version: row.current_version,
+        definition: valid ? normalizeAudienceFilter(current.definition as unknown as AudienceFilter) : null
+      };
+    }));
+  }, []);
+
+  useEffect(() => {
+    fetchSegments();
+  }, [fetchSegments]);
+
+  const counts = useMemo(() => new Map(segments.map(segment => [
+    segment.id,
+    segment.definition ? selectAudience(employees, segment.definition).length : 0
+  ])), [segments, employees]);
+
+  const handleEdit = (segment: Segment) => {
+    setEditing(segment);
+    setName(segment.name);
+    setDescription(segment.description || '');
+    onEdit(segment);
+  };
+
+  const resetForm = () => {
+    setEditing(null);
+    setName('');
+    setDescription('');
+  };
+
+  const handleSave = async (asNew: boolean) => {
+    if (!name.trim()) {
+      toast({ title: 'Validation Error', description: 'Segment name is required', variant: 'destructive' });
+      return;
+    }
+    const errors = validateAudienceFilter(audience);
+    if (errors.length > 0) {
+      toast({ title: 'Validation Error', description: errors[0], variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const result = await safeSupabaseCall(async () =>
+        await supabase.rpc('save_audience_segment', {
+          p_segment_id: asNew ? null : editing?.id ?? null,
+          p_name: name.trim(),
+          p_description: description.trim() || null,
+          p_definition: normalizeAudienceFilter(audience) as unknown as Json
+        })
+      );
+
+      if (result.error) {
+        throw new Error(result.error.code === '23505'
+          ? 'A segment with this name already exists'
+          : result.error.message || 'Failed to save segment');
+      }
+
+      toast({
+        title: 'Segment saved',
+        description: `${result.data.name} (version ${result.data.current_version})`,
+      });
+      resetForm();
+      await fetchSegments();
+    } catch (error) {
+      console.error('Error saving segment:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to save segment. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchive = async (segment: Segment) => {
+    if (!window.confirm(`Archive segment "${segment.name}"? Past campaigns keep their record of it.`)) {
+      return;
+    }
+
+    const result = await safeSupabaseCall(async () =>
+      await supabase.rpc('archive_audience_segment', { p_segment_id: segment.id })
+    );
+
+    if (result.error) {
+      toast({
+        title: 'Error',
+        description: result.error.message || 'Failed to archive segment',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (editing?.id === segment.id) {
+      resetForm();
+    }
+    await fetchSegments();
+  };
+
+  return (
+    <Card className="border-amber-200 shadow-lg">
+      <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+        <div className="flex items-center space-x-2">
+          <Bookmark className="h-5 w-5 text-amber-700" />
+          <CardTitle className="text-amber-900">Saved Segments</CardTitle>
+        </div>
+        <CardDescription className="text-amber-700">
+          Named audiences. Recipients are re-evaluated against the employee directory every time you send.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        {segments.length === 0 ? (
+          <p className="text-sm text-amber-600 text-center py-2">
+            No saved segments yet. Build an audience above and save it here.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {segments.map((segment) => {
+              const isLoading = loadingKeys.has(segment.id);
+              const count = counts.get(segment.id) || 0;
+              return (
+                <div key={segment.id} className="space-y-3 p-4 rounded-lg border border-amber-100">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-amber-900 truncate">{segment.name}</p>
+                      <p className="text-xs text-amber-600 truncate">
+                        {segment.definition ? describeAudience(segment.definition) : 'Invalid definition'}
+                      </p>
+                    </div>
+                    <Badge variant="secondary" className="text-xs bg-amber-200 text-amber-800 shrink-0">
+                      {count} • v{segment.version}
+                    </Badge>
+                  </div>
+                  {segment.description && (
+                    <p className="text-xs text-gray-500">{segment.description}</p>
+                  )}
+                  <div className="flex space-x-2">
+                    <Button
+                      onClick={() => onPreview(segment)}
+                      variant="outline"
+                      size="sm"
+                      className="border-amber-300 text-amber-800 hover:bg-amber-100"
+                      disabled={!segment.definition || count === 0}
+                      title="Preview"
+                    >
+                      <Eye size={16} />
+                    </Button>
+                    <Button
+                      onClick={() => handleEdit(segment)}
+                      variant="outline"
+                      size="sm"
+                      className="border-amber-300 text-amber-800 hover:bg-amber-100"
+                      disabled={!segment.definition}
+                      title="Load into audience builder"
+                    >
+                      <Pencil size={16} />
+                    </Button>
+                    <Button
+                      onClick={() => handleArchive(segment)}
+                      variant="outline"
+                      size="sm"
+                      className="border-amber-300 text-amber-800 hover:bg-amber-100"
+                      title="Archive"
+                    >
+                      <Archive size={16} />
+                    </Button>
+                    <Button
+                      onClick={() => onSend(segment)}
+                      disabled={isLoading || !canSend || !segment.definition || count === 0}
+                      className="flex-1 flex items-center space-x-2 bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 text-white shadow-lg"
+                      size="sm"
+                    >
+                      <Send size={16} className={isLoading ? 'animate-spin' : ''} />
+                      <span>{isLoading ? 'Sending...' : 'Send'}</span>
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-2 p-3 rounded-lg bg-gradient-to-br from-amber-50 to-orange-50 border border-amber-100">
+          <p className="text-sm font-medium text-amber-900">
+            {editing ? `Editing "${editing.name}" (v${editing.version})` : 'Save the current audience'}
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <Input
+              placeholder="Segment name, e.g. All managers"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+            />
+            <Input
+              placeholder="Description (optional)"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+          <div className="flex space-x-2">
+            {editing && (
+              <Button
+                onClick={() => handleSave(false)}
+                disabled={saving}
+                size="sm"
+                className="flex-1 flex items-center space-x-2 bg-amber-600 hover:bg-amber-700 text-white"
+              >
+                <Save size={16} />
+                <span>Save as v{editing.version + 1}</span>
+              </Button>
+            )}
+            <Button
+              onClick={() => handleSave(true)}
+              disabled={saving}
+              variant={editing ? 'outline' : 'default'}
+              size="sm"
+              className={editing
+                ? 'flex-1 border-amber-300 text-amber-800 hover:bg-amber-100'
+                : 'flex-1 flex items-center space-x-2 bg-amber-600 hover:bg-amber-700 text-white'}
+            >
+              {!editing && <Save size={16} />}
+              <span>{editing ? 'Save as new segment' : 'Save segment'}</span>
+            </Button>
+            {editing && (
+              <Button onClick={resetForm} variant="ghost" size="sm" className="text-amber-800">
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SegmentList;
@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Archive, History, Save } from 'lucide-react';
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+  current_version: number;
+  updated_at: string;
+}
+
+interface TemplateVersion {
+  version: number;
+  name: string;
+  subject: string;
+  body: string;
+  editor_email: string | null;
+  created_at: string;
+}
+
+interface TemplateManagerProps {
+  open: boolean;
+  templates: EmailTemplate[];
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+const TemplateManager = ({ open, templates, onOpenChange, onChanged }: TemplateManagerProps) => {
+  const [selected, setSelected] = useState<EmailTemplate | null>(null);
+  const [name, setName] = useState('');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) setSelected(null);
+  }, [open]);
+
+  const selectTemplate = async (template: EmailTemplate) => {
+    setSelected(template);
+    setName(template.name);
+    setSubject(template.subject);
+    setBody(template.body);
+
+    const result = await safeSupabaseCall(async () =>
+      await supabase
+        .from('email_template_versions')
+        .select('version, name, subject, body, editor_email, created_at')
+        .eq('template_id', template.id)
+        .order('version', { ascending: false })
+    );
+    setVersions(result.error ? [] : result.data || []);
+  };
+
+  const restoreVersion = (version: TemplateVersion) => {
+    setName(version.name);
+    setSubject(version.subject);
+    setBody(version.body);
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+    if (!name.trim() || !subject.trim() || !body.trim()) {
+      toast({ title: 'Validation Error', description: 'Name, subject and body are required', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const result = await safeSupabaseCall(async () =>
+        await supabase
+          .from('email_templates')
+          .update({ name: name.trim(), subject, body })
+          .eq('id', selected.id)
+          .select('id, name, subject, body, current_version, updated_at')
+          .single()
+      );
+
+      if (result.error) {
+        throw new Error(result.error.code === '23505'
+          ? 'A template with this name already exists'
+          : result.error.message || 'Failed to save template');
+      }
+
+      toast({ title: 'Template saved', description: `${result.data.name} is now version ${result.data.current_version}` });
+      onChanged();
+      await selectTemplate(result.data);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to save template. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchive = async () => {
+    if (!selected || !window.confirm(`Archive template "${selected.name}"?`)) return;
+
+    const result = await safeSupabaseCall(async () =>
+      await supabase
+        .from('email_templates')
+        .update({ archived_at: new Date().toISOString() })
+        .eq('id', selected.id)
+    );
+
+    if (result.error) {
+      toast({ title: 'Error', description: result.error.message || 'Failed to archive template', variant: 'destructive' });
+      return;
+    }
+
+    setSelected(null);
+    onChanged();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="text-amber-900">Email Templates</DialogTitle>
+          <DialogDescription>
+            Use {'{{placeholder}}'} for values to fill in when the template is loaded. Every save creates a new version.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <ScrollArea className="h-96 border border-amber-100 rounded-lg">
+            <div className="p-2 space-y-1">
+              {templates.length === 0 && (
+                <p className="text-sm text-amber-600 p-2">Save a draft as a template to get started.</p>
+              )}
+              {templates.map(template => (
+                <button
+                  key={template.id}
+                  type="button"
+                  onClick={() => selectTemplate(template)}
+                  className={`w-full text-left p-2 rounded-md text-sm ${
+                    selected?.id === template.id ? 'bg-amber-200 text-amber-900' : 'hover:bg-amber-50 text-amber-800'
+                  }`}
+                >
+                  <div className="font-medium truncate">{template.name}</div>
+                  <div className="text-xs opacity-75">v{template.current_version}</div>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <div className="md:col-span-2 space-y-3">
+            {!selected ? (
+              <p className="text-sm text-amber-600 p-4">Select a template to edit it or see its history.</p>
+            ) : (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="template-name" className="text-sm">Name</Label>
+                  <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="template-subject" className="text-sm">Subject</Label>
+                  <Input id="template-subject" value={subject} onChange={(e) => setSubject(e.target.value)} maxLength={200} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="template-body" className="text-sm">Body</Label>
+                  <Textarea
+                    id="template-body"
+                    value={body}
+                    onChange={(e) => setBody(e.target.value)}
+                    className="min-h-32 resize-none"
+                    maxLength={10000}
+                  />
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    onClick={handleSave}
+                    disabled={saving}
+                    size="sm"
+                    className="flex items-center space-x-2 bg-amber-600 hover:bg-amber-700 text-white"
+                  >
+                    <Save size={16} />
+                    <span>{saving ? 'Saving...' : 'Save new version'}</span>
+                  </Button>
+                  <Button
+                    onClick={handleArchive}
+                    variant="outline"
+                    size="sm"
+                    className="flex items-center space-x-2 border-amber-300 text-amber-800 hover:bg-amber-100"
+                  >
+                    <Archive size={16} />
+                    <span>Archive</span>
+                  </Button>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2 text-sm font-medium text-amber-900">
+                    <History size={16} />
+                    <span>History</span>
+                  </div>
+                  <ScrollArea className="h-32 border border-amber-100 rounded-lg">
+                    <div className="p-2 space-y-1">
+                      {versions.map(version => (
+                        <div key={version.version} className="flex items-center justify-between gap-2 text-xs p-1">
+                          <div className="min-w-0">
+                            <Badge variant="outline" className="border-amber-300 text-amber-800 mr-2">v{version.version}</Badge>
+                            <span className="text-gray-600">
+                              {version.editor_email || 'Unknown editor'} • {new Date(version.created_at).toLocaleString()}
+                            </span>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => restoreVersion(version)}
+                            className="h-6 text-amber-800 hover:bg-amber-100"
+                          >
+                            Restore
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateManager;
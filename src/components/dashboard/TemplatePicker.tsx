@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FileText, Save, Settings } from 'lucide-react';
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { fillPlaceholders, findPlaceholders, placeholderLabel } from '@/utils/templates';
+import TemplateManager, { EmailTemplate } from './TemplateManager';
+
+interface TemplatePickerProps {
+  subject: string;
+  emailContent: string;
+  onLoad: (subject: string, content: string) => void;
+}
+
+const TemplatePicker = ({ subject, emailContent, onLoad }: TemplatePickerProps) => {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [saving, setSaving] = useState(false);
+  const [managerOpen, setManagerOpen] = useState(false);
+  // Template waiting for its placeholders to be filled in
+  const [pending, setPending] = useState<EmailTemplate | null>(null);
+  const [placeholderValues, setPlaceholderValues] = useState<Record<string, string>>({});
+
+  const fetchTemplates = useCallback(async () => {
+    const result = await safeSupabaseCall(async () =>
+      await supabase
+        .from('email_templates')
+        .select('id, name, subject, body, current_version, updated_at')
+        .is('archived_at', null)
+        .order('name', { ascending: true })
+    );
+
+    if (result.error) {
+      console.error('Error fetching templates:', result.error);
+      return;
+    }
+    setTemplates(result.data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleLoad = () => {
+    const template = templates.find(t => t.id === selectedId);
+    if (!template) return;
+
+    const placeholders = findPlaceholders(template.subject, template.body);
+    if (placeholders.length === 0) {
+      onLoad(template.subject, template.body);
+      return;
+    }
+
+    setPlaceholderValues(Object.fromEntries(placeholders.map(name => [name, ''])));
+    setPending(template);
+  };
+
+  const handleFillPlaceholders = () => {
+    if (!pending) return;
+    onLoad(
+      fillPlaceholders(pending.subject, placeholderValues),
+      fillPlaceholders(pending.body, placeholderValues)
+    );
+    setPending(null);
+  };
+
+  // Saves the current draft under its subject; a numeric suffix keeps names unique
+  const handleSaveDraft = async () => {
+    if (!subject.trim() || !emailContent.trim()) {
+      toast({
+        title: 'Validation Error',
+        description: 'Write a subject and message before saving a template',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const baseName = subject.trim().substring(0, 90);
+      const taken = new Set(templates.map(t => t.name.toLowerCase()));
+      let name = baseName;
+      for (let n = 2; taken.has(name.toLowerCase()); n++) {
+        name = `${baseName} (${n})`;
+      }
+
+      const result = await safeSupabaseCall(async () =>
+        await supabase
+          .from('email_templates')
+          .insert({ name, subject, body: emailContent })
+          .select('id, name, subject, body, current_version, updated_at')
+          .single()
+      );
+
+      if (result.error) {
+        throw new Error(result.error.message || 'Failed to save template');
+      }
+
+      toast({ title: 'Template saved', description: `Saved as "${name}"` });
+      await fetchTemplates();
+      setSelectedId(result.data.id);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to save template. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-amber-200 shadow-lg">
+      <CardContent className="pt-6">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="flex items-center space-x-2 flex-1">
+            <FileText className="h-5 w-5 text-amber-700 shrink-0" />
+            <Select value={selectedId} onValueChange={setSelectedId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder={templates.length ? 'Choose a template...' : 'No templates yet'} />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={handleLoad}
+              disabled={!selectedId}
+              size="sm"
+              className="bg-amber-600 hover:bg-amber-700 text-white"
+            >
+              Load
+            </Button>
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              onClick={handleSaveDraft}
+              disabled={saving}
+              variant="outline"
+              size="sm"
+              className="flex-1 flex items-center space-x-2 border-amber-300 text-amber-800 hover:bg-amber-100"
+            >
+              <Save size={16} />
+              <span>{saving ? 'Saving...' : 'Save as template'}</span>
+            </Button>
+            <Button
+              onClick={() => setManagerOpen(true)}
+              variant="outline"
+              size="sm"
+              className="border-amber-300 text-amber-800 hover:bg-amber-100"
+              title="Manage templates"
+            >
+              <Settings size={16} />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="text-amber-900">Fill in "{pending?.name}"</DialogTitle>
+            <DialogDescription>These values replace the placeholders in the subject and message.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {Object.keys(placeholderValues).map(name => (
+              <div key={name} className="space-y-1">
+                <Label htmlFor={`placeholder-${name}`} className="text-sm">{placeholderLabel(name)}</Label>
+                <Input
+                  id={`placeholder-${name}`}
+                  value={placeholderValues[name]}
+                  onChange={(e) => setPlaceholderValues(prev => ({ ...prev, [name]: e.target.value }))}
+                  maxLength={200}
+                  autoComplete="off"
+                />
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)} className="border-amber-300 text-amber-800 hover:bg-amber-100">
+              Cancel
+            </Button>
+            <Button onClick={handleFillPlaceholders} className="bg-amber-600 hover:bg-amber-700 text-white">
+              Load into composer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <TemplateManager
+        open={managerOpen}
+        templates={templates}
+        onOpenChange={setManagerOpen}
+        onChanged={fetchTemplates}
+      />
+    </Card>
+  );
+};
+
+export default TemplatePicker;
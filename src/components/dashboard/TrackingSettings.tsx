@@ -0,0 +1,97 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Eye } from 'lucide-react';
+import { PillarTracking } from '@shared/tracking';
+import { listTrackingSettings, saveTrackingSetting, trackingQueryKeys } from '@/utils/tracking';
+
+interface TrackingSettingsProps {
+  pillars: string[];
+}
+
+const TrackingSettings = ({ pillars }: TrackingSettingsProps) => {
+  const queryClient = useQueryClient();
+
+  const { data: settings = [], error, isLoading } = useQuery({
+    queryKey: trackingQueryKeys.settings,
+    queryFn: listTrackingSettings,
+  });
+
+  const save = useMutation({
+    mutationFn: saveTrackingSetting,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: trackingQueryKeys.settings }),
+    onError: (error: Error) => {
+      console.error('Error saving tracking setting:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save the tracking setting. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Pillars without a saved setting are not tracked
+  const settingFor = (pillar: string): PillarTracking =>
+    settings.find(setting => setting.pillar === pillar) ?? { pillar, track_opens: false, track_clicks: false };
+
+  return (
+    <Card className="border-amber-200 shadow-lg">
+      <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+        <CardTitle className="flex items-center space-x-2 text-amber-900">
+          <Eye className="h-5 w-5" />
+          <span>Tracking Settings</span>
+        </CardTitle>
+        <CardDescription className="text-amber-700">
+          Pillars where campaigns may track opens and clicks. Off unless enabled here; confidential messages are never tracked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {error ? (
+          <div className="text-sm text-red-600">Failed to load tracking settings: {error.message}</div>
+        ) : pillars.length === 0 ? (
+          <div className="text-sm text-gray-500">No pillars yet</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-amber-900">
+                <th className="font-medium pb-2">Pillar</th>
+                <th className="font-medium pb-2 text-center">Opens</th>
+                <th className="font-medium pb-2 text-center">Clicks</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pillars.map(pillar => {
+                const setting = settingFor(pillar);
+                return (
+                  <tr key={pillar} className="border-t border-amber-100">
+                    <td className="py-2">{pillar}</td>
+                    <td className="py-2 text-center">
+                      <Switch
+                        aria-label={`Track opens for ${pillar}`}
+                        checked={setting.track_opens}
+                        disabled={isLoading || save.isPending}
+                        onCheckedChange={(track_opens) => save.mutate({ ...setting, track_opens })}
+                      />
+                    </td>
+                    <td className="py-2 text-center">
+                      <Switch
+                        aria-label={`Track clicks for ${pillar}`}
+                        checked={setting.track_clicks}
+                        disabled={isLoading || save.isPending}
+                        onCheckedChange={(track_clicks) => save.mutate({ ...setting, track_clicks })}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrackingSettings;
@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { EmployeeFormValues, EmployeeRecord, employeeSchema } from '@/utils/employees';
+
+interface EmployeeFormDialogProps {
+  open: boolean;
+  // null creates a new employee
+  employee: EmployeeRecord | null;
+  pillars: string[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const EMPTY_VALUES = { name: '', email: '', employee_id: '' as unknown as number, pillar: '', level: '' };
+
+const EmployeeFormDialog = ({ open, employee, pillars, onOpenChange, onSaved }: EmployeeFormDialogProps) => {
+  const [saving, setSaving] = useState(false);
+  const form = useForm<EmployeeFormValues>({
+    resolver: zodResolver(employeeSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(employee
+        ? {
+            name: employee.name,
+            email: employee.email,
+            employee_id: employee.employee_id,
+            pillar: employee.pillar,
+            level: employee.level,
+          }
+        : EMPTY_VALUES);
+    }
+  }, [open, employee]);
+
+  // Email and employee_id are unique across all employees, including deactivated ones
+  const checkUniqueness = async (values: EmployeeFormValues): Promise<boolean> => {
+    const [byEmail, byEmployeeId] = await Promise.all([
+      safeSupabaseCall(async () =>
+        await supabase.from('employees').select('id, active').eq('email', values.email).limit(1)
+      ),
+      safeSupabaseCall(async () =>
+        await supabase.from('employees').select('id, active').eq('employee_id', values.employee_id).limit(1)
+      ),
+    ]);
+
+    if (byEmail.error || byEmployeeId.error) {
+      throw new Error('Unable to verify that the employee is unique');
+    }
+
+    const emailOwner = (byEmail.data || []).find(row => row.id !== employee?.id);
+    const idOwner = (byEmployeeId.data || []).find(row => row.id !== employee?.id);
+
+    if (emailOwner) {
+      form.setError('email', {
+        message: emailOwner.active
+          ? 'Another employee already uses this email'
+          : 'This email belongs to a deactivated employee',
+      });
+    }
+    if (idOwner) {
+      form.setError('employee_id', {
+        message: idOwner.active
+          ? 'Another employee already has this employee ID'
+          : 'This employee ID belongs to a deactivated employee',
+      });
+    }
+
+    return !emailOwner && !idOwner;
+  };
+
+  const onSubmit = async (values: EmployeeFormValues) => {
+    setSaving(true);
+
+    try {
+      if (!(await checkUniqueness(values))) {
+        return;
+      }
+
+      // The resolver has already checked that every field is present
+      const record = values as Required<EmployeeFormValues>;
+      const result = await safeSupabaseCall(async () =>
+        employee
+          ? await supabase.from('employees').update(record).eq('id', employee.id)
+          : await supabase.from('employees').insert(record)
+      );
+
+      if (result.error) {
+        throw new Error(result.error.code === '23505'
+          ? 'Another employee already uses this email or employee ID'
+          : result.error.message || 'Failed to save employee');
+      }
+
+      toast({
+        title: employee ? 'Employee updated' : 'Employee added',
+        description: `${values.name} (${values.employee_id})`,
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving employee:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to save employee. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-amber-900">{employee ? 'Edit Employee' : 'Add Employee'}</DialogTitle>
+          <DialogDescription>
+            {employee ? 'Changes are recorded in the audit log.' : 'The employee can receive emails right away.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} autoComplete="off" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" {...field} autoComplete="off" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="employee_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Employee ID</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pillar"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pillar</FormLabel>
+                    <FormControl>
+                      <Input list="employee-pillars" {...field} autoComplete="off" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="level"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Level</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. L5" {...field} autoComplete="off" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <datalist id="employee-pillars">
+              {pillars.map(pillar => <option key={pillar} value={pillar} />)}
+            </datalist>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="border-amber-300 text-amber-800 hover:bg-amber-100"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving} className="bg-amber-600 hover:bg-amber-700 text-white">
+                {saving ? 'Saving...' : employee ? 'Save Changes' : 'Add Employee'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EmployeeFormDialog;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, ArrowUpDown, Pencil, UserCheck, UserX } from 'lucide-react';
+import { EmployeeRecord } from '@/utils/employees';
+
+export type SortColumn = 'employee_id' | 'name' | 'email' | 'pillar' | 'level';
+
+export interface SortState {
+  column: SortColumn;
+  ascending: boolean;
+}
+
+interface EmployeeTableProps {
+  employees: EmployeeRecord[];
+  sort: SortState;
+  loading: boolean;
+  onSort: (column: SortColumn) => void;
+  onEdit: (employee: EmployeeRecord) => void;
+  onToggleActive: (employee: EmployeeRecord) => void;
+}
+
+const COLUMNS: { key: SortColumn; label: string }[] = [
+  { key: 'employee_id', label: 'ID' },
+  { key: 'name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'pillar', label: 'Pillar' },
+  { key: 'level', label: 'Level' },
+];
+
+const EmployeeTable = ({ employees, sort, loading, onSort, onEdit, onToggleActive }: EmployeeTableProps) => {
+  const sortIcon = (column: SortColumn) => {
+    if (sort.column !== column) return <ArrowUpDown className="h-3 w-3 opacity-50" />;
+    return sort.ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {COLUMNS.map(column => (
+            <TableHead key={column.key}>
+              <button
+                type="button"
+                onClick={() => onSort(column.key)}
+                className="flex items-center space-x-1 font-medium text-amber-900 hover:text-amber-700"
+              >
+                <span>{column.label}</span>
+                {sortIcon(column.key)}
+              </button>
+            </TableHead>
+          ))}
+          <TableHead className="text-amber-900">Status</TableHead>
+          <TableHead className="text-right text-amber-900">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody className={loading ? 'opacity-50' : ''}>
+        {employees.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={COLUMNS.length + 2} className="text-center py-8 text-amber-600">
+              {loading ? 'Loading employees...' : 'No employees match your search'}
+            </TableCell>
+          </TableRow>
+        ) : employees.map(employee => (
+          <TableRow key={employee.id} className={employee.active ? '' : 'text-gray-400'}>
+            <TableCell className="font-mono">{employee.employee_id}</TableCell>
+            <TableCell className="font-medium">{employee.name}</TableCell>
+            <TableCell>
+              {employee.email}
+              {employee.email_bounced_at && (
+                <Badge
+                  variant="outline"
+                  className="ml-2 border-red-200 text-red-700"
+                  title={employee.email_bounce_reason || 'Hard bounce'}
+                >
+                  Bounced
+                </Badge>
+              )}
+            </TableCell>
+            <TableCell>{employee.pillar}</TableCell>
+            <TableCell>{employee.level}</TableCell>
+            <TableCell>
+              {employee.active ? (
+                <Badge variant="outline" className="border-amber-300 text-amber-800">Active</Badge>
+              ) : (
+                <Badge variant="outline" className="border-gray-300 text-gray-500">Deactivated</Badge>
+              )}
+            </TableCell>
+            <TableCell className="text-right space-x-1 whitespace-nowrap">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onEdit(employee)}
+                className="text-amber-800 hover:bg-amber-100"
+                title="Edit"
+              >
+                <Pencil size={16} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onToggleActive(employee)}
+                className={employee.active ? 'text-red-600 hover:bg-red-50' : 'text-amber-800 hover:bg-amber-100'}
+                title={employee.active ? 'Deactivate' : 'Reactivate'}
+              >
+                {employee.active ? <UserX size={16} /> : <UserCheck size={16} />}
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default EmployeeTable;
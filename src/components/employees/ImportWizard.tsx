@@ -0,0 +1,318 @@
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertCircle, FileSpreadsheet, Upload } from 'lucide-react';
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import {
+  ColumnMapping,
+  diffImport,
+  ExistingEmployee,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportTable,
+  mapImportRows,
+  readImportFile,
+} from '@/utils/employee-import';
+
+interface ImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'review';
+
+const FIELD_LABELS: Record<typeof IMPORT_FIELDS[number], string> = {
+  name: 'Name',
+  email: 'Email',
+  employee_id: 'Employee ID',
+  pillar: 'Pillar',
+  level: 'Level',
+};
+
+// Rows listed per section of the review; the counts always cover everything
+const PREVIEW_LIMIT = 50;
+
+const ImportWizard = ({ open, onOpenChange, onImported }: ImportWizardProps) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [existing, setExisting] = useState<ExistingEmployee[]>([]);
+  const [deactivateMissing, setDeactivateMissing] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const rows = useMemo(
+    () => (table && mapping ? mapImportRows(table, mapping) : []),
+    [table, mapping]
+  );
+  const diff = useMemo(
+    () => diffImport(rows, existing, deactivateMissing),
+    [rows, existing, deactivateMissing]
+  );
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setTable(null);
+    setMapping(null);
+    setExisting([]);
+    setDeactivateMissing(false);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+
+    try {
+      const parsed = await readImportFile(file);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Unable to read the file',
+        variant: 'destructive',
+      });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleReview = async () => {
+    // One JSON array, so the comparison is never cut off at the API row limit
+    const result = await safeSupabaseCall(async () =>
+      await supabase.rpc('employee_import_snapshot')
+    );
+
+    if (result.error) {
+      toast({
+        title: 'Error',
+        description: 'Unable to load the current employees for comparison',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setExisting((result.data || []) as unknown as ExistingEmployee[]);
+    setStep('review');
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+
+    try {
+      const valid = rows.filter(row => row.values).map(row => row.values);
+      const result = await safeSupabaseCall(async () =>
+        await supabase.rpc('apply_employee_import', {
+          p_rows: valid as unknown as Json,
+          p_deactivate_missing: deactivateMissing,
+          p_file_name: fileName,
+        })
+      );
+
+      if (result.error) {
+        throw new Error(result.error.message || 'Failed to apply import');
+      }
+
+      const summary = result.data as { inserted: number; updated: number; deactivated: number };
+      toast({
+        title: 'Import applied',
+        description: `${summary.inserted} added, ${summary.updated} updated, ${summary.deactivated} deactivated`,
+      });
+      handleOpenChange(false);
+      onImported();
+    } catch (error) {
+      console.error('Error applying import:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to apply import. Nothing was changed.',
+        variant: 'destructive',
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const mappingComplete = mapping !== null && IMPORT_FIELDS.every(field => mapping[field] !== null);
+  const hasChanges = diff.inserts.length + diff.updates.length + diff.deactivations.length > 0;
+
+  const renderSection = (title: string, count: number, items: React.ReactNode[], tone: string) => (
+    <div className="space-y-1">
+      <p className={`text-sm font-medium ${tone}`}>{title} ({count})</p>
+      {items.length > 0 && (
+        <ul className="text-xs text-gray-600 space-y-0.5 pl-2">
+          {items.slice(0, PREVIEW_LIMIT)}
+          {count > PREVIEW_LIMIT && <li className="italic">…and {count - PREVIEW_LIMIT} more</li>}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2 text-amber-900">
+            <FileSpreadsheet className="h-5 w-5" />
+            <span>Import Employees</span>
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel (.xlsx) file with one employee per row and a header row.'}
+            {step === 'map' && `Match the columns of ${fileName} to employee fields.`}
+            {step === 'review' && 'Review the changes. Nothing is saved until you apply the import.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-amber-300 rounded-lg cursor-pointer hover:bg-amber-50">
+            <Upload className={`h-8 w-8 text-amber-600 ${reading ? 'animate-pulse' : ''}`} />
+            <span className="text-sm text-amber-800">{reading ? 'Reading file...' : 'Choose a .csv or .xlsx file'}</span>
+            <Input
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              disabled={reading}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {step === 'map' && table && mapping && (
+          <div className="space-y-3">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field} className="grid grid-cols-3 items-center gap-4">
+                <Label className="text-sm font-medium">{FIELD_LABELS[field]}</Label>
+                <Select
+                  value={mapping[field] === null ? 'none' : String(mapping[field])}
+                  onValueChange={(value) => setMapping({ ...mapping, [field]: value === 'none' ? null : Number(value) })}
+                >
+                  <SelectTrigger className="col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not mapped</SelectItem>
+                    {table.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || `Column ${index + 1}`}
+                        {table.rows[0]?.[index] ? ` (e.g. ${table.rows[0][index].substring(0, 30)})` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <p className="text-xs text-amber-700">{table.rows.length} rows found.</p>
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{diff.inserts.length} new</Badge>
+              <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">{diff.updates.length} updated</Badge>
+              <Badge className="bg-gray-100 text-gray-700 hover:bg-gray-100">{diff.unchanged} unchanged</Badge>
+              <Badge className="bg-red-100 text-red-800 hover:bg-red-100">{diff.deactivations.length} deactivated</Badge>
+              {diff.errors.length > 0 && (
+                <Badge variant="destructive">{diff.errors.length} invalid</Badge>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between p-3 rounded-lg bg-amber-50 border border-amber-100">
+              <Label htmlFor="deactivate-missing" className="text-sm">
+                Deactivate active employees that are not in the file
+              </Label>
+              <Switch id="deactivate-missing" checked={deactivateMissing} onCheckedChange={setDeactivateMissing} />
+            </div>
+
+            <ScrollArea className="h-72 pr-3">
+              <div className="space-y-4">
+                {diff.errors.length > 0 && renderSection('Invalid rows', diff.errors.length, diff.errors.map(row => (
+                  <li key={row.line}>Line {row.line}: {row.errors.join('; ')}</li>
+                )), 'text-red-700')}
+                {renderSection('New employees', diff.inserts.length, diff.inserts.map(values => (
+                  <li key={values.employee_id}>{values.employee_id} • {values.name} • {values.email} • {values.pillar} • {values.level}</li>
+                )), 'text-green-700')}
+                {renderSection('Updated employees', diff.updates.length, diff.updates.map(update => (
+                  <li key={update.values.employee_id}>
+                    {update.values.employee_id} • {update.values.name}: {update.changes.map(change =>
+                      change === 'reactivated'
+                        ? 'reactivated'
+                        : `${change} ${String(update.employee[change as keyof ExistingEmployee])} → ${String(update.values[change as keyof typeof update.values])}`
+                    ).join(', ')}
+                  </li>
+                )), 'text-amber-700')}
+                {renderSection('Deactivated employees', diff.deactivations.length, diff.deactivations.map(employee => (
+                  <li key={employee.id}>{employee.employee_id} • {employee.name} • {employee.email}</li>
+                )), 'text-red-700')}
+              </div>
+            </ScrollArea>
+
+            {diff.errors.length > 0 && (
+              <div className="flex items-start space-x-2 text-sm text-red-700">
+                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>Fix the invalid rows in the file and upload it again. Imports are applied all or nothing.</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== 'upload' && (
+            <Button
+              variant="outline"
+              onClick={() => setStep(step === 'review' ? 'map' : 'upload')}
+              className="border-amber-300 text-amber-800 hover:bg-amber-100"
+            >
+              Back
+            </Button>
+          )}
+          {step === 'map' && (
+            <Button
+              onClick={handleReview}
+              disabled={!mappingComplete}
+              className="bg-amber-600 hover:bg-amber-700 text-white"
+            >
+              Review Changes
+            </Button>
+          )}
+          {step === 'review' && (
+            <Button
+              onClick={handleApply}
+              disabled={applying || diff.errors.length > 0 || !hasChanges}
+              className="bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 text-white"
+            >
+              {applying ? 'Applying...' : 'Apply Import'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportWizard;
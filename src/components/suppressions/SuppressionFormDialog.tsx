@@ -0,0 +1,111 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { SuppressionFormValues, suppressionSchema } from '@/utils/suppressions';
+
+interface SuppressionFormDialogProps {
+  open: boolean;
+  saving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: SuppressionFormValues) => void;
+}
+
+const EMPTY_VALUES: SuppressionFormValues = { email: '', reason: '', expiresOn: '' };
+
+const SuppressionFormDialog = ({ open, saving, onOpenChange, onSubmit }: SuppressionFormDialogProps) => {
+  const form = useForm<SuppressionFormValues>({
+    resolver: zodResolver(suppressionSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(EMPTY_VALUES);
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-amber-900">Suppress an Address</DialogTitle>
+          <DialogDescription>
+            Sends skip this address until it is removed from the list or the entry expires.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" {...field} autoComplete="off" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. On extended leave" {...field} maxLength={500} autoComplete="off" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="expiresOn"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Expires on</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormDescription>Optional. Leave empty to keep the address suppressed until it is removed.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="border-amber-300 text-amber-800 hover:bg-amber-100"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving} className="bg-amber-600 hover:bg-amber-700 text-white">
+                {saving ? 'Saving...' : 'Suppress Address'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SuppressionFormDialog;
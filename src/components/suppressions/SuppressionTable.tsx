@@ -0,0 +1,80 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Trash2 } from 'lucide-react';
+import { SuppressionEntry } from '@/utils/suppressions';
+import { isSuppressionActive } from '@shared/suppressions';
+
+interface SuppressionTableProps {
+  suppressions: SuppressionEntry[];
+  loading: boolean;
+  searching: boolean;
+  onRemove: (suppression: SuppressionEntry) => void;
+}
+
+const SOURCE_STYLES: Record<string, string> = {
+  manual: 'border-amber-300 text-amber-800',
+  bounce: 'border-red-200 text-red-700',
+  complaint: 'border-red-200 text-red-700',
+};
+
+const SuppressionTable = ({ suppressions, loading, searching, onRemove }: SuppressionTableProps) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="text-amber-900">Address</TableHead>
+          <TableHead className="text-amber-900">Reason</TableHead>
+          <TableHead className="text-amber-900">Source</TableHead>
+          <TableHead className="text-amber-900">Added</TableHead>
+          <TableHead className="text-amber-900">Expires</TableHead>
+          <TableHead className="text-right text-amber-900">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody className={loading ? 'opacity-50' : ''}>
+        {suppressions.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={6} className="text-center py-8 text-amber-600">
+              {loading ? 'Loading the suppression list...' : searching ? 'No addresses match your search' : 'No addresses are suppressed'}
+            </TableCell>
+          </TableRow>
+        ) : suppressions.map(suppression => {
+          const active = isSuppressionActive(suppression);
+
+          return (
+            <TableRow key={suppression.id} className={active ? '' : 'text-gray-400'}>
+              <TableCell className="font-medium">{suppression.email}</TableCell>
+              <TableCell className="text-sm max-w-xs break-words">{suppression.reason}</TableCell>
+              <TableCell>
+                <Badge variant="outline" className={SOURCE_STYLES[suppression.source]}>{suppression.source}</Badge>
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                <div>{new Date(suppression.created_at).toLocaleString()}</div>
+                <div className="text-xs text-gray-500">{suppression.created_by_email || 'Email webhook'}</div>
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                {suppression.expires_at
+                  ? `${active ? '' : 'Expired '}${new Date(suppression.expires_at).toLocaleDateString()}`
+                  : 'Never'}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemove(suppression)}
+                  className="text-red-600 hover:bg-red-50"
+                  title="Remove"
+                >
+                  <Trash2 size={16} />
+                </Button>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default SuppressionTable;
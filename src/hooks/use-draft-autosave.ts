@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DraftConflictError,
+  DraftContent,
+  EmailDraft,
+  createDraft,
+  deleteDraft,
+  isEmptyDraft,
+  loadDraft,
+  saveDraft,
+} from '@/utils/drafts';
+
+export type DraftSaveStatus = 'idle' | 'saving' | 'saved' | 'conflict' | 'error';
+
+const AUTOSAVE_DELAY_MS = 1500;
+// Kept in localStorage (sign-out only clears sessionStorage) so the open draft
+// comes back after a refresh or a new sign-in
+const OPEN_DRAFT_KEY = 'admin-mail:open-draft';
+
+const rememberOpenDraft = (id: string | null) => {
+  try {
+    if (id) {
+      localStorage.setItem(OPEN_DRAFT_KEY, id);
+    } else {
+      localStorage.removeItem(OPEN_DRAFT_KEY);
+    }
+  } catch {
+    // Drafts still autosave without localStorage; only the reopen is lost
+  }
+};
+
+const storedOpenDraft = (): string | null => {
+  try {
+    return localStorage.getItem(OPEN_DRAFT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+// Autosaves the composer to `email_drafts` a moment after the last change.
+// `onRestore` puts a loaded draft back into the composer.
+export function useDraftAutosave(content: DraftContent, onRestore: (draft: DraftContent) => void) {
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [status, setStatus] = useState<DraftSaveStatus>('idle');
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+
+  const draftIdRef = useRef<string | null>(null);
+  const revisionRef = useRef(0);
+  // What the server has, to skip saves that would change nothing
+  const lastSavedRef = useRef(JSON.stringify(content));
+  const contentRef = useRef(content);
+  const savingRef = useRef(false);
+  const statusRef = useRef<DraftSaveStatus>('idle');
+  contentRef.current = content;
+
+  const updateStatus = (next: DraftSaveStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  };
+
+  const track = (draft: EmailDraft) => {
+    draftIdRef.current = draft.id;
+    revisionRef.current = draft.revision;
+    setDraftId(draft.id);
+    setSavedAt(draft.updated_at);
+    rememberOpenDraft(draft.id);
+  };
+
+  const save = useCallback(async () => {
+    if (savingRef.current || statusRef.current === 'conflict') return;
+
+    const current = contentRef.current;
+    const snapshot = JSON.stringify(current);
+    if (snapshot === lastSavedRef.current) return;
+    if (!draftIdRef.current && isEmptyDraft(current)) return;
+
+    savingRef.current = true;
+    updateStatus('saving');
+
+    try {
+      const saved = draftIdRef.current
+        ? await saveDraft(draftIdRef.current, revisionRef.current, current)
+        : await createDraft(current);
+      track(saved);
+      lastSavedRef.current = snapshot;
+      updateStatus('saved');
+    } catch (error) {
+      console.error('Error saving draft:', error);
+      updateStatus(error instanceof DraftConflictError ? 'conflict' : 'error');
+    } finally {
+      savingRef.current = false;
+    }
+
+    // Changes made while the request was in flight get their own save
+    if (statusRef.current === 'saved' && JSON.stringify(contentRef.current) !== lastSavedRef.current) {
+      save();
+    }
+  }, []);
+
+  const contentKey = JSON.stringify(content);
+  useEffect(() => {
+    if (contentKey === lastSavedRef.current) return;
+    const timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [contentKey, save]);
+
+  const restore = (draft: EmailDraft) => {
+    const restored: DraftContent = {
+      subject: draft.subject,
+      content: draft.content,
+      audience: draft.audience,
+      attachments: draft.attachments,
+    };
+    track(draft);
+    lastSavedRef.current = JSON.stringify(restored);
+    updateStatus('saved');
+    onRestore(restored);
+  };
+
+  // Returns false when the draft no longer exists
+  const openDraft = async (id: string): Promise<boolean> => {
+    // Don't drop changes still waiting for the autosave delay
+    await save();
+    const draft = await loadDraft(id);
+    if (!draft) {
+      if (draftIdRef.current === id) await newDraft();
+      return false;
+    }
+    restore(draft);
+    return true;
+  };
+
+  // Start over with an empty composer; the current draft stays in the list
+  const newDraft = async (initial: DraftContent = { subject: '', content: '', audience: null, attachments: [] }) => {
+    await save();
+    draftIdRef.current = null;
+    revisionRef.current = 0;
+    setDraftId(null);
+    setSavedAt(null);
+    rememberOpenDraft(null);
+    lastSavedRef.current = JSON.stringify(initial);
+    updateStatus('idle');
+    onRestore(initial);
+  };
+
+  const removeDraft = async (id: string) => {
+    await deleteDraft(id);
+    if (draftIdRef.current === id) {
+      lastSavedRef.current = JSON.stringify(contentRef.current);
+      await newDraft();
+    }
+  };
+
+  // After a conflict: 'theirs' loads the stored version, 'mine' saves this
+  // tab's text over it
+  const resolveConflict = async (keep: 'theirs' | 'mine') => {
+    const id = draftIdRef.current;
+    if (!id) return;
+
+    const latest = await loadDraft(id);
+    if (keep === 'theirs' && latest) {
+      restore(latest);
+      return;
+    }
+
+    if (latest) {
+      revisionRef.current = latest.revision;
+    } else {
+      // Deleted elsewhere: save this text as a new draft
+      draftIdRef.current = null;
+      setDraftId(null);
+    }
+    lastSavedRef.current = '';
+    updateStatus('idle');
+    await save();
+  };
+
+  // Reopen the draft that was open before a refresh or sign-in (on mount only)
+  useEffect(() => {
+    const id = storedOpenDraft();
+    if (id) {
+      openDraft(id).catch(error => console.error('Error reopening draft:', error));
+    }
+  }, []);
+
+  return { draftId, status, savedAt, openDraft, newDraft, removeDraft, resolveConflict };
+}
@@ -1,5 +1,5 @@
 // This file is automatically generated. Do not edit it directly.
-import { createClient } from '@supabase/supabase-js';
+import { createClient, FunctionsHttpError } from '@supabase/supabase-js';
 import type { Database } from './types';
 
 const SUPABASE_URL = "https://rkigicorocqvlwupabps.supabase.co";
@@ -62,8 +62,8 @@ export const supabase = createClient<Database>(
 
 // Enhanced error handling wrapper
 export const safeSupabaseCall = async <T>(
-  operation: () => Promise<{ data: T | null; error: any }>
-): Promise<{ data: T | null; error: any }> => {
+  operation: () => Promise<{ data: T | null; error: any; count?: number | null }>
+): Promise<{ data: T | null; error: any; count?: number | null }> => {
   try {
     const result = await operation();
     
@@ -93,6 +93,10 @@ export const safeSupabaseCall = async <T>(
   }
 };
 
+// HTTP status of a `supabase.functions.invoke` call the function answered with an error
+export const functionErrorStatus = (error: unknown): number | undefined =>
+  error instanceof FunctionsHttpError ? (error.context as Response).status : undefined;
+
 // Session validation helper - simplified to let Supabase handle token refresh
 export const validateSession = async (): Promise<boolean> => {
   try {
@@ -60,10 +60,627 @@ export type Database = {
         }
         Relationships: []
       }
+      audience_segment_versions: {
+        Row: {
+          created_at: string
+          created_by: string
+          definition: Json
+          id: string
+          segment_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          definition: Json
+          id?: string
+          segment_id: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          definition?: Json
+          id?: string
+          segment_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audience_segment_versions_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "audience_segments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audience_segments: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          created_by: string
+          current_version: number
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          created_by: string
+          current_version?: number
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          created_by?: string
+          current_version?: number
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          file_name: string
+          id: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string
+          used_at: string | null
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          file_name: string
+          id?: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by?: string
+          used_at?: string | null
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          file_name?: string
+          id?: string
+          size_bytes?: number
+          storage_path?: string
+          uploaded_by?: string
+          used_at?: string | null
+        }
+        Relationships: []
+      }
+      email_campaigns: {
+        Row: {
+          approval_reasons: string[]
+          approval_required: boolean
+          attachments: Json
+          audience: Json
+          audience_label: string
+          cancelled_at: string | null
+          cancelled_by: string | null
+          category: string
+          completed_at: string | null
+          confidential: boolean
+          content: string
+          created_at: string
+          created_by: string
+          dispatch_locked_until: string | null
+          failed_count: number
+          id: string
+          previous_campaign_id: string | null
+          requested_by_email: string | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_by_email: string | null
+          schedule_timezone: string | null
+          scheduled_for: string | null
+          segment_id: string | null
+          segment_version: number | null
+          sent_count: number
+          started_at: string | null
+          status: string
+          status_reason: string | null
+          subject: string
+          suppressed_count: number
+          total_recipients: number
+          track_clicks: boolean
+          track_opens: boolean
+          transport: string
+          updated_at: string
+        }
+        Insert: {
+          approval_reasons?: string[]
+          approval_required?: boolean
+          attachments?: Json
+          audience?: Json
+          audience_label: string
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          category?: string
+          completed_at?: string | null
+          confidential?: boolean
+          content: string
+          created_at?: string
+          created_by: string
+          dispatch_locked_until?: string | null
+          failed_count?: number
+          id?: string
+          previous_campaign_id?: string | null
+          requested_by_email?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_email?: string | null
+          schedule_timezone?: string | null
+          scheduled_for?: string | null
+          segment_id?: string | null
+          segment_version?: number | null
+          sent_count?: number
+          started_at?: string | null
+          status?: string
+          status_reason?: string | null
+          subject: string
+          suppressed_count?: number
+          total_recipients?: number
+          track_clicks?: boolean
+          track_opens?: boolean
+          transport: string
+          updated_at?: string
+        }
+        Update: {
+          approval_reasons?: string[]
+          approval_required?: boolean
+          attachments?: Json
+          audience?: Json
+          audience_label?: string
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          category?: string
+          completed_at?: string | null
+          confidential?: boolean
+          content?: string
+          created_at?: string
+          created_by?: string
+          dispatch_locked_until?: string | null
+          failed_count?: number
+          id?: string
+          previous_campaign_id?: string | null
+          requested_by_email?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_email?: string | null
+          schedule_timezone?: string | null
+          scheduled_for?: string | null
+          segment_id?: string | null
+          segment_version?: number | null
+          sent_count?: number
+          started_at?: string | null
+          status?: string
+          status_reason?: string | null
+          subject?: string
+          suppressed_count?: number
+          total_recipients?: number
+          track_clicks?: boolean
+          track_opens?: boolean
+          transport?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_campaigns_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "email_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_campaigns_previous_campaign_id_fkey"
+            columns: ["previous_campaign_id"]
+            isOneToOne: false
+            referencedRelation: "email_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_campaigns_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "audience_segments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_categories: {
+        Row: {
+          description: string
+          id: string
+          label: string
+          mandatory: boolean
+          sort_order: number
+        }
+        Insert: {
+          description?: string
+          id: string
+          label: string
+          mandatory?: boolean
+          sort_order?: number
+        }
+        Update: {
+          description?: string
+          id?: string
+          label?: string
+          mandatory?: boolean
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      email_category_opt_outs: {
+        Row: {
+          category: string
+          created_at: string
+          employee_id: string
+          source: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          employee_id: string
+          source: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          employee_id?: string
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_category_opt_outs_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "email_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_category_opt_outs_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_deliveries: {
+        Row: {
+          attempt_count: number
+          bounce_type: string | null
+          bounced_at: string | null
+          campaign_id: string
+          click_count: number
+          clicked_at: string | null
+          complained_at: string | null
+          created_at: string
+          delivered_at: string | null
+          employee_id: string | null
+          id: string
+          last_error: string | null
+          last_event: string | null
+          last_event_at: string | null
+          locked_until: string | null
+          merge_data: Json
+          next_attempt_at: string | null
+          open_count: number
+          opened_at: string | null
+          provider_message_id: string | null
+          recipient_email: string
+          recipient_name: string
+          sent_at: string | null
+          status: string
+          suppression_reason: string | null
+          track_clicks: boolean
+          track_opens: boolean
+          updated_at: string
+        }
+        Insert: {
+          attempt_count?: number
+          bounce_type?: string | null
+          bounced_at?: string | null
+          campaign_id: string
+          click_count?: number
+          clicked_at?: string | null
+          complained_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          employee_id?: string | null
+          id?: string
+          last_error?: string | null
+          last_event?: string | null
+          last_event_at?: string | null
+          locked_until?: string | null
+          merge_data?: Json
+          next_attempt_at?: string | null
+          open_count?: number
+          opened_at?: string | null
+          provider_message_id?: string | null
+          recipient_email: string
+          recipient_name: string
+          sent_at?: string | null
+          status?: string
+          suppression_reason?: string | null
+          track_clicks?: boolean
+          track_opens?: boolean
+          updated_at?: string
+        }
+        Update: {
+          attempt_count?: number
+          bounce_type?: string | null
+          bounced_at?: string | null
+          campaign_id?: string
+          click_count?: number
+          clicked_at?: string | null
+          complained_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          employee_id?: string | null
+          id?: string
+          last_error?: string | null
+          last_event?: string | null
+          last_event_at?: string | null
+          locked_until?: string | null
+          merge_data?: Json
+          next_attempt_at?: string | null
+          open_count?: number
+          opened_at?: string | null
+          provider_message_id?: string | null
+          recipient_email?: string
+          recipient_name?: string
+          sent_at?: string | null
+          status?: string
+          suppression_reason?: string | null
+          track_clicks?: boolean
+          track_opens?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_deliveries_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "email_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_deliveries_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_drafts: {
+        Row: {
+          attachments: Json
+          audience: Json | null
+          content: string
+          created_at: string
+          id: string
+          owner_id: string
+          revision: number
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          attachments?: Json
+          audience?: Json | null
+          content?: string
+          created_at?: string
+          id?: string
+          owner_id?: string
+          revision?: number
+          subject?: string
+          updated_at?: string
+        }
+        Update: {
+          attachments?: Json
+          audience?: Json | null
+          content?: string
+          created_at?: string
+          id?: string
+          owner_id?: string
+          revision?: number
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_events: {
+        Row: {
+          bounce_type: string | null
+          delivery_id: string | null
+          event_id: string
+          event_type: string
+          id: string
+          occurred_at: string
+          payload: Json
+          provider_message_id: string
+          reason: string | null
+          received_at: string
+          recipient_email: string
+        }
+        Insert: {
+          bounce_type?: string | null
+          delivery_id?: string | null
+          event_id: string
+          event_type: string
+          id?: string
+          occurred_at: string
+          payload?: Json
+          provider_message_id: string
+          reason?: string | null
+          received_at?: string
+          recipient_email: string
+        }
+        Update: {
+          bounce_type?: string | null
+          delivery_id?: string | null
+          event_id?: string
+          event_type?: string
+          id?: string
+          occurred_at?: string
+          payload?: Json
+          provider_message_id?: string
+          reason?: string | null
+          received_at?: string
+          recipient_email?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_events_delivery_id_fkey"
+            columns: ["delivery_id"]
+            isOneToOne: false
+            referencedRelation: "email_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_suppressions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          email: string
+          expires_at: string | null
+          id: string
+          reason: string
+          source: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          email: string
+          expires_at?: string | null
+          id?: string
+          reason: string
+          source?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          email?: string
+          expires_at?: string | null
+          id?: string
+          reason?: string
+          source?: string
+        }
+        Relationships: []
+      }
+      email_template_versions: {
+        Row: {
+          body: string
+          created_at: string
+          edited_by: string | null
+          editor_email: string | null
+          id: string
+          name: string
+          subject: string
+          template_id: string
+          version: number
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          edited_by?: string | null
+          editor_email?: string | null
+          id?: string
+          name: string
+          subject: string
+          template_id: string
+          version: number
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          edited_by?: string | null
+          editor_email?: string | null
+          id?: string
+          name?: string
+          subject?: string
+          template_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_template_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_templates: {
+        Row: {
+          archived_at: string | null
+          body: string
+          created_at: string
+          created_by: string
+          current_version: number
+          id: string
+          name: string
+          subject: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          body: string
+          created_at?: string
+          created_by?: string
+          current_version?: number
+          id?: string
+          name: string
+          subject: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          body?: string
+          created_at?: string
+          created_by?: string
+          current_version?: number
+          id?: string
+          name?: string
+          subject?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       employees: {
         Row: {
+          active: boolean
           created_at: string
+          deactivated_at: string | null
           email: string
+          email_bounce_reason: string | null
+          email_bounced_at: string | null
           employee_id: number
           id: string
           level: string
@@ -72,8 +689,12 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          active?: boolean
           created_at?: string
+          deactivated_at?: string | null
           email: string
+          email_bounce_reason?: string | null
+          email_bounced_at?: string | null
           employee_id: number
           id?: string
           level: string
@@ -82,8 +703,12 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          active?: boolean
           created_at?: string
+          deactivated_at?: string | null
           email?: string
+          email_bounce_reason?: string | null
+          email_bounced_at?: string | null
           employee_id?: number
           id?: string
           level?: string
@@ -93,15 +718,189 @@ export type Database = {
         }
         Relationships: []
       }
+      pillar_tracking_settings: {
+        Row: {
+          pillar: string
+          track_clicks: boolean
+          track_opens: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          pillar: string
+          track_clicks?: boolean
+          track_opens?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          pillar?: string
+          track_clicks?: boolean
+          track_opens?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      apply_email_event: {
+        Args: {
+          p_event_id: string
+          p_event_type: string
+          p_provider_message_id: string
+          p_recipient_email: string
+          p_occurred_at: string
+          p_bounce_type: string | null
+          p_reason: string | null
+          p_payload: Json
+        }
+        Returns: string
+      }
+      apply_employee_import: {
+        Args: {
+          p_rows: Json
+          p_deactivate_missing: boolean
+          p_file_name: string
+        }
+        Returns: Json
+      }
+      archive_audience_segment: {
+        Args: {
+          p_segment_id: string
+        }
+        Returns: undefined
+      }
+      audience_opt_outs: {
+        Args: { p_category: string; p_employee_ids: string[] }
+        Returns: string[]
+      }
+      audience_suppressions: {
+        Args: { p_emails: string[] }
+        Returns: Json
+      }
+      audit_log_filters: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      campaign_engagement: {
+        Args: {
+          p_campaign_id: string
+        }
+        Returns: {
+          click_tracked: number
+          clicked: number
+          clicks: number
+          open_tracked: number
+          opened: number
+          opens: number
+          pillar: string
+          sent: number
+        }[]
+      }
+      claim_email_deliveries: {
+        Args: {
+          p_campaign_id: string
+          p_batch_size: number
+          p_lease_seconds: number
+          p_max_attempts: number
+        }
+        Returns: Database["public"]["Tables"]["email_deliveries"]["Row"][]
+      }
+      claim_scheduled_campaigns: {
+        Args: {
+          p_limit: number
+          p_lease_seconds: number
+        }
+        Returns: Database["public"]["Tables"]["email_campaigns"]["Row"][]
+      }
+      communications_analytics: {
+        Args: {
+          p_from: string
+          p_timezone: string
+        }
+        Returns: Json
+      }
+      employee_import_snapshot: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      employee_pillars: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      export_audit_log: {
+        Args: {
+          p_action: string | null
+          p_admin_user_id: string | null
+          p_from: string | null
+          p_to: string | null
+          p_ip_address: unknown
+          p_format: string
+        }
+        Returns: Json
+      }
+      export_employees: {
+        Args: {
+          p_pillar: string | null
+          p_level: string | null
+          p_include_deactivated: boolean
+          p_format: string
+        }
+        Returns: Json
+      }
       is_admin_user: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      queue_scheduled_campaign: {
+        Args: {
+          p_campaign_id: string
+          p_deliveries: Json
+          p_reason?: string | null
+        }
+        Returns: Database["public"]["Tables"]["email_campaigns"]["Row"]
+      }
+      record_email_tracking: {
+        Args: {
+          p_delivery_id: string
+          p_event: string
+        }
+        Returns: boolean
+      }
+      retry_failed_deliveries: {
+        Args: {
+          p_campaign_id: string
+        }
+        Returns: number
+      }
+      save_audience_segment: {
+        Args: {
+          p_segment_id: string | null
+          p_name: string
+          p_description: string | null
+          p_definition: Json
+        }
+        Returns: Database["public"]["Tables"]["audience_segments"]["Row"]
+      }
+      set_email_category_preference: {
+        Args: {
+          p_category: string
+          p_employee_id: string
+          p_source: string
+          p_subscribed: boolean
+        }
+        Returns: undefined
+      }
+      sync_email_campaign: {
+        Args: {
+          p_campaign_id: string
+        }
+        Returns: Database["public"]["Tables"]["email_campaigns"]["Row"]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, BarChart3, Clock, Send, Trophy, Users } from 'lucide-react';
+import Header from '@/components/dashboard/Header';
+import Footer from '@/components/dashboard/Footer';
+import ErrorDisplay from '@/components/dashboard/ErrorDisplay';
+import WeeklySendsChart from '@/components/analytics/WeeklySendsChart';
+import FailureRateChart from '@/components/analytics/FailureRateChart';
+import PillarReachChart from '@/components/analytics/PillarReachChart';
+import TopSendersTable from '@/components/analytics/TopSendersTable';
+import {
+  ANALYTICS_RANGES,
+  analyticsQueryKeys,
+  DEFAULT_ANALYTICS_RANGE,
+  failureRate,
+  formatDuration,
+  getCommunicationsAnalytics,
+} from '@/utils/analytics';
+
+const formatRate = (rate: number | null) => rate === null ? '-' : `${(rate * 100).toFixed(1)}%`;
+
+const Analytics = () => {
+  const { signOut } = useAuth();
+  const [weeks, setWeeks] = useState(DEFAULT_ANALYTICS_RANGE);
+
+  const { data, error, isFetching, refetch } = useQuery({
+    queryKey: analyticsQueryKeys.summary(weeks),
+    queryFn: () => getCommunicationsAnalytics(weeks),
+    placeholderData: keepPreviousData,
+  });
+
+  const totals = data?.totals;
+  const stats = [
+    { label: 'Campaigns', value: totals ? String(totals.campaigns) : '-', icon: Send },
+    { label: 'Messages sent', value: totals ? String(totals.sent) : '-', icon: Users },
+    { label: 'Failure rate', value: totals ? formatRate(failureRate(totals.sent, totals.failed)) : '-', icon: AlertTriangle },
+    { label: 'Median time to deliver', value: totals ? formatDuration(totals.medianSeconds) : '-', icon: Clock },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-yellow-50">
+      <Header onSignOut={signOut} onRefresh={() => refetch()} refreshing={isFetching} />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && <ErrorDisplay error={error.message} />}
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h2 className="flex items-center space-x-2 text-2xl font-bold text-amber-900">
+              <BarChart3 className="h-6 w-6" />
+              <span>Analytics</span>
+            </h2>
+            <p className="text-sm text-amber-700">Campaigns started in the selected period, grouped by week.</p>
+          </div>
+          <Select value={String(weeks)} onValueChange={(value) => setWeeks(Number(value))}>
+            <SelectTrigger className="w-full sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANALYTICS_RANGES.map(range => (
+                <SelectItem key={range} value={String(range)}>Last {range} weeks</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className={`grid grid-cols-2 lg:grid-cols-4 gap-4 ${isFetching ? 'opacity-50' : ''}`}>
+          {stats.map(stat => (
+            <Card key={stat.label} className="border-amber-200 shadow-lg">
+              <CardContent className="pt-6">
+                <div className="flex items-center space-x-2 text-sm text-amber-600">
+                  <stat.icon className="h-4 w-4" />
+                  <span>{stat.label}</span>
+                </div>
+                <div className="mt-2 text-2xl font-bold text-amber-900">{stat.value}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {data && (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card className="border-amber-200 shadow-lg">
+                <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+                  <CardTitle className="text-amber-900">Sends per Week</CardTitle>
+                  <CardDescription className="text-amber-700">Campaigns started each week</CardDescription>
+                </CardHeader>
+                <CardContent className="pt-6">
+                  <WeeklySendsChart weeks={data.weeks} />
+                </CardContent>
+              </Card>
+
+              <Card className="border-amber-200 shadow-lg">
+                <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+                  <CardTitle className="text-amber-900">Failure Rate</CardTitle>
+                  <CardDescription className="text-amber-700">Failed and bounced messages out of all attempted</CardDescription>
+                </CardHeader>
+                <CardContent className="pt-6">
+                  <FailureRateChart weeks={data.weeks} />
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card className="border-amber-200 shadow-lg">
+                <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+                  <CardTitle className="text-amber-900">Recipients Reached by Pillar</CardTitle>
+                  <CardDescription className="text-amber-700">
+                    Messages accepted by the mail provider, and those that failed
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="pt-6">
+                  {data.pillars.length === 0
+                    ? <p className="text-sm text-gray-500">No messages in this period</p>
+                    : <PillarReachChart pillars={data.pillars} />}
+                </CardContent>
+              </Card>
+
+              <Card className="border-amber-200 shadow-lg">
+                <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+                  <CardTitle className="flex items-center space-x-2 text-amber-900">
+                    <Trophy className="h-5 w-5" />
+                    <span>Top Senders</span>
+                  </CardTitle>
+                  <CardDescription className="text-amber-700">Admins who started the most campaigns</CardDescription>
+                </CardHeader>
+                <CardContent className="pt-6">
+                  <TopSendersTable senders={data.senders} />
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Analytics;
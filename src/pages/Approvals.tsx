@@ -0,0 +1,330 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { functionErrorStatus, supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Check, ClipboardCheck, X } from 'lucide-react';
+import Header from '@/components/dashboard/Header';
+import Footer from '@/components/dashboard/Footer';
+import ErrorDisplay from '@/components/dashboard/ErrorDisplay';
+import CampaignDiff from '@/components/approvals/CampaignDiff';
+import EmailFrame from '@/components/dashboard/EmailFrame';
+import { employeeQueryKeys, listActiveEmployees } from '@/utils/employees';
+import { categoryQueryKeys, listCategories } from '@/utils/preferences';
+import { formatScheduledTime } from '@/utils/schedule';
+import { formatBytes } from '@shared/attachment-policy';
+import { AudienceFilter, normalizeAudienceFilter, selectAudience } from '@shared/audience';
+import { mergeValues } from '@shared/merge-fields';
+import { renderEmail } from '@shared/email-render';
+
+interface PendingCampaign {
+  id: string;
+  created_by: string;
+  requested_by_email: string | null;
+  subject: string;
+  content: string;
+  category: string;
+  audience: AudienceFilter;
+  audience_label: string;
+  total_recipients: number;
+  approval_reasons: string[];
+  attachments: { id: string; file_name: string; size_bytes: number }[];
+  scheduled_for: string | null;
+  schedule_timezone: string | null;
+  previous_campaign_id: string | null;
+  created_at: string;
+}
+
+interface PreviousVersion {
+  subject: string;
+  content: string;
+  review_comment: string | null;
+  reviewed_by_email: string | null;
+}
+
+type Decision = 'approve' | 'reject';
+
+const Approvals = () => {
+  const { signOut, user } = useAuth();
+  const [campaigns, setCampaigns] = useState<PendingCampaign[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [previous, setPrevious] = useState<PreviousVersion | null>(null);
+  const [comment, setComment] = useState('');
+  const [deciding, setDeciding] = useState<Decision | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = campaigns.find(campaign => campaign.id === selectedId) ?? campaigns[0] ?? null;
+  const ownCampaign = !!selected && selected.created_by === user?.id;
+
+  // The preview is rendered for the first employee of the audience, with the
+  // footer of its category, as the composer preview does
+  const directory = useQuery({
+    queryKey: employeeQueryKeys.directory,
+    queryFn: listActiveEmployees,
+    enabled: !!selected,
+  });
+  const categories = useQuery({
+    queryKey: categoryQueryKeys.all,
+    queryFn: listCategories,
+    enabled: !!selected,
+  });
+  const sample = selected && directory.data
+    ? selectAudience(directory.data, normalizeAudienceFilter(selected.audience))[0]
+    : undefined;
+  const emailCategory = categories.data?.find(option => option.id === selected?.category);
+  const rendered = selected && renderEmail(selected.subject, selected.content, sample ? sample.name : '{{name}}',
+    sample ? mergeValues(sample) : {},
+    emailCategory?.mandatory === false ? { categoryLabel: emailCategory.label, url: '#' } : undefined);
+
+  const fetchCampaigns = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const result = await safeSupabaseCall(async () =>
+      await supabase
+        .from('email_campaigns')
+        .select('id, created_by, requested_by_email, subject, content, category, audience, audience_label, total_recipients, approval_reasons, ' +
+          'attachments, scheduled_for, schedule_timezone, previous_campaign_id, created_at')
+        .eq('status', 'pending_approval')
+        .order('created_at', { ascending: true })
+        .limit(50)
+    );
+
+    if (result.error) {
+      console.error('Error fetching approvals:', result.error);
+      setError(result.error.message || 'Failed to load the approval queue');
+    } else {
+      setCampaigns((result.data || []) as unknown as PendingCampaign[]);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  // The version this campaign revises, for the diff
+  useEffect(() => {
+    setPrevious(null);
+    setComment('');
+    const previousId = selected?.previous_campaign_id;
+    if (!previousId) return;
+
+    let cancelled = false;
+    safeSupabaseCall(async () =>
+      await supabase
+        .from('email_campaigns')
+        .select('subject, content, review_comment, reviewed_by_email')
+        .eq('id', previousId)
+        .maybeSingle()
+    ).then(result => {
+      if (!cancelled && !result.error) {
+        setPrevious(result.data);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selected?.id, selected?.previous_campaign_id]);
+
+  const handleDecision = async (decision: Decision) => {
+    if (!selected) return;
+    if (decision === 'reject' && !comment.trim()) {
+      toast({ title: 'Comment required', description: 'Tell the requester why the send is rejected.', variant: 'destructive' });
+      return;
+    }
+
+    setDeciding(decision);
+    try {
+      const result = await safeSupabaseCall(() =>
+        supabase.functions.invoke('manage-campaign', {
+          body: { campaignId: selected.id, action: decision, comment: comment.trim() || undefined }
+        })
+      );
+      if (result.error) {
+        const status = functionErrorStatus(result.error);
+        throw new Error(status === 409
+          ? 'This campaign was already reviewed or cancelled'
+          : result.error.message || 'Failed to record the decision');
+      }
+
+      if (decision === 'approve') {
+        // Dispatch right away instead of waiting for the next scheduled queue run
+        if (!selected.scheduled_for || new Date(selected.scheduled_for) <= new Date()) {
+          await safeSupabaseCall(() => supabase.functions.invoke('process-email-queue', { body: {} }));
+        }
+        toast({
+          title: 'Campaign approved',
+          description: selected.scheduled_for && selected.schedule_timezone
+            ? `"${selected.subject}" will be sent ${formatScheduledTime(selected.scheduled_for, selected.schedule_timezone)}`
+            : `"${selected.subject}" is being sent to ${selected.total_recipients} employees`,
+        });
+      } else {
+        toast({ title: 'Campaign rejected', description: `"${selected.subject}" was returned to its author` });
+      }
+      setSelectedId(null);
+    } catch (error) {
+      console.error('Error reviewing campaign:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to record the decision. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeciding(null);
+      await fetchCampaigns();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-yellow-50">
+      <Header onSignOut={signOut} onRefresh={fetchCampaigns} refreshing={loading} />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && <ErrorDisplay error={error} />}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <Card className="border-amber-200 shadow-lg h-fit">
+            <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+              <CardTitle className="flex items-center space-x-2 text-amber-900">
+                <ClipboardCheck className="h-5 w-5" />
+                <span>Approval Queue</span>
+              </CardTitle>
+              <CardDescription className="text-amber-700">
+                Large or sensitive sends wait here until a second admin approves them
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6 space-y-2">
+              {campaigns.length === 0 && (
+                <p className="text-sm text-gray-500">{loading ? 'Loading...' : 'Nothing is waiting for approval'}</p>
+              )}
+              {campaigns.map(campaign => (
+                <button
+                  key={campaign.id}
+                  type="button"
+                  onClick={() => setSelectedId(campaign.id)}
+                  className={`w-full text-left p-3 rounded-lg border ${
+                    campaign.id === selected?.id ? 'border-amber-400 bg-amber-50' : 'border-amber-100 hover:bg-amber-50'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-amber-900 truncate">{campaign.subject}</p>
+                  <p className="text-xs text-amber-600">
+                    {campaign.audience_label} • {campaign.total_recipients} recipients
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {campaign.requested_by_email || 'Unknown admin'} • {new Date(campaign.created_at).toLocaleString()}
+                  </p>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {selected && (
+            <div className="lg:col-span-2 space-y-6">
+              <Card className="border-amber-200 shadow-lg">
+                <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+                  <CardTitle className="text-amber-900">{selected.subject}</CardTitle>
+                  <CardDescription className="text-amber-700">
+                    Requested by {selected.requested_by_email || 'an admin'} for {selected.audience_label} ({selected.total_recipients} recipients)
+                    {selected.scheduled_for && selected.schedule_timezone &&
+                      `, scheduled for ${formatScheduledTime(selected.scheduled_for, selected.schedule_timezone)}`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="pt-6 space-y-4">
+                  <div className="flex flex-wrap gap-2">
+                    {selected.approval_reasons.map(reason => (
+                      <Badge key={reason} variant="outline" className="border-amber-300 text-amber-800">{reason}</Badge>
+                    ))}
+                  </div>
+
+                  <div>
+                    <h4 className="font-medium mb-2 text-amber-900">Preview:</h4>
+                    <EmailFrame html={rendered.html} device="desktop" darkMode={false} />
+                    {sample && (
+                      <p className="text-xs text-gray-500 mt-1">Rendered for {sample.name}; merge fields are filled in per recipient.</p>
+                    )}
+                  </div>
+
+                  {selected.attachments.length > 0 && (
+                    <div>
+                      <h4 className="font-medium mb-2 text-amber-900">Attachments:</h4>
+                      <ul className="text-sm text-amber-800 space-y-1">
+                        {selected.attachments.map(attachment => (
+                          <li key={attachment.id}>{attachment.file_name} ({formatBytes(attachment.size_bytes)})</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {selected.previous_campaign_id && (
+                <Card className="border-amber-200 shadow-lg">
+                  <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+                    <CardTitle className="text-amber-900">Changes since the rejected version</CardTitle>
+                    {previous?.review_comment && (
+                      <CardDescription className="text-amber-700">
+                        {previous.reviewed_by_email || 'The reviewer'} asked: "{previous.review_comment}"
+                      </CardDescription>
+                    )}
+                  </CardHeader>
+                  <CardContent className="pt-6">
+                    {previous
+                      ? <CampaignDiff before={previous} after={selected} />
+                      : <p className="text-sm text-gray-500">Loading the previous version...</p>}
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card className="border-amber-200 shadow-lg">
+                <CardContent className="pt-6 space-y-3">
+                  <Label htmlFor="review-comment" className="text-sm font-medium">Comment</Label>
+                  <Textarea
+                    id="review-comment"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder="Optional when approving; tell the requester what to change when rejecting"
+                    maxLength={1000}
+                    className="resize-none"
+                  />
+                  {ownCampaign && (
+                    <p className="text-sm text-amber-700">You requested this send, so another admin has to review it.</p>
+                  )}
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => handleDecision('reject')}
+                      disabled={ownCampaign || deciding !== null}
+                      variant="outline"
+                      className="flex-1 flex items-center space-x-2 border-red-200 text-red-700 hover:bg-red-50"
+                    >
+                      <X size={16} />
+                      <span>{deciding === 'reject' ? 'Rejecting...' : 'Reject'}</span>
+                    </Button>
+                    <Button
+                      onClick={() => handleDecision('approve')}
+                      disabled={ownCampaign || deciding !== null}
+                      className="flex-1 flex items-center space-x-2 bg-amber-600 hover:bg-amber-700 text-white"
+                    >
+                      <Check size={16} />
+                      <span>{deciding === 'approve' ? 'Approving...' : 'Approve and send'}</span>
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Approvals;
@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, ScrollText } from 'lucide-react';
+import Header from '@/components/dashboard/Header';
+import Footer from '@/components/dashboard/Footer';
+import ErrorDisplay from '@/components/dashboard/ErrorDisplay';
+import ListPagination from '@/components/ListPagination';
+import AuditLogTable from '@/components/audit/AuditLogTable';
+import { ExportFormat } from '@/utils/export';
+import {
+  AUDIT_PAGE_SIZE,
+  AuditFilter,
+  auditQueryKeys,
+  emptyAuditFilter,
+  exportAuditLog,
+  getAuditFilterOptions,
+  listAuditLog,
+  validateAuditFilter,
+} from '@/utils/audit';
+
+// Select value standing for "no filter"
+const ANY = '__any__';
+
+const Audit = () => {
+  const { signOut } = useAuth();
+  // Filters being edited, and the ones the list was last loaded with
+  const [draft, setDraft] = useState<AuditFilter>(emptyAuditFilter);
+  const [filter, setFilter] = useState<AuditFilter>(emptyAuditFilter);
+  const [page, setPage] = useState(1);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const logQuery = useQuery({
+    queryKey: auditQueryKeys.list(filter, page),
+    queryFn: () => listAuditLog(filter, page),
+    placeholderData: keepPreviousData,
+  });
+
+  const optionsQuery = useQuery({
+    queryKey: auditQueryKeys.filters,
+    queryFn: getAuditFilterOptions,
+    staleTime: 60_000,
+  });
+
+  const adminEmails = useMemo(
+    () => new Map((optionsQuery.data?.admins ?? []).map(admin => [admin.userId, admin.email])),
+    [optionsQuery.data]
+  );
+
+  const applyFilter = (next: AuditFilter) => {
+    const errors = validateAuditFilter(next);
+    if (errors.length > 0) {
+      toast({ title: 'Validation Error', description: errors[0], variant: 'destructive' });
+      return;
+    }
+    setFilter({ ...next, ipAddress: next.ipAddress.trim() });
+    setPage(1);
+  };
+
+  const resetFilter = () => {
+    setDraft(emptyAuditFilter);
+    applyFilter(emptyAuditFilter);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      const count = await exportAuditLog(filter, format);
+      toast({
+        title: 'Export complete',
+        description: `Downloaded ${count} audit log entries as ${format.toUpperCase()}`,
+      });
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to export the audit log. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const total = logQuery.data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE));
+  const error = logQuery.error || optionsQuery.error;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-yellow-50">
+      <Header
+        onSignOut={signOut}
+        onRefresh={() => {
+          logQuery.refetch();
+          optionsQuery.refetch();
+        }}
+        refreshing={logQuery.isFetching}
+      />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && <ErrorDisplay error={error.message} />}
+
+        <Card className="border-amber-200 shadow-lg">
+          <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center space-x-2 text-amber-900">
+                  <ScrollText className="h-5 w-5" />
+                  <span>Audit Log</span>
+                </CardTitle>
+                <CardDescription className="text-amber-700">
+                  {total} entr{total === 1 ? 'y' : 'ies'}, newest first. Exports include every matching entry (up to 50,000) and are recorded in the audit log.
+                </CardDescription>
+              </div>
+              <div className="flex space-x-2">
+                {(['csv', 'json'] as ExportFormat[]).map(format => (
+                  <Button
+                    key={format}
+                    variant="outline"
+                    onClick={() => handleExport(format)}
+                    disabled={exporting !== null}
+                    className="flex items-center space-x-2 border-amber-300 text-amber-800 hover:bg-amber-100"
+                  >
+                    <Download size={16} />
+                    <span>{exporting === format ? 'Exporting...' : format.toUpperCase()}</span>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-4">
+            <form
+              className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3 items-end"
+              onSubmit={(e) => {
+                e.preventDefault();
+                applyFilter(draft);
+              }}
+            >
+              <div className="space-y-1">
+                <Label className="text-sm">Action</Label>
+                <Select
+                  value={draft.action ?? ANY}
+                  onValueChange={(value) => setDraft(prev => ({ ...prev, action: value === ANY ? null : value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All actions</SelectItem>
+                    {(optionsQuery.data?.actions ?? []).map(action => (
+                      <SelectItem key={action} value={action}>{action}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-sm">Admin</Label>
+                <Select
+                  value={draft.adminUserId ?? ANY}
+                  onValueChange={(value) => setDraft(prev => ({ ...prev, adminUserId: value === ANY ? null : value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All users</SelectItem>
+                    {(optionsQuery.data?.admins ?? []).map(admin => (
+                      <SelectItem key={admin.userId} value={admin.userId}>{admin.email}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audit-from" className="text-sm">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={draft.from}
+                  onChange={(e) => setDraft(prev => ({ ...prev, from: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audit-to" className="text-sm">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={draft.to}
+                  onChange={(e) => setDraft(prev => ({ ...prev, to: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audit-ip" className="text-sm">IP address</Label>
+                <Input
+                  id="audit-ip"
+                  value={draft.ipAddress}
+                  onChange={(e) => setDraft(prev => ({ ...prev, ipAddress: e.target.value }))}
+                  placeholder="e.g. 203.0.113.7"
+                  maxLength={45}
+                />
+              </div>
+              <div className="flex space-x-2">
+                <Button type="submit" className="flex-1 bg-amber-600 hover:bg-amber-700 text-white">
+                  Apply
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={resetFilter}
+                  className="border-amber-300 text-amber-800 hover:bg-amber-100"
+                >
+                  Reset
+                </Button>
+              </div>
+            </form>
+
+            <AuditLogTable entries={logQuery.data?.rows ?? []} adminEmails={adminEmails} loading={logQuery.isFetching} />
+            <ListPagination page={page} pageCount={pageCount} onPageChange={setPage} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Audit;
@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, BarChart3, RotateCcw, Users } from 'lucide-react';
+import Header from '@/components/dashboard/Header';
+import Footer from '@/components/dashboard/Footer';
+import ErrorDisplay from '@/components/dashboard/ErrorDisplay';
+import ListPagination from '@/components/ListPagination';
+import DeliveryTable from '@/components/campaigns/DeliveryTable';
+import EngagementChart from '@/components/campaigns/EngagementChart';
+import { formatScheduledTime } from '@/utils/schedule';
+import { categoryQueryKeys, listCategories } from '@/utils/preferences';
+import {
+  campaignQueryKeys,
+  DELIVERIES_PAGE_SIZE,
+  getCampaign,
+  getCampaignEngagement,
+  listDeliveries,
+} from '@/utils/campaigns';
+
+// Progress is refreshed while the queue worker is still delivering
+const POLL_INTERVAL_MS = 5000;
+const ACTIVE_STATUSES = ['queued', 'sending'];
+
+const formatTime = (value: string | null) => value ? new Date(value).toLocaleString() : '-';
+
+const CampaignDetail = () => {
+  const { id = '' } = useParams();
+  const { signOut } = useAuth();
+  const queryClient = useQueryClient();
+  const [failuresOnly, setFailuresOnly] = useState(false);
+  const [page, setPage] = useState(1);
+
+  const campaignQuery = useQuery({
+    queryKey: campaignQueryKeys.detail(id),
+    queryFn: () => getCampaign(id),
+    refetchInterval: (query) =>
+      ACTIVE_STATUSES.includes(query.state.data?.status ?? '') ? POLL_INTERVAL_MS : false,
+  });
+  const campaign = campaignQuery.data;
+  const active = !!campaign && ACTIVE_STATUSES.includes(campaign.status);
+
+  const deliveriesQuery = useQuery({
+    queryKey: campaignQueryKeys.deliveries(id, failuresOnly, page),
+    queryFn: () => listDeliveries(id, failuresOnly, page),
+    placeholderData: keepPreviousData,
+    enabled: !!campaign,
+    refetchInterval: active ? POLL_INTERVAL_MS : false,
+  });
+
+  const categoriesQuery = useQuery({
+    queryKey: categoryQueryKeys.all,
+    queryFn: listCategories,
+  });
+  const category = categoriesQuery.data?.find(option => option.id === campaign?.category);
+
+  const tracked = !!campaign && !campaign.confidential && (campaign.track_opens || campaign.track_clicks);
+  const engagementQuery = useQuery({
+    queryKey: campaignQueryKeys.engagement(id),
+    queryFn: () => getCampaignEngagement(id),
+    enabled: tracked,
+    refetchInterval: active ? POLL_INTERVAL_MS : false,
+  });
+
+  const retryFailed = useMutation({
+    mutationFn: async () => {
+      const result = await safeSupabaseCall(() =>
+        supabase.functions.invoke('process-email-queue', {
+          body: { campaignId: id, action: 'retry_failed' }
+        })
+      );
+      if (result.error) {
+        throw new Error(result.error.message || 'Failed to retry deliveries');
+      }
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Retry started',
+        description: `Re-sending ${campaign?.failed_count ?? 0} failed deliveries`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error retrying deliveries:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to retry deliveries. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const refresh = () => {
+    campaignQuery.refetch();
+    deliveriesQuery.refetch();
+    if (tracked) engagementQuery.refetch();
+  };
+
+  const error = campaignQuery.error || deliveriesQuery.error || engagementQuery.error;
+  const total = deliveriesQuery.data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / DELIVERIES_PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-yellow-50">
+      <Header
+        onSignOut={signOut}
+        onRefresh={refresh}
+        refreshing={campaignQuery.isFetching || deliveriesQuery.isFetching}
+      />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Link to="/campaigns" className="inline-flex items-center space-x-1 text-sm text-amber-800 hover:underline">
+          <ArrowLeft size={14} />
+          <span>All campaigns</span>
+        </Link>
+
+        {error && <ErrorDisplay error={error.message} />}
+
+        {campaignQuery.isSuccess && !campaign && (
+          <p className="text-sm text-gray-500">This campaign does not exist.</p>
+        )}
+
+        {campaign && (
+          <>
+            <Card className="border-amber-200 shadow-lg">
+              <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+                <div className="flex justify-between items-start gap-4">
+                  <div className="min-w-0">
+                    <CardTitle className="text-amber-900 break-words">{campaign.subject}</CardTitle>
+                    <CardDescription className="text-amber-700">
+                      Sent by {campaign.requested_by_email || 'an admin'} to {campaign.audience_label}
+                    </CardDescription>
+                  </div>
+                  <Badge variant="outline" className="border-amber-300 text-amber-800 shrink-0">{campaign.status}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <dt className="text-amber-600">Recipients</dt>
+                    <dd className="font-medium text-amber-900">{campaign.total_recipients}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-amber-600">Sent</dt>
+                    <dd className="font-medium text-amber-900">{campaign.sent_count}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-amber-600">Failed</dt>
+                    <dd className={`font-medium ${campaign.failed_count > 0 ? 'text-red-600' : 'text-amber-900'}`}>
+                      {campaign.failed_count}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-amber-600">Suppressed</dt>
+                    <dd className="font-medium text-amber-900">{campaign.suppressed_count}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-amber-600">Category</dt>
+                    <dd className="font-medium text-amber-900">
+                      {category ? `${category.label} (${category.mandatory ? 'mandatory' : 'optional'})` : campaign.category}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-amber-600">Transport</dt>
+                    <dd className="font-medium text-amber-900">{campaign.transport}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-amber-600">Created</dt>
+                    <dd className="text-amber-900">{formatTime(campaign.created_at)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-amber-600">Started</dt>
+                    <dd className="text-amber-900">{formatTime(campaign.started_at)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-amber-600">Completed</dt>
+                    <dd className="text-amber-900">{formatTime(campaign.completed_at)}</dd>
+                  </div>
+                  {campaign.scheduled_for && campaign.schedule_timezone && (
+                    <div>
+                      <dt className="text-amber-600">Scheduled for</dt>
+                      <dd className="text-amber-900">
+                        {formatScheduledTime(campaign.scheduled_for, campaign.schedule_timezone)}
+                      </dd>
+                    </div>
+                  )}
+                </dl>
+                {campaign.reviewed_by_email && (
+                  <p className="text-sm text-amber-700 mt-4">
+                    Reviewed by {campaign.reviewed_by_email} on {formatTime(campaign.reviewed_at)}
+                    {campaign.review_comment && `: ${campaign.review_comment}`}
+                  </p>
+                )}
+                {campaign.status_reason && (
+                  <p className="text-sm text-red-600 mt-4">{campaign.status_reason}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="border-amber-200 shadow-lg">
+              <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+                <CardTitle className="flex items-center space-x-2 text-amber-900">
+                  <BarChart3 className="h-5 w-5" />
+                  <span>Engagement</span>
+                </CardTitle>
+                <CardDescription className="text-amber-700">
+                  {campaign.confidential
+                    ? 'Confidential - not tracked'
+                    : tracked
+                      ? `Tracking ${[campaign.track_opens && 'opens', campaign.track_clicks && 'clicks'].filter(Boolean).join(' and ')} per pillar`
+                      : 'Not tracked'}
+                </CardDescription>
+              </CardHeader>
+              {tracked && (
+                <CardContent className="pt-6">
+                  {engagementQuery.data
+                    ? <EngagementChart engagement={engagementQuery.data} />
+                    : <p className="text-sm text-gray-500">{engagementQuery.isFetching ? 'Loading...' : 'No engagement yet'}</p>}
+                </CardContent>
+              )}
+            </Card>
+
+            <Card className="border-amber-200 shadow-lg">
+              <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div>
+                    <CardTitle className="flex items-center space-x-2 text-amber-900">
+                      <Users className="h-5 w-5" />
+                      <span>Recipients</span>
+                    </CardTitle>
+                    <CardDescription className="text-amber-700">
+                      {total} {failuresOnly ? 'failed ' : ''}deliver{total === 1 ? 'y' : 'ies'}
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="failures-only"
+                        checked={failuresOnly}
+                        onCheckedChange={(checked) => {
+                          setFailuresOnly(checked);
+                          setPage(1);
+                        }}
+                      />
+                      <Label htmlFor="failures-only" className="text-sm">Show failures only</Label>
+                    </div>
+                    {campaign.status === 'completed' && campaign.failed_count > 0 && (
+                      <Button
+                        onClick={() => retryFailed.mutate()}
+                        disabled={retryFailed.isPending}
+                        variant="outline"
+                        size="sm"
+                        className="flex items-center space-x-2 border-amber-300 text-amber-800 hover:bg-amber-100"
+                      >
+                        <RotateCcw size={14} className={retryFailed.isPending ? 'animate-spin' : ''} />
+                        <span>{retryFailed.isPending ? 'Retrying...' : 'Retry all failed'}</span>
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="pt-6 space-y-4">
+                <DeliveryTable
+                  deliveries={deliveriesQuery.data?.rows ?? []}
+                  loading={deliveriesQuery.isFetching}
+                  failuresOnly={failuresOnly}
+                />
+                <ListPagination page={page} pageCount={pageCount} onPageChange={setPage} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default CampaignDetail;
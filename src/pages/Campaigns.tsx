@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { History } from 'lucide-react';
+import Header from '@/components/dashboard/Header';
+import Footer from '@/components/dashboard/Footer';
+import ErrorDisplay from '@/components/dashboard/ErrorDisplay';
+import ListPagination from '@/components/ListPagination';
+import CampaignTable from '@/components/campaigns/CampaignTable';
+import { campaignQueryKeys, CAMPAIGNS_PAGE_SIZE, listCampaigns } from '@/utils/campaigns';
+
+const Campaigns = () => {
+  const { signOut } = useAuth();
+  const [page, setPage] = useState(1);
+
+  const { data, error, isFetching, refetch } = useQuery({
+    queryKey: campaignQueryKeys.list(page),
+    queryFn: () => listCampaigns(page),
+    placeholderData: keepPreviousData,
+  });
+
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / CAMPAIGNS_PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-yellow-50">
+      <Header onSignOut={signOut} onRefresh={() => refetch()} refreshing={isFetching} />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && <ErrorDisplay error={error.message} />}
+
+        <Card className="border-amber-200 shadow-lg">
+          <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+            <CardTitle className="flex items-center space-x-2 text-amber-900">
+              <History className="h-5 w-5" />
+              <span>Sent Campaigns</span>
+            </CardTitle>
+            <CardDescription className="text-amber-700">
+              {total} campaign{total === 1 ? '' : 's'}, newest first. Open one to see every recipient's delivery.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-4">
+            <CampaignTable campaigns={data?.rows ?? []} loading={isFetching} />
+            <ListPagination page={page} pageCount={pageCount} onPageChange={setPage} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Campaigns;
@@ -0,0 +1,285 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { FileSpreadsheet, Search, UserPlus, Users } from 'lucide-react';
+import ListPagination from '@/components/ListPagination';
+import Header from '@/components/dashboard/Header';
+import Footer from '@/components/dashboard/Footer';
+import ErrorDisplay from '@/components/dashboard/ErrorDisplay';
+import EmployeeTable, { SortColumn, SortState } from '@/components/employees/EmployeeTable';
+import EmployeeFormDialog from '@/components/employees/EmployeeFormDialog';
+import ImportWizard from '@/components/employees/ImportWizard';
+import { EmployeeRecord, toSearchTerm } from '@/utils/employees';
+
+type StatusFilter = 'active' | 'deactivated' | 'all';
+
+const PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const Employees = () => {
+  const { signOut } = useAuth();
+  const [employees, setEmployees] = useState<EmployeeRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pillars, setPillars] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [status, setStatus] = useState<StatusFilter>('active');
+  const [sort, setSort] = useState<SortState>({ column: 'name', ascending: true });
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<EmployeeRecord | null>(null);
+  const [toggling, setToggling] = useState<EmployeeRecord | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  // Ignores responses to superseded queries while the user is typing
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search);
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const fetchEmployees = useCallback(async () => {
+    const requestId = ++latestRequest.current;
+    setLoading(true);
+    setError(null);
+
+    const result = await safeSupabaseCall(async () => {
+      let query = supabase
+        .from('employees')
+        .select('id, name, email, employee_id, pillar, level, active, deactivated_at, email_bounced_at, email_bounce_reason', { count: 'exact' });
+
+      if (status !== 'all') {
+        query = query.eq('active', status === 'active');
+      }
+
+      const term = toSearchTerm(debouncedSearch);
+      if (term) {
+        const filters = ['name', 'email', 'pillar', 'level'].map(column => `${column}.ilike.%${term}%`);
+        if (/^\d+$/.test(term)) {
+          filters.push(`employee_id.eq.${term}`);
+        }
+        query = query.or(filters.join(','));
+      }
+
+      const from = (page - 1) * PAGE_SIZE;
+      return await query
+        .order(sort.column, { ascending: sort.ascending })
+        .order('employee_id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+    });
+
+    if (requestId !== latestRequest.current) return;
+
+    if (result.error) {
+      console.error('Error fetching employees:', result.error);
+      setError(result.error.message || 'Failed to fetch employee data');
+    } else {
+      setEmployees(result.data || []);
+      setTotal(result.count || 0);
+    }
+    setLoading(false);
+  }, [debouncedSearch, status, sort, page]);
+
+  const fetchPillars = useCallback(async () => {
+    // Distinct in the database: selecting every row is cut off at the API row limit
+    const result = await safeSupabaseCall(async () =>
+      await supabase.rpc('employee_pillars')
+    );
+
+    if (!result.error) {
+      setPillars(result.data || []);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEmployees();
+  }, [fetchEmployees]);
+
+  useEffect(() => {
+    fetchPillars();
+  }, [fetchPillars]);
+
+  const handleSort = (column: SortColumn) => {
+    setSort(prev => ({ column, ascending: prev.column === column ? !prev.ascending : true }));
+    setPage(1);
+  };
+
+  const handleSaved = () => {
+    fetchEmployees();
+    fetchPillars();
+  };
+
+  const openForm = (employee: EmployeeRecord | null) => {
+    setEditing(employee);
+    setFormOpen(true);
+  };
+
+  const handleToggleActive = async () => {
+    if (!toggling) return;
+    const employee = toggling;
+    setToggling(null);
+
+    const result = await safeSupabaseCall(async () =>
+      await supabase.from('employees').update({ active: !employee.active }).eq('id', employee.id)
+    );
+
+    if (result.error) {
+      toast({
+        title: 'Error',
+        description: result.error.message || 'Failed to update employee',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: employee.active ? 'Employee deactivated' : 'Employee reactivated',
+      description: `${employee.name} (${employee.employee_id})`,
+    });
+    handleSaved();
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-yellow-50">
+      <Header onSignOut={signOut} onRefresh={handleSaved} refreshing={loading} />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && <ErrorDisplay error={error} />}
+
+        <Card className="border-amber-200 shadow-lg">
+          <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center space-x-2 text-amber-900">
+                  <Users className="h-5 w-5" />
+                  <span>Employees</span>
+                </CardTitle>
+                <CardDescription className="text-amber-700">
+                  {total} {status === 'all' ? '' : `${status} `}employee{total === 1 ? '' : 's'}. Deactivated employees no longer receive emails.
+                </CardDescription>
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setImportOpen(true)}
+                  className="flex items-center space-x-2 border-amber-300 text-amber-800 hover:bg-amber-100"
+                >
+                  <FileSpreadsheet size={16} />
+                  <span>Import</span>
+                </Button>
+                <Button
+                  onClick={() => openForm(null)}
+                  className="flex items-center space-x-2 bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 text-white shadow-lg"
+                >
+                  <UserPlus size={16} />
+                  <span>Add Employee</span>
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-4">
+            <div className="flex flex-col sm:flex-row gap-3">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-amber-500" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search by name, email, pillar, level or employee ID"
+                  className="pl-9"
+                  maxLength={100}
+                />
+              </div>
+              <Select
+                value={status}
+                onValueChange={(value) => {
+                  setStatus(value as StatusFilter);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="sm:w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="deactivated">Deactivated</SelectItem>
+                  <SelectItem value="all">All employees</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <EmployeeTable
+              employees={employees}
+              sort={sort}
+              loading={loading}
+              onSort={handleSort}
+              onEdit={(employee) => openForm(employee)}
+              onToggleActive={setToggling}
+            />
+
+            <ListPagination page={page} pageCount={pageCount} onPageChange={setPage} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <EmployeeFormDialog
+        open={formOpen}
+        employee={editing}
+        pillars={pillars}
+        onOpenChange={setFormOpen}
+        onSaved={handleSaved}
+      />
+
+      <ImportWizard open={importOpen} onOpenChange={setImportOpen} onImported={handleSaved} />
+
+      <AlertDialog open={toggling !== null} onOpenChange={(open) => !open && setToggling(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {toggling?.active ? 'Deactivate' : 'Reactivate'} {toggling?.name}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {toggling?.active
+                ? 'They will no longer receive emails. Their record, email and employee ID are kept and they can be reactivated at any time.'
+                : 'They will be included in audiences and receive emails again.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleToggleActive}
+              className={toggling?.active ? 'bg-red-600 hover:bg-red-700' : 'bg-amber-600 hover:bg-amber-700'}
+            >
+              {toggling?.active ? 'Deactivate' : 'Reactivate'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Employees;
@@ -1,37 +1,9 @@
 import React from 'react';
-import { AuthProvider, useAuth } from '@/contexts/AuthContext';
-import AuthForm from '@/components/AuthForm';
 import AdminDashboard from '@/components/AdminDashboard';
 
-const AppContent = React.memo(() => {
-  const { user, loading } = useAuth();
-
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (!user) {
-    return <AuthForm />;
-  }
-
-  return <AdminDashboard />;
-});
-
-AppContent.displayName = 'AppContent';
-
+// Sign-in and the admin check are handled by RequireAdmin around all admin routes
 const Index = () => {
-  return (
-    <AuthProvider>
-      <AppContent />
-    </AuthProvider>
-  );
+  return <AdminDashboard />;
 };
 
-export default Index;
\ No newline at end of file
+export default Index;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, MailX, Settings } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { categoryQueryKeys, getPreferences, savePreferences } from '@/utils/preferences';
+
+// Public page opened from the link in optional emails; the signed token in
+// `?t=` identifies the employee, so there is no sign-in
+const Preferences = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('t') || '';
+  const queryClient = useQueryClient();
+
+  const { data, error, isLoading } = useQuery({
+    queryKey: categoryQueryKeys.preferences(token),
+    queryFn: () => getPreferences(token),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const mutation = useMutation({
+    mutationFn: (changes: Record<string, boolean>) => savePreferences(token, changes),
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(categoryQueryKeys.preferences(token), preferences);
+      toast({ title: 'Preferences saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const linkCategory = data?.categories.find(category => category.id === data.category);
+  const errorMessage = !token
+    ? 'This page needs the link from one of your emails. Use the "manage your email preferences" link at the bottom of an email.'
+    : error?.message;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-yellow-50 flex items-start justify-center px-4 py-12">
+      <Card className="w-full max-w-xl border-amber-200 shadow-lg">
+        <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+          <CardTitle className="flex items-center space-x-2 text-amber-900">
+            <Settings className="h-5 w-5" />
+            <span>Email Preferences</span>
+          </CardTitle>
+          <CardDescription className="text-amber-700">
+            {data?.firstName
+              ? `Hi ${data.firstName}, choose which emails you want to receive.`
+              : 'Choose which emails you want to receive.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-6">
+          {errorMessage && <p className="text-sm text-red-600">{errorMessage}</p>}
+
+          {isLoading && (
+            <div className="flex items-center space-x-2 text-sm text-amber-700">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>Loading your preferences...</span>
+            </div>
+          )}
+
+          {linkCategory && !linkCategory.mandatory && (
+            <div className="p-4 rounded-lg border border-amber-200 bg-amber-50 space-y-3">
+              {linkCategory.subscribed ? (
+                <>
+                  <p className="text-sm text-amber-900">
+                    You received this link in an email about <strong>{linkCategory.label}</strong>.
+                  </p>
+                  <Button
+                    onClick={() => mutation.mutate({ [linkCategory.id]: false })}
+                    disabled={mutation.isPending}
+                    className="bg-amber-600 hover:bg-amber-700 text-white"
+                  >
+                    <MailX className="h-4 w-4 mr-2" />
+                    Unsubscribe from {linkCategory.label}
+                  </Button>
+                </>
+              ) : (
+                <p className="text-sm text-amber-900">
+                  You are unsubscribed from <strong>{linkCategory.label}</strong>. You can subscribe again below.
+                </p>
+              )}
+            </div>
+          )}
+
+          {data && (
+            <div className="space-y-4">
+              {data.categories.map(category => (
+                <div key={category.id} className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor={`category-${category.id}`} className="flex items-center gap-2 text-sm font-medium text-amber-900">
+                      {category.label}
+                      {category.mandatory && <Badge variant="outline" className="border-amber-300 text-amber-700">Required</Badge>}
+                    </Label>
+                    <p className="text-xs text-gray-500">
+                      {category.mandatory
+                        ? `${category.description} These emails are sent to every employee and can't be turned off.`
+                        : category.description}
+                    </p>
+                  </div>
+                  <Switch
+                    id={`category-${category.id}`}
+                    checked={category.subscribed}
+                    disabled={category.mandatory || mutation.isPending}
+                    onCheckedChange={(subscribed) => mutation.mutate({ [category.id]: subscribed })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Preferences;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Ban, Plus, Search } from 'lucide-react';
+import ListPagination from '@/components/ListPagination';
+import Header from '@/components/dashboard/Header';
+import Footer from '@/components/dashboard/Footer';
+import ErrorDisplay from '@/components/dashboard/ErrorDisplay';
+import SuppressionTable from '@/components/suppressions/SuppressionTable';
+import SuppressionFormDialog from '@/components/suppressions/SuppressionFormDialog';
+import {
+  addSuppression,
+  listSuppressions,
+  removeSuppression,
+  SuppressionEntry,
+  SuppressionFormValues,
+  suppressionQueryKeys,
+  SUPPRESSIONS_PAGE_SIZE,
+} from '@/utils/suppressions';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const Suppressions = () => {
+  const { signOut } = useAuth();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [formOpen, setFormOpen] = useState(false);
+  const [removing, setRemoving] = useState<SuppressionEntry | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search);
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data, error, isFetching, refetch } = useQuery({
+    queryKey: suppressionQueryKeys.list(debouncedSearch, page),
+    queryFn: () => listSuppressions(debouncedSearch, page),
+    placeholderData: keepPreviousData,
+  });
+
+  const onError = (error: Error) => {
+    console.error('Error updating the suppression list:', error);
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to update the suppression list. Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const add = useMutation({
+    mutationFn: addSuppression,
+    onSuccess: (_, values: SuppressionFormValues) => {
+      toast({ title: 'Address suppressed', description: `${values.email} will be skipped by future sends` });
+      setFormOpen(false);
+      queryClient.invalidateQueries({ queryKey: suppressionQueryKeys.all });
+    },
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: (suppression: SuppressionEntry) => removeSuppression(suppression.id),
+    onSuccess: (_, suppression) => {
+      toast({ title: 'Address removed', description: `${suppression.email} can receive emails again` });
+      queryClient.invalidateQueries({ queryKey: suppressionQueryKeys.all });
+    },
+    onError,
+    onSettled: () => setRemoving(null),
+  });
+
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / SUPPRESSIONS_PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-yellow-50">
+      <Header onSignOut={signOut} onRefresh={() => refetch()} refreshing={isFetching} />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && <ErrorDisplay error={error.message} />}
+
+        <Card className="border-amber-200 shadow-lg">
+          <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center space-x-2 text-amber-900">
+                  <Ban className="h-5 w-5" />
+                  <span>Suppression List</span>
+                </CardTitle>
+                <CardDescription className="text-amber-700">
+                  {total} address{total === 1 ? '' : 'es'}. Sends skip these addresses; hard bounces and spam complaints are added automatically.
+                </CardDescription>
+              </div>
+              <Button
+                onClick={() => setFormOpen(true)}
+                className="flex items-center space-x-2 bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 text-white shadow-lg"
+              >
+                <Plus size={16} />
+                <span>Suppress Address</span>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-amber-500" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by email address"
+                className="pl-9"
+                maxLength={100}
+              />
+            </div>
+
+            <SuppressionTable
+              suppressions={data?.rows ?? []}
+              loading={isFetching}
+              searching={!!debouncedSearch.trim()}
+              onRemove={setRemoving}
+            />
+
+            <ListPagination page={page} pageCount={pageCount} onPageChange={setPage} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <SuppressionFormDialog
+        open={formOpen}
+        saving={add.isPending}
+        onOpenChange={setFormOpen}
+        onSubmit={(values) => add.mutate(values)}
+      />
+
+      <AlertDialog open={removing !== null} onOpenChange={(open) => !open && setRemoving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {removing?.email}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {removing?.source === 'manual'
+                ? 'Future sends will include this address again.'
+                : `This address was added after a ${removing?.source}. Only remove it once the address is known to work again.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => removing && remove.mutate(removing)}
+              disabled={remove.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Suppressions;
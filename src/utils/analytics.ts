@@ -0,0 +1,85 @@
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+
+/**
+ * Aggregates for the Analytics page, computed in the database by
+ * `communications_analytics` so no delivery rows reach the browser. Throws on
+ * failure so it can be used directly as a TanStack Query `queryFn`.
+ */
+
+export interface WeeklyActivity {
+  // Monday of the week (YYYY-MM-DD) in the browser's time zone
+  week: string;
+  campaigns: number;
+  sent: number;
+  failed: number;
+  medianSeconds: number | null;
+}
+
+export interface PillarReach {
+  pillar: string;
+  sent: number;
+  failed: number;
+}
+
+export interface TopSender {
+  email: string;
+  campaigns: number;
+  sent: number;
+}
+
+export interface CommunicationsAnalytics {
+  weeks: WeeklyActivity[];
+  pillars: PillarReach[];
+  senders: TopSender[];
+  totals: {
+    campaigns: number;
+    sent: number;
+    failed: number;
+    medianSeconds: number | null;
+  };
+}
+
+// Selectable ranges, in weeks including the current one
+export const ANALYTICS_RANGES = [4, 12, 26, 52];
+export const DEFAULT_ANALYTICS_RANGE = 12;
+
+export const analyticsQueryKeys = {
+  summary: (weeks: number) => ['analytics', 'summary', weeks] as const,
+};
+
+// Midnight on the Monday `weeks - 1` weeks before this one, so the range
+// lines up with the weeks the database groups by
+const rangeStart = (weeks: number): Date => {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7) - (weeks - 1) * 7);
+  return start;
+};
+
+// "Oct 12" for the week starting on 2026-10-12
+export const formatWeek = (week: string): string =>
+  new Date(`${week}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const failureRate = (sent: number, failed: number): number | null =>
+  sent + failed > 0 ? failed / (sent + failed) : null;
+
+export const formatDuration = (seconds: number | null): string => {
+  if (seconds === null) return '-';
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min`;
+  return `${(seconds / 3600).toFixed(1)} h`;
+};
+
+export const getCommunicationsAnalytics = async (weeks: number): Promise<CommunicationsAnalytics> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase.rpc('communications_analytics', {
+      p_from: rangeStart(weeks).toISOString(),
+      p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    })
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load analytics');
+  }
+  return result.data as unknown as CommunicationsAnalytics;
+};
@@ -0,0 +1,154 @@
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { downloadFile, ExportFormat, toCsv } from '@/utils/export';
+
+/**
+ * Reading and exporting `admin_audit_log` for the Audit page. List functions
+ * throw on failure so they can be used directly as TanStack Query `queryFn`s.
+ */
+
+export interface AuditEntry {
+  id: string;
+  created_at: string;
+  admin_user_id: string;
+  action: string;
+  details: Json | null;
+  ip_address: string | null;
+  user_agent: string | null;
+}
+
+export interface AuditFilter {
+  action: string | null;
+  adminUserId: string | null;
+  // Calendar dates (YYYY-MM-DD) in the browser's time zone, both inclusive
+  from: string;
+  to: string;
+  ipAddress: string;
+}
+
+export interface AuditFilterOptions {
+  actions: string[];
+  admins: { userId: string; email: string }[];
+}
+
+interface AuditExportRow {
+  id: string;
+  created_at: string;
+  admin_user_id: string;
+  admin_email: string | null;
+  action: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  details: Json | null;
+}
+
+export const AUDIT_PAGE_SIZE = 50;
+
+export const emptyAuditFilter: AuditFilter = { action: null, adminUserId: null, from: '', to: '', ipAddress: '' };
+
+const EXPORT_COLUMNS: (keyof AuditExportRow)[] = [
+  'created_at', 'admin_email', 'admin_user_id', 'action', 'ip_address', 'user_agent', 'details', 'id',
+];
+
+export const auditQueryKeys = {
+  list: (filter: AuditFilter, page: number) => ['audit', 'list', filter, page] as const,
+  filters: ['audit', 'filters'] as const,
+};
+
+const IPV4 = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+const IPV6 = /^[0-9a-f:.]+$/i;
+
+export const isValidIpAddress = (value: string): boolean =>
+  IPV4.test(value) || (value.includes(':') && value.length <= 45 && IPV6.test(value));
+
+export const validateAuditFilter = (filter: AuditFilter): string[] => {
+  const errors: string[] = [];
+  if (filter.ipAddress.trim() && !isValidIpAddress(filter.ipAddress.trim())) {
+    errors.push('Enter a valid IPv4 or IPv6 address');
+  }
+  if (filter.from && filter.to && filter.from > filter.to) {
+    errors.push('The start date must be on or before the end date');
+  }
+  return errors;
+};
+
+// Bounds of the date range as instants: [start of `from`, start of the day after `to`)
+const dateRange = (filter: AuditFilter) => {
+  let to: string | null = null;
+  if (filter.to) {
+    const end = new Date(`${filter.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    to = end.toISOString();
+  }
+  return {
+    from: filter.from ? new Date(`${filter.from}T00:00:00`).toISOString() : null,
+    to,
+  };
+};
+
+export const listAuditLog = async (filter: AuditFilter, page: number): Promise<{ rows: AuditEntry[]; total: number }> => {
+  const { from, to } = dateRange(filter);
+  const start = (page - 1) * AUDIT_PAGE_SIZE;
+
+  const result = await safeSupabaseCall(async () => {
+    let query = supabase
+      .from('admin_audit_log')
+      .select('id, created_at, admin_user_id, action, details, ip_address, user_agent', { count: 'exact' });
+
+    if (filter.action) query = query.eq('action', filter.action);
+    if (filter.adminUserId) query = query.eq('admin_user_id', filter.adminUserId);
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lt('created_at', to);
+    if (filter.ipAddress.trim()) query = query.eq('ip_address', filter.ipAddress.trim());
+
+    return await query
+      .order('created_at', { ascending: false })
+      .range(start, start + AUDIT_PAGE_SIZE - 1);
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load the audit log');
+  }
+  return { rows: (result.data || []) as AuditEntry[], total: result.count || 0 };
+};
+
+export const getAuditFilterOptions = async (): Promise<AuditFilterOptions> => {
+  const result = await safeSupabaseCall(async () => await supabase.rpc('audit_log_filters'));
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load the audit log filters');
+  }
+  const options = (result.data || {}) as unknown as Partial<AuditFilterOptions>;
+  return { actions: options.actions || [], admins: options.admins || [] };
+};
+
+const auditFileName = (format: ExportFormat) => `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+// Fetch every entry matching the filter through export_audit_log (which records
+// the export in the audit log) and download it. Returns the number of entries.
+export const exportAuditLog = async (filter: AuditFilter, format: ExportFormat): Promise<number> => {
+  const { from, to } = dateRange(filter);
+  const result = await safeSupabaseCall(async () =>
+    await supabase.rpc('export_audit_log', {
+      p_action: filter.action,
+      p_admin_user_id: filter.adminUserId,
+      p_from: from,
+      p_to: to,
+      p_ip_address: filter.ipAddress.trim() || null,
+      p_format: format,
+    })
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to export the audit log');
+  }
+
+  const rows = (result.data || []) as unknown as AuditExportRow[];
+  const content = format === 'csv'
+    // Details stay machine-readable as a JSON string in one cell
+    ? toCsv(rows.map(row => ({ ...row, details: row.details === null ? null : JSON.stringify(row.details) })), EXPORT_COLUMNS)
+    : JSON.stringify(rows, null, 2);
+
+  downloadFile(auditFileName(format), content, format === 'csv' ? 'text/csv' : 'application/json');
+  return rows.length;
+};
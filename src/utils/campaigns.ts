@@ -0,0 +1,156 @@
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+
+/**
+ * Read side of the send queue for the campaign history pages. Each function
+ * throws on failure so it can be used directly as a TanStack Query `queryFn`.
+ */
+
+export interface CampaignSummary {
+  id: string;
+  subject: string;
+  audience_label: string;
+  status: string;
+  transport: string;
+  requested_by_email: string | null;
+  total_recipients: number;
+  sent_count: number;
+  failed_count: number;
+  // Audience members skipped because their address is on the suppression list
+  suppressed_count: number;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  scheduled_for: string | null;
+  schedule_timezone: string | null;
+}
+
+export interface CampaignDetail extends CampaignSummary {
+  content: string;
+  status_reason: string | null;
+  reviewed_by_email: string | null;
+  reviewed_at: string | null;
+  review_comment: string | null;
+  category: string;
+  confidential: boolean;
+  track_opens: boolean;
+  track_clicks: boolean;
+}
+
+export interface Delivery {
+  id: string;
+  recipient_name: string;
+  recipient_email: string;
+  status: string;
+  attempt_count: number;
+  last_error: string | null;
+  provider_message_id: string | null;
+  sent_at: string | null;
+  next_attempt_at: string | null;
+  bounce_type: string | null;
+  last_event: string | null;
+  last_event_at: string | null;
+  suppression_reason: string | null;
+}
+
+// Opens and clicks of one pillar's employees. Counts of opened/clicked
+// recipients are out of those whose message was tracked for that event.
+export interface PillarEngagement {
+  pillar: string;
+  sent: number;
+  open_tracked: number;
+  opened: number;
+  click_tracked: number;
+  clicked: number;
+  opens: number;
+  clicks: number;
+}
+
+export interface Page<T> {
+  rows: T[];
+  total: number;
+}
+
+export const CAMPAIGNS_PAGE_SIZE = 25;
+export const DELIVERIES_PAGE_SIZE = 50;
+
+// Delivery statuses shown by "failures only"
+export const FAILED_DELIVERY_STATUSES = ['failed', 'bounced'];
+
+const SUMMARY_COLUMNS = 'id, subject, audience_label, status, transport, requested_by_email, total_recipients, ' +
+  'sent_count, failed_count, suppressed_count, created_at, started_at, completed_at, scheduled_for, schedule_timezone';
+
+export const campaignQueryKeys = {
+  list: (page: number) => ['campaigns', 'list', page] as const,
+  detail: (id: string) => ['campaigns', 'detail', id] as const,
+  deliveries: (id: string, failuresOnly: boolean, page: number) =>
+    ['campaigns', 'deliveries', id, failuresOnly, page] as const,
+  engagement: (id: string) => ['campaigns', 'engagement', id] as const,
+};
+
+export const listCampaigns = async (page: number): Promise<Page<CampaignSummary>> => {
+  const from = (page - 1) * CAMPAIGNS_PAGE_SIZE;
+  const result = await safeSupabaseCall(async () =>
+    await supabase
+      .from('email_campaigns')
+      .select(SUMMARY_COLUMNS, { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(from, from + CAMPAIGNS_PAGE_SIZE - 1)
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load campaigns');
+  }
+  return { rows: (result.data || []) as unknown as CampaignSummary[], total: result.count || 0 };
+};
+
+// The campaign, or null when it doesn't exist
+export const getCampaign = async (id: string): Promise<CampaignDetail | null> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase
+      .from('email_campaigns')
+      .select(`${SUMMARY_COLUMNS}, content, status_reason, reviewed_by_email, reviewed_at, review_comment, category, confidential, track_opens, track_clicks`)
+      .eq('id', id)
+      .maybeSingle()
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load the campaign');
+  }
+  return result.data as unknown as CampaignDetail | null;
+};
+
+export const listDeliveries = async (campaignId: string, failuresOnly: boolean, page: number): Promise<Page<Delivery>> => {
+  const from = (page - 1) * DELIVERIES_PAGE_SIZE;
+  const result = await safeSupabaseCall(async () => {
+    let query = supabase
+      .from('email_deliveries')
+      .select('id, recipient_name, recipient_email, status, attempt_count, last_error, provider_message_id, sent_at, next_attempt_at, bounce_type, last_event, last_event_at, suppression_reason',
+        { count: 'exact' })
+      .eq('campaign_id', campaignId);
+
+    if (failuresOnly) {
+      query = query.in('status', FAILED_DELIVERY_STATUSES);
+    }
+
+    return await query
+      .order('recipient_name', { ascending: true })
+      .order('recipient_email', { ascending: true })
+      .range(from, from + DELIVERIES_PAGE_SIZE - 1);
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load deliveries');
+  }
+  return { rows: result.data || [], total: result.count || 0 };
+};
+
+export const getCampaignEngagement = async (campaignId: string): Promise<PillarEngagement[]> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase.rpc('campaign_engagement', { p_campaign_id: campaignId })
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load engagement');
+  }
+  return result.data || [];
+};
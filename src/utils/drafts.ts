@@ -0,0 +1,144 @@
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { EmailAttachment } from '@/components/dashboard/AttachmentPicker';
+import { AudienceFilter } from '@shared/audience';
+
+/**
+ * Server-side drafts of the composer (`email_drafts`). Every save names the
+ * revision it was based on; the row's trigger bumps the revision, so a save
+ * from a tab holding an older copy matches nothing and raises DraftConflictError.
+ */
+
+export interface DraftContent {
+  subject: string;
+  content: string;
+  audience: AudienceFilter | null;
+  attachments: EmailAttachment[];
+}
+
+export interface EmailDraft extends DraftContent {
+  id: string;
+  revision: number;
+  updated_at: string;
+}
+
+export type DraftSummary = Pick<EmailDraft, 'id' | 'subject' | 'content' | 'updated_at'>;
+
+export class DraftConflictError extends Error {
+  constructor() {
+    super('This draft was changed in another tab or window');
+    this.name = 'DraftConflictError';
+  }
+}
+
+const DRAFT_COLUMNS = 'id, subject, content, audience, attachments, revision, updated_at';
+
+type DraftRow = Pick<Tables<'email_drafts'>, 'id' | 'subject' | 'content' | 'audience' | 'attachments' | 'revision' | 'updated_at'>;
+
+const toDraft = (row: DraftRow): EmailDraft => ({
+  id: row.id,
+  subject: row.subject,
+  content: row.content,
+  audience: row.audience as unknown as AudienceFilter | null,
+  attachments: (row.attachments || []) as unknown as EmailAttachment[],
+  revision: row.revision,
+  updated_at: row.updated_at,
+});
+
+const toRow = (draft: DraftContent) => ({
+  subject: draft.subject,
+  content: draft.content,
+  audience: draft.audience as unknown as Json,
+  attachments: draft.attachments as unknown as Json,
+});
+
+export const isEmptyDraft = (draft: DraftContent): boolean =>
+  !draft.subject.trim() && !draft.content.trim() && draft.attachments.length === 0;
+
+export const listDrafts = async (): Promise<DraftSummary[]> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase
+      .from('email_drafts')
+      .select('id, subject, content, updated_at')
+      .order('updated_at', { ascending: false })
+      .limit(50)
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load drafts');
+  }
+  return result.data || [];
+};
+
+// The draft, or null when it no longer exists. Attachments deleted since the
+// draft was saved are left out, so they don't fail the send later.
+export const loadDraft = async (id: string): Promise<EmailDraft | null> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase.from('email_drafts').select(DRAFT_COLUMNS).eq('id', id).maybeSingle()
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load draft');
+  }
+  if (!result.data) {
+    return null;
+  }
+
+  const draft = toDraft(result.data);
+  if (draft.attachments.length > 0) {
+    const existing = await safeSupabaseCall(async () =>
+      await supabase
+        .from('email_attachments')
+        .select('id')
+        .in('id', draft.attachments.map(attachment => attachment.id))
+    );
+    if (!existing.error) {
+      const ids = new Set((existing.data || []).map((row: { id: string }) => row.id));
+      draft.attachments = draft.attachments.filter(attachment => ids.has(attachment.id));
+    }
+  }
+  return draft;
+};
+
+export const createDraft = async (draft: DraftContent): Promise<EmailDraft> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase.from('email_drafts').insert(toRow(draft)).select(DRAFT_COLUMNS).single()
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to save draft');
+  }
+  return toDraft(result.data);
+};
+
+// Save over `revision`; throws DraftConflictError when the stored draft has
+// moved on (or was deleted) since
+export const saveDraft = async (id: string, revision: number, draft: DraftContent): Promise<EmailDraft> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase
+      .from('email_drafts')
+      .update(toRow(draft))
+      .eq('id', id)
+      .eq('revision', revision)
+      .select(DRAFT_COLUMNS)
+      .maybeSingle()
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to save draft');
+  }
+  if (!result.data) {
+    throw new DraftConflictError();
+  }
+  return toDraft(result.data);
+};
+
+export const deleteDraft = async (id: string): Promise<void> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase.from('email_drafts').delete().eq('id', id)
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to delete draft');
+  }
+};
@@ -0,0 +1,198 @@
+import { detectDelimiter, parseCsv } from '@/utils/csv';
+import { EmployeeFormValues, employeeSchema } from '@/utils/employees';
+
+/**
+ * Employee import: reading spreadsheet files, mapping their columns onto the
+ * `employees` schema and computing the dry-run diff shown before applying
+ */
+
+export const IMPORT_FIELDS = ['name', 'email', 'employee_id', 'pillar', 'level'] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+// Column index in the file for each field; null when not mapped
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export const MAX_IMPORT_ROWS = 5000;
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRow {
+  // Line in the source file, for error messages
+  line: number;
+  values: EmployeeFormValues | null;
+  errors: string[];
+}
+
+export interface ExistingEmployee {
+  id: string;
+  name: string;
+  email: string;
+  employee_id: number;
+  pillar: string;
+  level: string;
+  active: boolean;
+}
+
+export interface ImportUpdate {
+  employee: ExistingEmployee;
+  values: EmployeeFormValues;
+  changes: string[];
+}
+
+export interface ImportDiff {
+  inserts: EmployeeFormValues[];
+  updates: ImportUpdate[];
+  unchanged: number;
+  deactivations: ExistingEmployee[];
+  errors: ImportRow[];
+}
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'full name', 'employee name'],
+  email: ['email', 'e-mail', 'email address', 'work email'],
+  employee_id: ['employee id', 'employee_id', 'employee number', 'emp id', 'id'],
+  pillar: ['pillar', 'department', 'dept', 'team'],
+  level: ['level', 'grade', 'job level'],
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_]+/g, ' ');
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+
+  return IMPORT_FIELDS.reduce((mapping, field) => {
+    const aliases = HEADER_ALIASES[field].map(normalizeHeader);
+    const index = normalized.findIndex(header => aliases.includes(header));
+    return { ...mapping, [field]: index === -1 ? null : index };
+  }, {} as ColumnMapping);
+};
+
+const cellToString = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell);
+};
+
+// Read a .csv or .xlsx file into a header row and data rows
+export const readImportFile = async (file: File): Promise<ImportTable> => {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error('File is too large (max 5 MB)');
+  }
+
+  let table: string[][];
+  if (/\.xlsx$/i.test(file.name)) {
+    // Only loaded when someone actually imports a spreadsheet
+    const { default: readXlsxFile } = await import('read-excel-file');
+    const sheet = await readXlsxFile(file);
+    table = sheet.map(row => row.map(cellToString));
+  } else if (/\.csv$/i.test(file.name)) {
+    const text = await file.text();
+    table = parseCsv(text, detectDelimiter(text));
+  } else {
+    throw new Error('Unsupported file type. Upload a .csv or .xlsx file');
+  }
+
+  if (table.length < 2) {
+    throw new Error('The file needs a header row and at least one employee');
+  }
+  if (table.length - 1 > MAX_IMPORT_ROWS) {
+    throw new Error(`The file has more than ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  return { headers: table[0].map(header => header.trim()), rows: table.slice(1) };
+};
+
+// Apply the column mapping and validate every row with the employee form rules
+export const mapImportRows = (table: ImportTable, mapping: ColumnMapping): ImportRow[] => {
+  const seenIds = new Map<number, number>();
+  const seenEmails = new Map<string, number>();
+
+  return table.rows.map((cells, index) => {
+    const line = index + 2;
+    const raw = Object.fromEntries(IMPORT_FIELDS.map(field => [
+      field,
+      mapping[field] === null ? '' : (cells[mapping[field] as number] ?? '').trim(),
+    ]));
+
+    const parsed = employeeSchema.safeParse(raw);
+    if (!parsed.success) {
+      return {
+        line,
+        values: null,
+        errors: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`),
+      };
+    }
+
+    const values = parsed.data;
+    const errors: string[] = [];
+    if (seenIds.has(values.employee_id)) {
+      errors.push(`employee_id: ${values.employee_id} is also on line ${seenIds.get(values.employee_id)}`);
+    }
+    if (seenEmails.has(values.email)) {
+      errors.push(`email: ${values.email} is also on line ${seenEmails.get(values.email)}`);
+    }
+    seenIds.set(values.employee_id, line);
+    seenEmails.set(values.email, line);
+
+    return { line, values: errors.length ? null : values, errors };
+  });
+};
+
+// Dry run keyed on employee_id: what applying the import would change
+export const diffImport = (
+  rows: ImportRow[],
+  existing: ExistingEmployee[],
+  deactivateMissing: boolean
+): ImportDiff => {
+  const byEmployeeId = new Map(existing.map(employee => [employee.employee_id, employee]));
+  const byEmail = new Map(existing.map(employee => [employee.email.toLowerCase(), employee]));
+
+  const diff: ImportDiff = { inserts: [], updates: [], unchanged: 0, deactivations: [], errors: [] };
+
+  for (const row of rows) {
+    if (!row.values) {
+      diff.errors.push(row);
+      continue;
+    }
+    const values = row.values;
+
+    // Emails are unique across all employees, including deactivated ones
+    const emailOwner = byEmail.get(values.email);
+    if (emailOwner && emailOwner.employee_id !== values.employee_id) {
+      diff.errors.push({
+        ...row,
+        values: null,
+        errors: [`email: ${values.email} already belongs to employee ${emailOwner.employee_id}`],
+      });
+      continue;
+    }
+
+    const current = byEmployeeId.get(values.employee_id);
+    if (!current) {
+      diff.inserts.push(values);
+      continue;
+    }
+
+    const changes = IMPORT_FIELDS.filter(field => String(current[field]) !== String(values[field])) as string[];
+    if (!current.active) {
+      changes.push('reactivated');
+    }
+
+    if (changes.length > 0) {
+      diff.updates.push({ employee: current, values, changes });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  if (deactivateMissing) {
+    const fileIds = new Set(rows.map(row => row.values?.employee_id));
+    diff.deactivations = existing.filter(employee => employee.active && !fileIds.has(employee.employee_id));
+  }
+
+  return diff;
+};
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { isValidEmail, sanitizeDbInput, validatePillarName } from '@/utils/security';
+
+/**
+ * Employee record validation shared by the Employees page forms, and the
+ * active directory the dashboard builds audiences from
+ */
+
+export interface EmployeeRecord {
+  id: string;
+  name: string;
+  email: string;
+  employee_id: number;
+  pillar: string;
+  level: string;
+  active: boolean;
+  deactivated_at: string | null;
+  // Set by the email webhook on a hard bounce, cleared when the address changes
+  email_bounced_at: string | null;
+  email_bounce_reason: string | null;
+}
+
+export const employeeSchema = z.object({
+  name: z.string().trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be less than 100 characters'),
+  email: z.string().trim().toLowerCase()
+    .refine(isValidEmail, 'Enter a valid email address'),
+  employee_id: z.coerce.number({ invalid_type_error: 'Employee ID must be a number' })
+    .int('Employee ID must be a whole number')
+    .positive('Employee ID must be a positive number'),
+  pillar: z.string().trim()
+    .min(1, 'Pillar is required')
+    .refine(validatePillarName, 'Pillar may only contain letters, numbers, spaces, hyphens and underscores'),
+  // Levels are matched by audience filters, which use the same character rules as pillars
+  level: z.string().trim()
+    .min(1, 'Level is required')
+    .max(50, 'Level must be less than 50 characters')
+    .refine(validatePillarName, 'Level may only contain letters, numbers, spaces, hyphens and underscores'),
+});
+
+export type EmployeeFormValues = z.infer<typeof employeeSchema>;
+
+// Turn free text into a term that is safe inside a PostgREST `or` / `ilike` filter
+export const toSearchTerm = (input: string): string =>
+  sanitizeDbInput(input)
+    .replace(/[,()%_*:]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 100);
+
+export const employeeQueryKeys = {
+  directory: ['employees', 'directory'] as const,
+};
+
+export type DirectoryEmployee = Pick<EmployeeRecord, 'id' | 'name' | 'email' | 'employee_id' | 'pillar' | 'level'>;
+
+// The API caps every response at its `max_rows` setting (1000 by default), so
+// pages are read until one comes back empty, as send-email does
+const DIRECTORY_PAGE_SIZE = 1000;
+// Larger directories are refused rather than loaded in part
+const MAX_DIRECTORY_SIZE = 100000;
+
+// Every active employee, paged by id so employees added or removed meanwhile
+// can't shift the pages. Audiences are resolved against this list the same
+// way the server resolves them, so counts and limits agree.
+export const listActiveEmployees = async (): Promise<DirectoryEmployee[]> => {
+  const directory: DirectoryEmployee[] = [];
+
+  for (;;) {
+    const lastId = directory.length > 0 ? directory[directory.length - 1].id : null;
+    const result = await safeSupabaseCall(async () => {
+      let query = supabase
+        .from('employees')
+        .select('id, name, email, employee_id, pillar, level')
+        .eq('active', true)
+        .order('id', { ascending: true })
+        .limit(DIRECTORY_PAGE_SIZE);
+      if (lastId) query = query.gt('id', lastId);
+      return await query;
+    });
+
+    if (result.error) {
+      throw new Error(result.error.message || 'Failed to load employees');
+    }
+    const page = result.data || [];
+    if (page.length === 0) {
+      return directory;
+    }
+
+    directory.push(...page);
+    if (directory.length > MAX_DIRECTORY_SIZE) {
+      throw new Error(`The employee directory has more than ${MAX_DIRECTORY_SIZE} active employees`);
+    }
+  }
+};
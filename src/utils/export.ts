@@ -0,0 +1,90 @@
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+
+/**
+ * Roster export: CSV / JSON serialization and browser downloads
+ */
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface RosterFilter {
+  pillar: string | null;
+  level: string | null;
+  includeDeactivated: boolean;
+}
+
+export interface RosterRow {
+  employee_id: number;
+  name: string;
+  email: string;
+  pillar: string;
+  level: string;
+  active: boolean;
+}
+
+const ROSTER_COLUMNS: (keyof RosterRow)[] = ['employee_id', 'name', 'email', 'pillar', 'level', 'active'];
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvCell = (value: unknown): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T extends object>(rows: T[], columns: (keyof T)[]): string => {
+  const lines = [
+    columns.map(column => toCsvCell(column)).join(','),
+    ...rows.map(row => columns.map(column => toCsvCell(row[column])).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  // BOM so Excel opens UTF-8 CSVs with the right encoding
+  const blob = new Blob([mimeType === 'text/csv' ? '\uFEFF' + content : content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const rosterFileName = (filter: RosterFilter, format: ExportFormat): string => {
+  const parts = ['employees', filter.pillar, filter.level, filter.includeDeactivated ? 'all' : null]
+    .filter((part): part is string => !!part)
+    .map(slug);
+  return `${parts.join('-')}-${new Date().toISOString().slice(0, 10)}.${format}`;
+};
+
+// Fetch the roster through export_employees (which records the export in the
+// audit log) and download it. Returns the number of exported employees.
+export const exportRoster = async (filter: RosterFilter, format: ExportFormat): Promise<number> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase.rpc('export_employees', {
+      p_pillar: filter.pillar,
+      p_level: filter.level,
+      p_include_deactivated: filter.includeDeactivated,
+      p_format: format,
+    })
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to export employees');
+  }
+
+  const rows = (result.data || []) as unknown as RosterRow[];
+  const content = format === 'csv'
+    ? toCsv(rows, ROSTER_COLUMNS)
+    : JSON.stringify(rows, null, 2);
+
+  downloadFile(rosterFileName(filter, format), content, format === 'csv' ? 'text/csv' : 'application/json');
+  return rows.length;
+};
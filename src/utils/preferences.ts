@@ -0,0 +1,78 @@
+import { functionErrorStatus, supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { EmailCategory } from '@shared/preferences';
+
+/**
+ * Email categories, employees' opt-outs and the public preferences page.
+ * Functions throw on failure so they can be used directly as TanStack Query
+ * `queryFn`s and `mutationFn`s.
+ */
+
+export interface CategoryPreference extends EmailCategory {
+  subscribed: boolean;
+}
+
+// What the email-preferences function returns for a signed link
+export interface EmployeePreferences {
+  firstName: string;
+  categories: CategoryPreference[];
+  // The category of the email the link came from
+  category: string;
+}
+
+export const categoryQueryKeys = {
+  all: ['categories'] as const,
+  optOuts: (category: string, employeeIds: string[]) => ['categories', 'opt-outs', category, employeeIds] as const,
+  preferences: (token: string) => ['categories', 'preferences', token] as const,
+};
+
+export const listCategories = async (): Promise<EmailCategory[]> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase
+      .from('email_categories')
+      .select('id, label, description, mandatory')
+      .order('sort_order', { ascending: true })
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load email categories');
+  }
+  return result.data || [];
+};
+
+// Ids of the employees among `employeeIds` who unsubscribed from `category`.
+// Filtered in the database so the API row limit can't leave any out.
+export const listOptOuts = async (category: string, employeeIds: string[]): Promise<string[]> => {
+  if (employeeIds.length === 0) {
+    return [];
+  }
+
+  const result = await safeSupabaseCall(async () =>
+    await supabase.rpc('audience_opt_outs', { p_category: category, p_employee_ids: employeeIds })
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load email opt-outs');
+  }
+  return result.data || [];
+};
+
+const invokePreferences = async (body: Record<string, unknown>, failure: string): Promise<EmployeePreferences> => {
+  const result = await safeSupabaseCall(() =>
+    supabase.functions.invoke('email-preferences', { body })
+  );
+
+  if (result.error) {
+    const status = functionErrorStatus(result.error);
+    throw new Error(status === 401 || status === 404
+      ? 'This link is invalid or no longer works. Use the link from a more recent email.'
+      : failure);
+  }
+  return result.data as EmployeePreferences;
+};
+
+export const getPreferences = (token: string): Promise<EmployeePreferences> =>
+  invokePreferences({ token }, 'Failed to load your email preferences');
+
+// `preferences` maps category ids to whether the employee stays subscribed
+export const savePreferences = (token: string, preferences: Record<string, boolean>): Promise<EmployeePreferences> =>
+  invokePreferences({ token, preferences }, 'Failed to save your email preferences');
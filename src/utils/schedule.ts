@@ -0,0 +1,124 @@
+import { validateSchedule } from '@shared/email-validation';
+
+// Send-time helpers for scheduled campaigns. Times are picked as a wall-clock
+// date and time in a chosen time zone and stored as UTC instants.
+
+export interface ScheduleSettings {
+  enabled: boolean;
+  // YYYY-MM-DD
+  date: string;
+  // HH:mm
+  time: string;
+  timezone: string;
+}
+
+const FALLBACK_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+export const localTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Intl.supportedValuesOf is ES2022, newer than the lib the app compiles
+// against, and missing from older browsers
+type IntlWithSupportedValues = typeof Intl & {
+  supportedValuesOf?: (key: 'timeZone') => string[];
+};
+
+export function listTimeZones(): string[] {
+  const supported = (Intl as IntlWithSupportedValues).supportedValuesOf?.('timeZone') ?? FALLBACK_TIME_ZONES;
+  const local = localTimeZone();
+  return supported.includes(local) ? supported : [local, ...supported];
+}
+
+// Wall-clock parts of an instant in a time zone
+function zonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find(part => part.type === type)?.value ?? '00';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`,
+    seconds: get('second'),
+  };
+}
+
+// Offset of the time zone from UTC at an instant, in ms
+function timeZoneOffset(instant: Date, timeZone: string): number {
+  const { date, time, seconds } = zonedParts(instant, timeZone);
+  const asUtc = Date.parse(`${date}T${time}:${seconds}Z`);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// UTC instant (ISO 8601) of a wall-clock date and time in a time zone; null when incomplete
+export function zonedTimeToIso(date: string, time: string, timeZone: string): string | null {
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  if (!date || !time || Number.isNaN(wallClock)) {
+    return null;
+  }
+
+  // Two passes settle on the right offset around daylight-saving changes
+  let instant = wallClock - timeZoneOffset(new Date(wallClock), timeZone);
+  instant = wallClock - timeZoneOffset(new Date(instant), timeZone);
+  return new Date(instant).toISOString();
+}
+
+// The date and time inputs for an instant, as seen in a time zone
+export function isoToZonedTime(iso: string, timeZone: string): { date: string; time: string } {
+  const { date, time } = zonedParts(new Date(iso), timeZone);
+  return { date, time };
+}
+
+export function formatScheduledTime(iso: string, timeZone: string): string {
+  return `${new Date(iso).toLocaleString('en-US', {
+    timeZone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })} (${timeZone})`;
+}
+
+// Tomorrow at 09:00 in the local time zone
+export function defaultSchedule(): ScheduleSettings {
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const timezone = localTimeZone();
+  return {
+    enabled: false,
+    date: zonedParts(tomorrow, timezone).date,
+    time: '09:00',
+    timezone,
+  };
+}
+
+// Same checks as the server; no errors when scheduling is off
+export function validateScheduleSettings(schedule: ScheduleSettings): string[] {
+  if (!schedule.enabled) {
+    return [];
+  }
+  const scheduledFor = zonedTimeToIso(schedule.date, schedule.time, schedule.timezone);
+  if (!scheduledFor) {
+    return ['Pick a date and time for the scheduled send'];
+  }
+  return validateSchedule(scheduledFor, schedule.timezone);
+}
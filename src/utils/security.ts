@@ -2,28 +2,11 @@
  * Enhanced security utilities for input validation and sanitization
  */
 
-// Enhanced HTML sanitization to prevent XSS attacks
-export const sanitizeHtml = (input: string): string => {
-  if (!input || typeof input !== 'string') return '';
-  
-  return input
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#x27;')
-    .replace(/\//g, '&#x2F;')
-    .replace(/`/g, '&#x60;')
-    .replace(/=/g, '&#x3D;')
-    // Remove potentially dangerous protocols
-    .replace(/javascript:/gi, '')
-    .replace(/data:/gi, '')
-    .replace(/vbscript:/gi, '')
-    // Remove script tags and event handlers
-    .replace(/<script[^>]*>.*?<\/script>/gi, '')
-    .replace(/on\w+\s*=\s*["'][^"']*["']/gi, '')
-    .replace(/on\w+\s*=\s*[^>\s]+/gi, '');
-};
+import { findUnknownMergeFields, stripMergeFields } from '@shared/merge-fields';
+import { markdownToText } from '@shared/markdown';
+
+// Text escaping for strings that end up inside HTML, shared with the edge functions
+export { escapeHtml } from '@shared/sanitize';
 
 // Enhanced email validation with additional security checks
 export const isValidEmail = (email: string): boolean => {
@@ -92,10 +75,18 @@ export const validateEmailContent = (subject: string, content: string): string[]
     }
   }
   
+  // Merge fields are rendered per recipient on the server; anything else in {{...}} would be sent as is
+  const unknownFields = findUnknownMergeFields(subject || '', content || '');
+  if (unknownFields.length > 0) {
+    errors.push(`Unknown merge fields: ${unknownFields.map(name => `{{${name}}}`).join(', ')}`);
+  }
+  
   // Check for excessive special characters (potential obfuscation)
   // Fixed regex: escape the hyphen to avoid range interpretation
-  const specialCharCount = (combinedText.match(/[^\w\s.,!?;:()\-]/g) || []).length;
-  if (specialCharCount > combinedText.length * 0.1) {
+  // Counted on the text a reader sees: Markdown syntax and merge field tokens are expected
+  const plainText = stripMergeFields(`${subject || ''} ${markdownToText(content || '')}`);
+  const specialCharCount = (plainText.match(/[^\w\s.,!?;:()\-]/g) || []).length;
+  if (specialCharCount > plainText.length * 0.1) {
     errors.push('Content contains too many special characters');
   }
   
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { isValidEmail } from '@/utils/security';
+import { toSearchTerm } from '@/utils/employees';
+import { Page } from '@/utils/campaigns';
+import { Suppression } from '@shared/suppressions';
+
+/**
+ * The email suppression list for the Suppressions page and the send preview.
+ * Functions throw on failure so they can be used directly as TanStack Query
+ * `queryFn`s and `mutationFn`s.
+ */
+
+export interface SuppressionEntry extends Suppression {
+  id: string;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+export const SUPPRESSIONS_PAGE_SIZE = 50;
+
+export const suppressionQueryKeys = {
+  all: ['suppressions'] as const,
+  list: (search: string, page: number) => ['suppressions', 'list', search, page] as const,
+  active: (emails: string[]) => ['suppressions', 'active', emails] as const,
+};
+
+const today = () => new Date().toLocaleDateString('en-CA');
+
+export const suppressionSchema = z.object({
+  email: z.string().trim().toLowerCase()
+    .refine(isValidEmail, 'Enter a valid email address'),
+  reason: z.string().trim()
+    .min(1, 'Reason is required')
+    .max(500, 'Reason must be less than 500 characters'),
+  // Calendar date (YYYY-MM-DD); empty keeps the address suppressed until removed
+  expiresOn: z.string()
+    .refine(value => !value || value > today(), 'The expiry date must be in the future'),
+});
+
+export type SuppressionFormValues = z.infer<typeof suppressionSchema>;
+
+// The entry stops applying at the start of the expiry date, in the browser's time zone
+const expiryInstant = (date: string): string | null =>
+  date ? new Date(`${date}T00:00:00`).toISOString() : null;
+
+export const listSuppressions = async (search: string, page: number): Promise<Page<SuppressionEntry>> => {
+  const from = (page - 1) * SUPPRESSIONS_PAGE_SIZE;
+  const term = toSearchTerm(search);
+
+  const result = await safeSupabaseCall(async () => {
+    let query = supabase
+      .from('email_suppressions')
+      .select('id, email, reason, source, expires_at, created_by_email, created_at', { count: 'exact' });
+
+    if (term) query = query.ilike('email', `%${term}%`);
+
+    return await query
+      .order('created_at', { ascending: false })
+      .range(from, from + SUPPRESSIONS_PAGE_SIZE - 1);
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load the suppression list');
+  }
+  return { rows: (result.data || []) as SuppressionEntry[], total: result.count || 0 };
+};
+
+// Entries that haven't expired for `emails`, for the send preview. Filtered
+// in the database so the API row limit can't leave any out.
+export const listActiveSuppressions = async (emails: string[]): Promise<Suppression[]> => {
+  if (emails.length === 0) {
+    return [];
+  }
+
+  const result = await safeSupabaseCall(async () =>
+    await supabase.rpc('audience_suppressions', { p_emails: emails })
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load the suppression list');
+  }
+  return (result.data || []) as unknown as Suppression[];
+};
+
+export const addSuppression = async (values: SuppressionFormValues): Promise<void> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase.from('email_suppressions').insert({
+      email: values.email,
+      reason: values.reason,
+      source: 'manual',
+      expires_at: expiryInstant(values.expiresOn),
+    })
+  );
+
+  if (result.error) {
+    throw new Error(result.error.code === '23505'
+      ? 'This address is already on the suppression list'
+      : result.error.message || 'Failed to add the address');
+  }
+};
+
+export const removeSuppression = async (id: string): Promise<void> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase.from('email_suppressions').delete().eq('id', id)
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to remove the address');
+  }
+};
@@ -0,0 +1,34 @@
+/**
+ * Template placeholders: {{quarter}}, {{ closure_date }}, ...
+ * They are filled in by the admin when a template is loaded into the composer.
+ * Merge fields such as {{first_name}} use the same syntax but are left alone:
+ * they are rendered per recipient when the email is sent.
+ */
+
+import { isMergeField } from '@shared/merge-fields';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+// Unique placeholder names, in order of first appearance
+export const findPlaceholders = (...texts: string[]): string[] => {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!isMergeField(match[1])) {
+        names.add(match[1]);
+      }
+    }
+  }
+  return [...names];
+};
+
+export const fillPlaceholders = (text: string, values: Record<string, string>): string =>
+  text.replace(PLACEHOLDER_PATTERN, (token, name: string) =>
+    !isMergeField(name) && Object.prototype.hasOwnProperty.call(values, name) ? values[name] : token
+  );
+
+// "closure_date" -> "Closure date"
+export const placeholderLabel = (name: string): string => {
+  const words = name.replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
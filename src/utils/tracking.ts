@@ -0,0 +1,52 @@
+import { supabase, safeSupabaseCall } from '@/integrations/supabase/client';
+import { PillarTracking } from '@shared/tracking';
+
+/**
+ * Campaign tracking options and the per-pillar tracking settings. Functions
+ * throw on failure so they can be used directly as TanStack Query `queryFn`s
+ * and `mutationFn`s.
+ */
+
+// Chosen in the composer and sent with the campaign
+export interface TrackingOptions {
+  confidential: boolean;
+  trackOpens: boolean;
+  trackClicks: boolean;
+}
+
+export const DEFAULT_TRACKING_OPTIONS: TrackingOptions = {
+  confidential: false,
+  trackOpens: false,
+  trackClicks: false,
+};
+
+export const trackingQueryKeys = {
+  settings: ['tracking', 'settings'] as const,
+};
+
+// Pillars without a row are never tracked
+export const listTrackingSettings = async (): Promise<PillarTracking[]> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase
+      .from('pillar_tracking_settings')
+      .select('pillar, track_opens, track_clicks')
+      .order('pillar', { ascending: true })
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to load tracking settings');
+  }
+  return result.data || [];
+};
+
+export const saveTrackingSetting = async (setting: PillarTracking): Promise<void> => {
+  const result = await safeSupabaseCall(async () =>
+    await supabase
+      .from('pillar_tracking_settings')
+      .upsert({ ...setting, updated_at: new Date().toISOString() }, { onConflict: 'pillar' })
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || 'Failed to save the tracking setting');
+  }
+};
@@ -0,0 +1,50 @@
+/*
+  When a send needs a second admin's approval.
+
+    APPROVAL_RECIPIENT_THRESHOLD   sends to more recipients than this need
+                                   approval (default 100)
+    APPROVAL_PILLARS               comma-separated pillars; a send reaching
+                                   any of their employees needs approval
+
+  send-email checks the audience when the campaign is created, and the
+  dispatcher checks scheduled campaigns again against the directory at send
+  time, since the audience may have grown in between.
+*/
+
+export interface ApprovalPolicy {
+  recipientThreshold: number
+  pillars: string[]
+}
+
+type EnvReader = (key: string) => string | undefined
+
+const DEFAULT_RECIPIENT_THRESHOLD = 100
+
+export function approvalPolicyFromEnv(env: EnvReader = (key) => Deno.env.get(key)): ApprovalPolicy {
+  const threshold = Number(env('APPROVAL_RECIPIENT_THRESHOLD') || DEFAULT_RECIPIENT_THRESHOLD)
+  return {
+    recipientThreshold: Number.isInteger(threshold) && threshold >= 0 ? threshold : DEFAULT_RECIPIENT_THRESHOLD,
+    pillars: (env('APPROVAL_PILLARS') || '')
+      .split(',')
+      .map(pillar => pillar.trim())
+      .filter(Boolean)
+  }
+}
+
+// Why the send needs approval; empty when it doesn't
+export function approvalReasons(policy: ApprovalPolicy, recipients: { pillar: string }[]): string[] {
+  const reasons: string[] = []
+
+  if (recipients.length > policy.recipientThreshold) {
+    reasons.push(`${recipients.length} recipients (approval needed above ${policy.recipientThreshold})`)
+  }
+
+  const reached = new Set(recipients.map(recipient => recipient.pillar))
+  for (const pillar of policy.pillars) {
+    if (reached.has(pillar)) {
+      reasons.push(`Reaches the ${pillar} pillar`)
+    }
+  }
+
+  return reasons
+}
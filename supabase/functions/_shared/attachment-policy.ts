@@ -0,0 +1,96 @@
+/*
+  Limits for email attachments.
+
+  Shared with the dashboard (through the `@shared` alias): the composer checks
+  files before uploading them, and send-email checks the stored metadata
+  again before a send is accepted. Keep it free of Deno and browser APIs.
+*/
+
+export const ATTACHMENT_BUCKET = 'email-attachments'
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024
+export const MAX_TOTAL_ATTACHMENT_BYTES = 10 * 1024 * 1024
+export const MAX_ATTACHMENTS = 5
+
+// Allowed extensions and the content type each must be sent with
+export const ATTACHMENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  csv: 'text/csv',
+  txt: 'text/plain',
+  ics: 'text/calendar',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg'
+}
+
+export interface AttachmentMeta {
+  file_name: string
+  content_type: string
+  size_bytes: number
+}
+
+export function attachmentExtension(fileName: string): string {
+  const match = /\.([a-zA-Z0-9]+)$/.exec(fileName || '')
+  return match ? match[1].toLowerCase() : ''
+}
+
+// Content type for a file name, or null when the extension is not allowed
+export function attachmentContentType(fileName: string): string | null {
+  return ATTACHMENT_TYPES[attachmentExtension(fileName)] ?? null
+}
+
+// Name safe to use in a storage path and a MIME header: no path separators or control characters
+export function safeAttachmentName(fileName: string): string {
+  const name = (fileName || '')
+    .split(/[/\\]/).pop()
+    .replace(/[\p{Cc}"<>|?*:]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 150)
+  return name || 'attachment'
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function validateAttachment(file: AttachmentMeta): string[] {
+  const errors: string[] = []
+  const expectedType = attachmentContentType(file.file_name)
+
+  if (!expectedType) {
+    errors.push(`${file.file_name}: file type is not allowed`)
+  } else if (file.content_type !== expectedType) {
+    errors.push(`${file.file_name}: content type does not match the file extension`)
+  }
+  if (!Number.isInteger(file.size_bytes) || file.size_bytes <= 0) {
+    errors.push(`${file.file_name}: file is empty`)
+  } else if (file.size_bytes > MAX_ATTACHMENT_BYTES) {
+    errors.push(`${file.file_name}: larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}`)
+  }
+
+  return errors
+}
+
+// Checks every file plus the per-send count and total size
+export function validateAttachments(files: AttachmentMeta[]): string[] {
+  const errors = files.flatMap(validateAttachment)
+
+  if (files.length > MAX_ATTACHMENTS) {
+    errors.push(`At most ${MAX_ATTACHMENTS} attachments per email`)
+  }
+  const total = files.reduce((sum, file) => sum + (file.size_bytes || 0), 0)
+  if (total > MAX_TOTAL_ATTACHMENT_BYTES) {
+    errors.push(`Attachments total ${formatBytes(total)}, the limit is ${formatBytes(MAX_TOTAL_ATTACHMENT_BYTES)}`)
+  }
+
+  return errors
+}
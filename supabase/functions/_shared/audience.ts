@@ -0,0 +1,194 @@
+/*
+  Audience filters for campaigns.
+
+  This module is imported both by the edge functions and by the dashboard
+  (through the `@shared` alias), so a filter always selects exactly the same
+  employees in the audience builder and at send time. Keep it free of Deno
+  and browser APIs.
+
+  An employee is selected when
+    - their employee_id is not in `excludeEmployeeIds`, and
+    - their employee_id is in `includeEmployeeIds`, or they match the rules:
+      the rules apply when `allEmployees` is set or at least one of
+      `includePillars`, `includeLevels`, `minLevel` is given; empty include
+      lists mean "any", exclude lists always win.
+*/
+
+export interface AudienceFilter {
+  allEmployees: boolean
+  includePillars: string[]
+  excludePillars: string[]
+  includeLevels: string[]
+  excludeLevels: string[]
+  // Compared against the numeric part of a level, e.g. 5 selects L5, L6, ...
+  minLevel: number | null
+  includeEmployeeIds: number[]
+  excludeEmployeeIds: number[]
+}
+
+export interface AudienceMember {
+  employee_id: number
+  pillar: string
+  level: string
+}
+
+const MAX_LIST_LENGTH = 200
+const NAME_PATTERN = /^[a-zA-Z0-9\s\-_]+$/
+
+export const emptyAudience = (): AudienceFilter => ({
+  allEmployees: false,
+  includePillars: [],
+  excludePillars: [],
+  includeLevels: [],
+  excludeLevels: [],
+  minLevel: null,
+  includeEmployeeIds: [],
+  excludeEmployeeIds: []
+})
+
+export const pillarAudience = (pillar: string): AudienceFilter => ({
+  ...emptyAudience(),
+  includePillars: [pillar]
+})
+
+// Numeric rank of a level such as "L5" or "IC3"; null when the level has no number
+export function levelRank(level: string): number | null {
+  const match = /(\d+)/.exec(level || '')
+  return match ? Number(match[1]) : null
+}
+
+function hasRules(filter: AudienceFilter): boolean {
+  return filter.allEmployees ||
+    filter.includePillars.length > 0 ||
+    filter.includeLevels.length > 0 ||
+    filter.minLevel !== null
+}
+
+export function matchesAudience(member: AudienceMember, filter: AudienceFilter): boolean {
+  if (filter.excludeEmployeeIds.includes(member.employee_id)) {
+    return false
+  }
+  if (filter.includeEmployeeIds.includes(member.employee_id)) {
+    return true
+  }
+  if (!hasRules(filter)) {
+    return false
+  }
+
+  if (filter.includePillars.length > 0 && !filter.includePillars.includes(member.pillar)) {
+    return false
+  }
+  if (filter.excludePillars.includes(member.pillar)) {
+    return false
+  }
+  if (filter.includeLevels.length > 0 && !filter.includeLevels.includes(member.level)) {
+    return false
+  }
+  if (filter.excludeLevels.includes(member.level)) {
+    return false
+  }
+  if (filter.minLevel !== null) {
+    const rank = levelRank(member.level)
+    if (rank === null || rank < filter.minLevel) {
+      return false
+    }
+  }
+
+  return true
+}
+
+export function selectAudience<T extends AudienceMember>(members: T[], filter: AudienceFilter): T[] {
+  return members.filter(member => matchesAudience(member, filter))
+}
+
+function isNameList(value: unknown): value is string[] {
+  return Array.isArray(value) &&
+    value.length <= MAX_LIST_LENGTH &&
+    value.every(item => typeof item === 'string' && item.length <= 100 && NAME_PATTERN.test(item))
+}
+
+function isIdList(value: unknown): value is number[] {
+  return Array.isArray(value) &&
+    value.length <= MAX_LIST_LENGTH &&
+    value.every(item => Number.isInteger(item) && item >= 0)
+}
+
+// Validate an untrusted filter (e.g. a request body). Returns a list of errors.
+export function validateAudienceFilter(filter: unknown): string[] {
+  const errors: string[] = []
+
+  if (!filter || typeof filter !== 'object') {
+    return ['Audience is required']
+  }
+
+  const candidate = filter as Record<string, unknown>
+  if (typeof candidate.allEmployees !== 'boolean') {
+    errors.push('Invalid audience scope')
+  }
+  for (const key of ['includePillars', 'excludePillars', 'includeLevels', 'excludeLevels']) {
+    if (!isNameList(candidate[key])) {
+      errors.push(`Invalid audience ${key}`)
+    }
+  }
+  for (const key of ['includeEmployeeIds', 'excludeEmployeeIds']) {
+    if (!isIdList(candidate[key])) {
+      errors.push(`Invalid audience ${key}`)
+    }
+  }
+  if (candidate.minLevel !== null && !(Number.isInteger(candidate.minLevel) && (candidate.minLevel as number) >= 0)) {
+    errors.push('Invalid audience minLevel')
+  }
+
+  if (errors.length === 0) {
+    const audience = candidate as unknown as AudienceFilter
+    if (!hasRules(audience) && audience.includeEmployeeIds.length === 0) {
+      errors.push('Audience must select at least one pillar, level or employee')
+    }
+  }
+
+  return errors
+}
+
+// Copy only the known keys so stored filters never carry extra request data
+export function normalizeAudienceFilter(filter: AudienceFilter): AudienceFilter {
+  return {
+    allEmployees: filter.allEmployees,
+    includePillars: [...new Set(filter.includePillars)],
+    excludePillars: [...new Set(filter.excludePillars)],
+    includeLevels: [...new Set(filter.includeLevels)],
+    excludeLevels: [...new Set(filter.excludeLevels)],
+    minLevel: filter.minLevel,
+    includeEmployeeIds: [...new Set(filter.includeEmployeeIds)],
+    excludeEmployeeIds: [...new Set(filter.excludeEmployeeIds)]
+  }
+}
+
+// Short human-readable summary, e.g. "Engineering + Product, L5 and above, excluding Contractors"
+export function describeAudience(filter: AudienceFilter): string {
+  const parts: string[] = []
+
+  if (filter.includePillars.length > 0) {
+    parts.push(filter.includePillars.join(' + '))
+  } else if (hasRules(filter)) {
+    parts.push('All pillars')
+  }
+  if (filter.includeLevels.length > 0) {
+    parts.push(`levels ${filter.includeLevels.join(', ')}`)
+  }
+  if (filter.minLevel !== null) {
+    parts.push(`level ${filter.minLevel} and above`)
+  }
+
+  const excluded = [...filter.excludePillars, ...filter.excludeLevels]
+  if (excluded.length > 0) {
+    parts.push(`excluding ${excluded.join(', ')}`)
+  }
+  if (filter.includeEmployeeIds.length > 0) {
+    parts.push(`plus ${filter.includeEmployeeIds.length} selected employee(s)`)
+  }
+  if (filter.excludeEmployeeIds.length > 0) {
+    parts.push(`minus ${filter.excludeEmployeeIds.length} employee(s)`)
+  }
+
+  return parts.join(', ') || 'Nobody'
+}
@@ -0,0 +1,33 @@
+import { escapeHtml } from './sanitize.ts'
+
+// Secure audit logging with input sanitization
+export async function logAdminAction(supabaseClient: any, userId: string, action: string, details: any, req: Request) {
+  try {
+    // Sanitize user agent and IP to prevent log injection
+    const userAgent = (req.headers.get('user-agent') || 'Unknown').substring(0, 500)
+    const forwardedFor = req.headers.get('x-forwarded-for')
+    const realIp = req.headers.get('x-real-ip')
+    const ipAddress = (forwardedFor?.split(',')[0]?.trim() || realIp || 'Unknown').substring(0, 45)
+    
+    // Sanitize action and details
+    const sanitizedAction = escapeHtml(action).substring(0, 100)
+    // Oversized details are kept as a truncated string rather than cut mid-JSON
+    const serializedDetails = typeof details === 'object' ? JSON.stringify(details) : ''
+    const sanitizedDetails = typeof details === 'object' ? 
+      (serializedDetails.length <= 1000 ? details : { truncated: true, preview: serializedDetails.substring(0, 1000) }) : 
+      escapeHtml(String(details)).substring(0, 1000)
+    
+    await supabaseClient
+      .from('admin_audit_log')
+      .insert({
+        admin_user_id: userId,
+        action: sanitizedAction,
+        details: sanitizedDetails,
+        ip_address: ipAddress,
+        user_agent: userAgent
+      })
+  } catch (error) {
+    console.error('Failed to log admin action:', error)
+    // Don't throw - logging failure shouldn't block the main operation
+  }
+}
@@ -0,0 +1,58 @@
+import { logAdminAction } from './audit.ts'
+import { createErrorResponse } from './http.ts'
+
+export interface AuthenticatedUser {
+  id: string
+  email?: string
+}
+
+// Verify the bearer token of the request. Returns an error response when the
+// caller is not signed in so handlers can simply `return` it.
+export async function authenticateUser(supabaseClient: any, req: Request, unauthorizedAction: string): Promise<AuthenticatedUser | Response> {
+  // Get and validate authorization header
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return createErrorResponse('Authentication required', 401)
+  }
+
+  const token = authHeader.replace('Bearer ', '').trim()
+  if (!token || token.length < 10) {
+    return createErrorResponse('Invalid token format', 401)
+  }
+
+  // Verify user authentication with timeout
+  const authPromise = supabaseClient.auth.getUser(token)
+  const timeoutPromise = new Promise((_, reject) =>
+    setTimeout(() => reject(new Error('Auth timeout')), 5000)
+  )
+
+  const { data: { user }, error: authError } = await Promise.race([
+    authPromise,
+    timeoutPromise
+  ]) as any
+
+  if (authError || !user?.id) {
+    await logAdminAction(supabaseClient, 'unknown', unauthorizedAction,
+      { error: 'Invalid token', ip: req.headers.get('x-forwarded-for') }, req)
+    return createErrorResponse('Authentication failed', 401)
+  }
+
+  return { id: user.id, email: user.email }
+}
+
+// Verify admin status using parameterized query
+export async function isAdminUser(supabaseClient: any, userId: string): Promise<boolean> {
+  const { data: adminUser, error: adminError } = await supabaseClient
+    .from('admin_users')
+    .select('id')
+    .eq('user_id', userId)
+    .single()
+
+  return !adminError && !!adminUser
+}
+
+// Scheduled jobs call the queue functions with the service role key instead of a user token
+export function isServiceRoleRequest(req: Request, serviceKey: string): boolean {
+  const authHeader = req.headers.get('Authorization') || ''
+  return authHeader === `Bearer ${serviceKey}`
+}
@@ -0,0 +1,94 @@
+import { EMAIL_FORMAT } from './sanitize.ts'
+
+/*
+  Provider-agnostic delivery events accepted by the `email-webhook` function.
+
+    {
+      "events": [{
+        "id": "evt_123",                   unique per event; redeliveries are ignored
+        "type": "delivered" | "bounced" | "complained" | "deferred",
+        "messageId": "...",                the provider message id returned at send time;
+                                           for SMTP, the Message-ID header with its angle brackets
+        "recipient": "jane@example.com",
+        "occurredAt": "2026-10-19T12:00:00Z",
+        "bounceType"?: "hard" | "soft",    bounces only; defaults to hard
+        "reason"?: string                  diagnostic from the receiving server
+      }]
+    }
+
+  A provider's own webhook format is translated to this one by whatever sits
+  in front of the function (or by a small adapter next to it).
+*/
+
+export const EMAIL_EVENT_TYPES = ['delivered', 'bounced', 'complained', 'deferred'] as const
+
+export type EmailEventType = typeof EMAIL_EVENT_TYPES[number]
+
+export interface EmailEvent {
+  id: string
+  type: EmailEventType
+  messageId: string
+  recipient: string
+  occurredAt: string
+  bounceType?: 'hard' | 'soft'
+  reason?: string
+}
+
+export const MAX_EVENTS_PER_REQUEST = 100
+
+function isEventType(value: unknown): value is EmailEventType {
+  return typeof value === 'string' && (EMAIL_EVENT_TYPES as readonly string[]).includes(value)
+}
+
+function isShortString(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength
+}
+
+// Validate a webhook body. Returns the events, or the errors when any event is invalid.
+export function parseEmailEvents(body: unknown): { events: EmailEvent[]; errors: string[] } {
+  const list = (body as { events?: unknown })?.events
+  if (!Array.isArray(list) || list.length === 0) {
+    return { events: [], errors: ['Body must contain a non-empty "events" array'] }
+  }
+  if (list.length > MAX_EVENTS_PER_REQUEST) {
+    return { events: [], errors: [`At most ${MAX_EVENTS_PER_REQUEST} events per request`] }
+  }
+
+  const events: EmailEvent[] = []
+  const errors: string[] = []
+
+  list.forEach((raw, index) => {
+    const event = raw as Record<string, unknown>
+    const prefix = `events[${index}]`
+
+    if (!isShortString(event?.id, 200)) errors.push(`${prefix}.id is required`)
+    if (!isEventType(event?.type)) errors.push(`${prefix}.type must be one of ${EMAIL_EVENT_TYPES.join(', ')}`)
+    if (!isShortString(event?.messageId, 500)) errors.push(`${prefix}.messageId is required`)
+    if (!isShortString(event?.recipient, 254) || !EMAIL_FORMAT.test(event.recipient as string)) {
+      errors.push(`${prefix}.recipient must be an email address`)
+    }
+    if (typeof event?.occurredAt !== 'string' || Number.isNaN(Date.parse(event.occurredAt))) {
+      errors.push(`${prefix}.occurredAt must be an ISO 8601 timestamp`)
+    }
+    if (event?.bounceType !== undefined && event.bounceType !== 'hard' && event.bounceType !== 'soft') {
+      errors.push(`${prefix}.bounceType must be hard or soft`)
+    }
+    if (event?.reason !== undefined && typeof event.reason !== 'string') {
+      errors.push(`${prefix}.reason must be a string`)
+    }
+
+    if (errors.length === 0) {
+      events.push({
+        id: (event.id as string).trim(),
+        type: event.type as EmailEventType,
+        messageId: (event.messageId as string).trim(),
+        recipient: (event.recipient as string).trim(),
+        occurredAt: new Date(event.occurredAt as string).toISOString(),
+        bounceType: event.bounceType as 'hard' | 'soft' | undefined,
+        reason: typeof event.reason === 'string' ? event.reason.substring(0, 500) : undefined
+      })
+    }
+  })
+
+  return errors.length > 0 ? { events: [], errors } : { events, errors }
+}
@@ -0,0 +1,468 @@
+import { MailTransport } from './mail-transport.ts'
+import { SendTimeoutError } from './mail-errors.ts'
+import { EMAIL_FORMAT } from './sanitize.ts'
+import { MAX_ATTEMPTS, PermanentDeliveryError, retryDelayMs, shouldRetry } from './retry-policy.ts'
+import { AudienceFilter } from './audience.ts'
+import { MergeValues, mergeValues } from './merge-fields.ts'
+import { PreferencesLink, renderEmail } from './email-render.ts'
+import { CampaignAttachment, downloadAttachments } from './attachments.ts'
+import { MimeAttachment } from './mime.ts'
+import { describeSuppression, SuppressedRecipient } from './suppressions.ts'
+import { applyTracking, NO_TRACKING, PillarTracking, TrackedCampaign, trackingFor } from './tracking.ts'
+import { EmailCategory, signPreferenceToken, unsubscribeHeaders } from './preferences.ts'
+import { loadCategory } from './recipients.ts'
+
+/*
+  Durable send queue backed by `email_campaigns` / `email_deliveries`.
+
+  A send request only enqueues one delivery row per recipient. Workers then
+  lease small batches with `claim_email_deliveries` and write every result
+  back before claiming the next batch, so a function timeout never loses
+  more than the batch in flight - and those rows are re-claimed once their
+  lease expires, until they run out of attempts and are marked failed. Transient failures go back to the queue with a backoff
+  delay (see retry-policy.ts) until the attempt limit is reached.
+
+  Only as many deliveries are claimed as can be sent before the deadline,
+  given the transport's concurrency, so a lease never runs out while its
+  message is still being sent. Each send may take MAIL_SEND_TIMEOUT_MS plus
+  MAIL_SEND_TIMEOUT_PER_MB_MS for every started megabyte of attachments. A
+  send that times out before the provider started receiving the message
+  (connecting, authenticating, refreshing a token) is retried like any
+  transient failure; one that times out afterwards is failed, not retried:
+  the message may still go out, and retrying could deliver it twice.
+*/
+
+const BATCH_SIZE = Number(Deno.env.get('MAIL_BATCH_SIZE') || 25)
+const LEASE_SECONDS = 60
+const SEND_TIMEOUT_MS = Number(Deno.env.get('MAIL_SEND_TIMEOUT_MS') || 5000)
+const SEND_TIMEOUT_PER_MB_MS = Number(Deno.env.get('MAIL_SEND_TIMEOUT_PER_MB_MS') || 1000)
+// Without a secret no message is tracked, whatever the campaign asks for
+const TRACKING_SECRET = Deno.env.get('EMAIL_TRACKING_SECRET') || ''
+const TRACKING_ENDPOINT = `${Deno.env.get('SUPABASE_URL') || ''}/functions/v1/email-track`
+// Messages of optional categories can't be sent without both (see preferences.ts)
+const PREFERENCES_SECRET = Deno.env.get('EMAIL_PREFERENCES_SECRET') || ''
+const PREFERENCES_URL = Deno.env.get('EMAIL_PREFERENCES_URL') || ''
+const ONE_CLICK_ENDPOINT = `${Deno.env.get('SUPABASE_URL') || ''}/functions/v1/email-preferences`
+
+// Time allowed for one send; larger attachments take longer to upload
+function sendTimeoutMs(files: MimeAttachment[]): number {
+  const bytes = files.reduce((total, file) => total + file.content.byteLength, 0)
+  return SEND_TIMEOUT_MS + Math.ceil(bytes / (1024 * 1024)) * SEND_TIMEOUT_PER_MB_MS
+}
+
+// Run `send`, failing with a SendTimeoutError that records whether the
+// transport had handed the message off when time ran out
+async function withSendTimeout<T>(send: (onHandoff: () => void) => Promise<T>, timeoutMs: number): Promise<T> {
+  let handedOff = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new SendTimeoutError(handedOff)), timeoutMs)
+  })
+  try {
+    return await Promise.race([send(() => { handedOff = true }), timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export interface Recipient {
+  id: string
+  name: string
+  email: string
+  employee_id: number
+  pillar: string
+  level: string
+}
+
+export interface NewCampaign {
+  createdBy: string
+  // Shown in the campaign history and the approval queue
+  requestedByEmail?: string
+  audience: AudienceFilter
+  audienceLabel: string
+  // Set when the audience came from a saved segment
+  segment?: { id: string; version: number }
+  subject: string
+  content: string
+  // email_categories id, already checked by the caller
+  category: string
+  // Already checked and scanned by the caller
+  attachments?: CampaignAttachment[]
+  transport: string
+  // The rejected campaign this one revises
+  previousCampaignId?: string
+  // Confidential campaigns are never tracked
+  confidential?: boolean
+  // Requested tracking; only applied for pillars that allow it (see tracking.ts)
+  trackOpens?: boolean
+  trackClicks?: boolean
+  recipients: Recipient[]
+  // Audience members on the suppression list or opted out of the category;
+  // recorded but never sent to
+  suppressed?: SuppressedRecipient<Recipient>[]
+}
+
+export interface CampaignProgress {
+  id: string
+  status: 'pending_approval' | 'approved' | 'rejected' | 'scheduled' | 'queued' | 'sending' | 'completed' | 'cancelled'
+  transport: string
+  total_recipients: number
+  sent_count: number
+  failed_count: number
+  suppressed_count: number
+}
+
+interface Delivery {
+  id: string
+  employee_id: string | null
+  attempt_count: number
+  recipient_email: string
+  recipient_name: string
+  merge_data: Partial<MergeValues>
+}
+
+interface CampaignContent extends TrackedCampaign {
+  id: string
+  subject: string
+  content: string
+  category: string
+  attachments: CampaignAttachment[]
+}
+
+type CampaignDetails = Omit<NewCampaign, 'recipients' | 'suppressed'>
+
+export interface ScheduledCampaign extends CampaignDetails {
+  // ISO 8601 instant, already validated
+  scheduledFor: string
+  // Time zone the admin picked the time in, kept for display
+  timezone: string
+}
+
+export interface ApprovalRequest extends CampaignDetails {
+  approvalReasons: string[]
+  // Audience size when the approval was requested, shown to the approver
+  recipientCount: number
+  scheduledFor?: string
+  timezone?: string
+}
+
+async function insertCampaign(supabaseClient: any, campaign: CampaignDetails, fields: Record<string, unknown>): Promise<CampaignProgress> {
+  const { data: created, error: campaignError } = await supabaseClient
+    .from('email_campaigns')
+    .insert({
+      created_by: campaign.createdBy,
+      requested_by_email: campaign.requestedByEmail ?? null,
+      audience: campaign.audience,
+      audience_label: campaign.audienceLabel,
+      segment_id: campaign.segment?.id ?? null,
+      segment_version: campaign.segment?.version ?? null,
+      subject: campaign.subject,
+      content: campaign.content,
+      category: campaign.category,
+      attachments: campaign.attachments ?? [],
+      transport: campaign.transport,
+      previous_campaign_id: campaign.previousCampaignId ?? null,
+      confidential: campaign.confidential ?? false,
+      track_opens: !campaign.confidential && !!campaign.trackOpens,
+      track_clicks: !campaign.confidential && !!campaign.trackClicks,
+      ...fields
+    })
+    .select('id, status, transport, total_recipients, sent_count, failed_count, suppressed_count')
+    .single()
+
+  if (campaignError || !created) {
+    throw new Error(`Failed to create campaign: ${campaignError?.message}`)
+  }
+
+  return created
+}
+
+function toDelivery(recipient: Recipient) {
+  return {
+    employee_id: recipient.id,
+    recipient_email: recipient.email,
+    recipient_name: recipient.name,
+    merge_data: mergeValues(recipient),
+    status: 'queued',
+    suppression_reason: null as string | null
+  }
+}
+
+function toSuppressedDelivery(recipient: SuppressedRecipient<Recipient>) {
+  return {
+    ...toDelivery(recipient),
+    status: 'suppressed',
+    suppression_reason: describeSuppression(recipient.suppression).substring(0, 500)
+  }
+}
+
+// Create the campaign and one queued delivery per recipient, plus a suppressed
+// one per skipped audience member
+export async function enqueueCampaign(supabaseClient: any, campaign: NewCampaign): Promise<CampaignProgress> {
+  const suppressed = campaign.suppressed ?? []
+  const created = await insertCampaign(supabaseClient, campaign, {
+    total_recipients: campaign.recipients.length,
+    suppressed_count: suppressed.length
+  })
+
+  const { error: deliveriesError } = await supabaseClient
+    .from('email_deliveries')
+    .insert([
+      ...campaign.recipients.map(toDelivery),
+      ...suppressed.map(toSuppressedDelivery)
+    ].map(delivery => ({ campaign_id: created.id, ...delivery })))
+
+  if (deliveriesError) {
+    // Don't leave an empty campaign behind that workers would try to drain
+    await supabaseClient.from('email_campaigns').delete().eq('id', created.id)
+    throw new Error(`Failed to queue deliveries: ${deliveriesError.message}`)
+  }
+
+  return created
+}
+
+// Store a campaign for later; recipients are resolved when it is dispatched (see scheduler.ts)
+export async function scheduleCampaign(supabaseClient: any, campaign: ScheduledCampaign): Promise<CampaignProgress> {
+  return await insertCampaign(supabaseClient, campaign, {
+    status: 'scheduled',
+    scheduled_for: campaign.scheduledFor,
+    schedule_timezone: campaign.timezone
+  })
+}
+
+// Hold a campaign for a second admin; approved campaigns are dispatched like
+// scheduled ones (see scheduler.ts)
+export async function requestApproval(supabaseClient: any, campaign: ApprovalRequest): Promise<CampaignProgress> {
+  return await insertCampaign(supabaseClient, campaign, {
+    status: 'pending_approval',
+    approval_required: true,
+    approval_reasons: campaign.approvalReasons,
+    total_recipients: campaign.recipientCount,
+    scheduled_for: campaign.scheduledFor ?? null,
+    schedule_timezone: campaign.timezone ?? null
+  })
+}
+
+// Queue the deliveries of a claimed scheduled or approved campaign. Without recipients the
+// campaign is cancelled with the given reason instead (suppressed ones are still recorded).
+export async function queueScheduledCampaign(
+  supabaseClient: any,
+  campaignId: string,
+  recipients: Recipient[],
+  suppressed: SuppressedRecipient<Recipient>[],
+  reason?: string
+): Promise<CampaignProgress> {
+  const { data: campaign, error } = await supabaseClient.rpc('queue_scheduled_campaign', {
+    p_campaign_id: campaignId,
+    p_deliveries: [...recipients.map(toDelivery), ...suppressed.map(toSuppressedDelivery)],
+    p_reason: reason ?? null
+  })
+
+  if (error || !campaign) {
+    throw new Error(`Failed to queue scheduled campaign: ${error?.message}`)
+  }
+
+  return {
+    id: campaign.id,
+    status: campaign.status,
+    transport: campaign.transport,
+    total_recipients: campaign.total_recipients,
+    sent_count: campaign.sent_count,
+    failed_count: campaign.failed_count,
+    suppressed_count: campaign.suppressed_count
+  }
+}
+
+// Pillars that allow tracking, loaded only when the campaign asks for it
+async function loadTrackingSettings(supabaseClient: any, campaign: CampaignContent): Promise<PillarTracking[]> {
+  if (campaign.confidential || !(campaign.track_opens || campaign.track_clicks)) {
+    return []
+  }
+  if (!TRACKING_SECRET) {
+    console.warn(`Campaign ${campaign.id} requests tracking but EMAIL_TRACKING_SECRET is not set; sending untracked`)
+    return []
+  }
+
+  const { data, error } = await supabaseClient
+    .from('pillar_tracking_settings')
+    .select('pillar, track_opens, track_clicks')
+
+  if (error) {
+    throw new Error(`Failed to load tracking settings: ${error.message}`)
+  }
+  return data || []
+}
+
+// Footer link to the preferences page and one-click unsubscribe headers for
+// a delivery of an optional category
+async function unsubscribeLinks(category: EmailCategory, delivery: Delivery): Promise<{ preferences: PreferencesLink; headers: Record<string, string> }> {
+  if (!PREFERENCES_SECRET || !PREFERENCES_URL) {
+    throw new PermanentDeliveryError('Unsubscribe links are not configured: EMAIL_PREFERENCES_SECRET and EMAIL_PREFERENCES_URL must be set')
+  }
+  if (!delivery.employee_id) {
+    throw new PermanentDeliveryError('Recipient is no longer in the employee directory')
+  }
+
+  const token = encodeURIComponent(await signPreferenceToken(PREFERENCES_SECRET, { employeeId: delivery.employee_id, category: category.id }))
+  return {
+    preferences: { categoryLabel: category.label, url: `${PREFERENCES_URL}?t=${token}` },
+    headers: unsubscribeHeaders(`${ONE_CLICK_ENDPOINT}?t=${token}`)
+  }
+}
+
+async function deliver(
+  supabaseClient: any,
+  transport: MailTransport,
+  campaign: CampaignContent,
+  category: EmailCategory,
+  files: MimeAttachment[],
+  trackingSettings: PillarTracking[],
+  timeoutMs: number,
+  delivery: Delivery
+): Promise<'done' | 'timed_out'> {
+  try {
+    // Validate employee email format
+    if (!EMAIL_FORMAT.test(delivery.recipient_email)) {
+      throw new PermanentDeliveryError('Invalid email format')
+    }
+
+    const links = category.mandatory ? null : await unsubscribeLinks(category, delivery)
+    const rendered = renderEmail(campaign.subject, campaign.content, delivery.recipient_name, delivery.merge_data, links?.preferences)
+    const tracking = trackingSettings.length > 0
+      ? trackingFor(campaign, trackingSettings, delivery.merge_data.pillar)
+      : NO_TRACKING
+    if (tracking.opens || tracking.clicks) {
+      rendered.html = await applyTracking(rendered.html, tracking, TRACKING_SECRET, TRACKING_ENDPOINT, delivery.id)
+    }
+
+    const result = await withSendTimeout(onHandoff => transport.send({
+      from: transport.from,
+      to: delivery.recipient_email,
+      ...rendered,
+      attachments: files,
+      ...(links && { headers: links.headers })
+    }, onHandoff), timeoutMs)
+
+    await supabaseClient
+      .from('email_deliveries')
+      .update({
+        status: 'sent',
+        provider_message_id: result.messageId,
+        track_opens: tracking.opens,
+        track_clicks: tracking.clicks,
+        last_error: null,
+        next_attempt_at: null,
+        locked_until: null,
+        sent_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', delivery.id)
+    return 'done'
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const retry = shouldRetry(error, delivery.attempt_count)
+    console.error(`Failed to send email to ${delivery.recipient_email} (attempt ${delivery.attempt_count}${retry ? ', will retry' : ''}):`, message)
+
+    await supabaseClient
+      .from('email_deliveries')
+      .update({
+        status: retry ? 'queued' : 'failed',
+        last_error: message.substring(0, 500),
+        next_attempt_at: retry ? new Date(Date.now() + retryDelayMs(delivery.attempt_count)).toISOString() : null,
+        locked_until: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', delivery.id)
+    return error instanceof SendTimeoutError ? 'timed_out' : 'done'
+  }
+}
+
+// Hand claimed deliveries that were never attempted back to the queue, without using up an attempt
+async function releaseDeliveries(supabaseClient: any, deliveries: Delivery[]) {
+  await Promise.all(deliveries.map(delivery =>
+    supabaseClient
+      .from('email_deliveries')
+      .update({
+        status: 'queued',
+        attempt_count: delivery.attempt_count - 1,
+        locked_until: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', delivery.id)
+  ))
+}
+
+// Send queued deliveries of one campaign in batches until the queue is empty
+// or the deadline (epoch ms) is too close to start another batch
+export async function drainCampaign(supabaseClient: any, transport: MailTransport, campaignId: string, deadline: number): Promise<CampaignProgress> {
+  const { data: campaign, error: campaignError } = await supabaseClient
+    .from('email_campaigns')
+    .select('id, subject, content, category, attachments, approval_required, reviewed_by, confidential, track_opens, track_clicks')
+    .eq('id', campaignId)
+    .single()
+
+  if (campaignError || !campaign) {
+    throw new Error(`Campaign ${campaignId} not found`)
+  }
+  // Never send a campaign that still waits for (or failed) its approval
+  if (campaign.approval_required && !campaign.reviewed_by) {
+    throw new Error(`Campaign ${campaignId} has not been approved`)
+  }
+
+  // Fetched once per drain and shared by every delivery
+  const category = await loadCategory(supabaseClient, campaign.category)
+  if (!category) {
+    throw new Error(`Campaign ${campaignId} has an unknown category`)
+  }
+  const files = await downloadAttachments(supabaseClient, campaign.attachments || [])
+  const trackingSettings = await loadTrackingSettings(supabaseClient, campaign)
+
+  const timeoutMs = sendTimeoutMs(files)
+  const concurrency = Math.min(transport.concurrency ?? BATCH_SIZE, BATCH_SIZE)
+  let draining = true
+  while (draining && Date.now() + timeoutMs < deadline) {
+    // Every round of sends takes at most timeoutMs
+    const rounds = Math.floor((deadline - Date.now()) / timeoutMs)
+    const { data: batch, error: claimError } = await supabaseClient.rpc('claim_email_deliveries', {
+      p_campaign_id: campaignId,
+      p_batch_size: Math.min(BATCH_SIZE, rounds * concurrency),
+      p_lease_seconds: LEASE_SECONDS,
+      p_max_attempts: MAX_ATTEMPTS
+    })
+
+    if (claimError) {
+      throw new Error(`Failed to claim deliveries: ${claimError.message}`)
+    }
+    if (!batch || batch.length === 0) {
+      break
+    }
+
+    for (let start = 0; start < batch.length; start += concurrency) {
+      const outcomes = await Promise.all(batch.slice(start, start + concurrency).map((delivery: Delivery) =>
+        deliver(supabaseClient, transport, campaign, category, files, trackingSettings, timeoutMs, delivery)))
+
+      // A transport that sends one message at a time is still busy with the
+      // one that timed out; later sends would only time out behind it
+      if (transport.concurrency !== undefined && outcomes.includes('timed_out')) {
+        await releaseDeliveries(supabaseClient, batch.slice(start + concurrency))
+        draining = false
+        break
+      }
+    }
+  }
+
+  const { data: progress, error: syncError } = await supabaseClient.rpc('sync_email_campaign', { p_campaign_id: campaignId })
+  if (syncError) {
+    throw new Error(`Failed to update campaign: ${syncError.message}`)
+  }
+
+  return {
+    id: progress.id,
+    status: progress.status,
+    transport: progress.transport,
+    total_recipients: progress.total_recipients,
+    sent_count: progress.sent_count,
+    failed_count: progress.failed_count,
+    suppressed_count: progress.suppressed_count
+  }
+}
@@ -0,0 +1,95 @@
+import { escapeHtml } from './sanitize.ts'
+import { markdownToText, renderMarkdown } from './markdown.ts'
+import { MergeValues, renderMergeFields } from './merge-fields.ts'
+
+/*
+  The email every recipient receives: header, greeting, Markdown body and
+  footer, as HTML and as the plain-text alternative.
+
+  Shared with the dashboard (through the `@shared` alias) so the preview
+  shows exactly the HTML the edge functions send. Keep it free of Deno and
+  browser APIs.
+*/
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+// Footer link of optional categories to the recipient's preferences page
+export interface PreferencesLink {
+  categoryLabel: string
+  url: string
+}
+
+export function renderEmailHtml(
+  recipientName: string,
+  content: string,
+  mergeData: Partial<MergeValues>,
+  preferences?: PreferencesLink
+): string {
+  // Markdown is rendered to the sanitizer's allow-listed HTML; merge fields are
+  // filled in afterwards with escaped values
+  const sanitizedContent = renderMergeFields(renderMarkdown(content), mergeData, escapeHtml)
+  const sanitizedName = escapeHtml(recipientName)
+  // The style attribute also keeps click tracking from rewriting the link (see tracking.ts)
+  const preferencesFooter = preferences
+    ? `<br>You are receiving this because you are subscribed to ${escapeHtml(preferences.categoryLabel)}.
+        <a href="${escapeHtml(preferences.url)}" style="color: #666;">Unsubscribe or manage your email preferences</a>`
+    : ''
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+      <div style="background-color: #f8f9fa; padding: 20px; border-bottom: 3px solid #d97706;">
+        <h2 style="color: #8B4513; margin: 0;">Message from Admin Portal</h2>
+      </div>
+      <div style="padding: 20px;">
+        <p>Dear ${sanitizedName},</p>
+        <div style="background-color: #FDF5E6; padding: 20px; border-left: 4px solid #D2B48C; margin: 20px 0; border-radius: 4px;">
+          ${sanitizedContent}
+        </div>
+        <p>Best regards,<br>Admin Portal Team</p>
+      </div>
+      <div style="background-color: #f8f9fa; padding: 10px; text-align: center; font-size: 12px; color: #666;">
+        This email was sent from the Corporate Communications Portal${preferencesFooter}
+      </div>
+    </div>
+  `
+}
+
+// Plain-text alternative with the same greeting and footer as the HTML
+export function renderEmailText(
+  recipientName: string,
+  content: string,
+  mergeData: Partial<MergeValues>,
+  preferences?: PreferencesLink
+): string {
+  const footer = preferences
+    ? `\nYou are receiving this because you are subscribed to ${preferences.categoryLabel}.` +
+      `\nUnsubscribe or manage your email preferences: ${preferences.url}`
+    : ''
+  return [
+    `Dear ${recipientName},`,
+    renderMergeFields(markdownToText(content), mergeData),
+    'Best regards,\nAdmin Portal Team',
+    `--\nThis email was sent from the Corporate Communications Portal${footer}`
+  ].join('\n\n')
+}
+
+// Everything a recipient sees: merge fields, Markdown body, greeting and footer.
+// Used for queued deliveries, test sends and the dashboard preview.
+export function renderEmail(
+  subject: string,
+  content: string,
+  recipientName: string,
+  mergeData: Partial<MergeValues>,
+  preferences?: PreferencesLink
+): RenderedEmail {
+  return {
+    // The subject is a plain-text header: no markup, no line breaks
+    subject: renderMergeFields(subject, mergeData).replace(/[\r\n]+/g, ' '),
+    html: renderEmailHtml(recipientName, content, mergeData, preferences),
+    text: renderEmailText(recipientName, content, mergeData, preferences)
+  }
+}
@@ -0,0 +1,97 @@
+import { findUnknownMergeFields } from './merge-fields.ts'
+
+/*
+  Checks on the content and send time of a campaign.
+
+  Used by send-email and manage-campaign, and by the dashboard (through the
+  `@shared` alias) for the schedule picker. Keep it free of Deno and browser APIs.
+*/
+
+// A scheduled send must leave the dispatcher a moment to pick it up, and not
+// sit in the queue indefinitely
+export const MIN_SCHEDULE_LEAD_MS = 60 * 1000
+export const MAX_SCHEDULE_AHEAD_DAYS = 90
+
+const SUSPICIOUS_PATTERNS = [
+  /<script/i,
+  /javascript:/i,
+  /on\w+\s*=/i,
+  /<iframe/i,
+  /<object/i,
+  /<embed/i,
+  /<form/i,
+  /data:/i,
+  /vbscript:/i,
+  /<link/i,
+  /<meta/i,
+  /eval\s*\(/i,
+  /expression\s*\(/i
+]
+
+// Enhanced input validation
+export function validateEmailInput(subject: string, content: string): string[] {
+  const errors: string[] = []
+
+  // Subject validation
+  if (!subject?.trim()) {
+    errors.push('Subject is required')
+  } else if (typeof subject !== 'string' || subject.length > 200) {
+    errors.push('Subject must be less than 200 characters')
+  }
+
+  // Content validation
+  if (!content?.trim()) {
+    errors.push('Content is required')
+  } else if (typeof content !== 'string' || content.length > 10000) {
+    errors.push('Content must be less than 10,000 characters')
+  }
+
+  // Check for suspicious patterns
+  const combinedText = `${subject} ${content}`
+  for (const pattern of SUSPICIOUS_PATTERNS) {
+    if (pattern.test(combinedText)) {
+      errors.push('Content contains potentially unsafe elements')
+      break
+    }
+  }
+
+  // Anything left in {{...}} would be sent literally
+  const unknownFields = findUnknownMergeFields(String(subject ?? ''), String(content ?? ''))
+  if (unknownFields.length > 0) {
+    errors.push(`Unknown merge fields: ${unknownFields.join(', ')}`)
+  }
+
+  return errors
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone || timeZone.length > 64) {
+    return false
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Validate a send time (ISO 8601 instant) and the time zone it was picked in
+export function validateSchedule(scheduledFor: unknown, timeZone: unknown, now: number = Date.now()): string[] {
+  const errors: string[] = []
+
+  const time = typeof scheduledFor === 'string' && scheduledFor.length <= 40 ? Date.parse(scheduledFor) : NaN
+  if (Number.isNaN(time)) {
+    errors.push('Invalid send time')
+  } else if (time < now + MIN_SCHEDULE_LEAD_MS) {
+    errors.push('Send time must be at least a minute in the future')
+  } else if (time > now + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    errors.push(`Send time must be within ${MAX_SCHEDULE_AHEAD_DAYS} days`)
+  }
+
+  if (!isValidTimeZone(timeZone)) {
+    errors.push('Invalid time zone')
+  }
+
+  return errors
+}
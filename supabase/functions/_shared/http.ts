@@ -0,0 +1,36 @@
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Max-Age': '86400',
+}
+
+export function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(
+    JSON.stringify(body),
+    { 
+      status, 
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    }
+  )
+}
+
+// Secure error response function
+export function createErrorResponse(message: string, status: number = 400) {
+  // Generic error messages to prevent information disclosure
+  const genericMessages: { [key: number]: string } = {
+    400: 'Invalid request parameters',
+    401: 'Authentication required',
+    403: 'Access denied',
+    404: 'Resource not found',
+    405: 'Method not allowed',
+    409: 'Conflict with current state',
+    422: 'Attachment rejected',
+    429: 'Too many requests',
+    500: 'Internal server error'
+  }
+  
+  const responseMessage = genericMessages[status] || 'An error occurred'
+  
+  return jsonResponse({ error: responseMessage }, status)
+}
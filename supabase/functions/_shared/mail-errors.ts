@@ -0,0 +1,33 @@
+/*
+  Errors raised while handing a message to a mail transport.
+
+  Kept apart from mail-transport.ts, which pulls in the SMTP client, so the
+  retry policy can classify failures without loading any transport.
+*/
+
+export class MailTransportError extends Error {
+  // HTTP status from an API provider or reply code from an SMTP server
+  readonly code?: number
+  readonly protocol: 'http' | 'smtp'
+
+  constructor(message: string, code?: number, protocol: 'http' | 'smtp' = 'http') {
+    super(message)
+    this.name = 'MailTransportError'
+    this.code = code
+    this.protocol = protocol
+  }
+}
+
+// The transport didn't finish a send within its time budget. `handedOff`
+// tells whether the provider had started receiving the message by then.
+export class SendTimeoutError extends Error {
+  readonly handedOff: boolean
+
+  constructor(handedOff: boolean) {
+    super(handedOff
+      ? 'Email send timed out after the message was handed to the transport; it may still have been delivered, so it is not retried'
+      : 'Email send timed out before the message was handed to the transport')
+    this.name = 'SendTimeoutError'
+    this.handedOff = handedOff
+  }
+}
@@ -0,0 +1,292 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+import { attachmentBase64, buildMimeMessage, MimeAttachment } from './mime.ts'
+import { MailTransportError } from './mail-errors.ts'
+
+/*
+  Mail transports used by the edge functions.
+
+  The transport is picked explicitly with MAIL_TRANSPORT. A transport either
+  delivers the message or throws a MailTransportError - there is no silent
+  fallback, so callers can always tell whether mail actually left the building.
+
+    MAIL_TRANSPORT=smtp    SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_SECURE
+                           (falls back to smtp.gmail.com with GMAIL_USER / GMAIL_APP_PASSWORD)
+    MAIL_TRANSPORT=gmail   GMAIL_USER, GMAIL_CLIENT_ID, GMAIL_CLIENT_SECRET, GMAIL_REFRESH_TOKEN
+    MAIL_TRANSPORT=resend  RESEND_API_KEY, optional MAIL_HTTP_ENDPOINT for Resend-compatible APIs
+    MAIL_TRANSPORT=log     no configuration; messages are only written to the function log
+
+  MAIL_FROM sets the sender for every transport except gmail, which always
+  sends as GMAIL_USER.
+*/
+
+export type TransportName = 'smtp' | 'gmail' | 'resend' | 'log'
+
+export interface MailMessage {
+  from: string
+  to: string
+  subject: string
+  html: string
+  // Plain-text alternative of the HTML body
+  text: string
+  attachments?: MimeAttachment[]
+  // Extra header fields such as List-Unsubscribe (see preferences.ts)
+  headers?: Record<string, string>
+}
+
+export interface SendResult {
+  messageId: string
+  // 'sent' means a provider accepted the message, 'logged' means it was not delivered
+  status: 'sent' | 'logged'
+}
+
+export interface MailTransport {
+  readonly name: TransportName
+  // False for transports that never hand mail to a provider
+  readonly delivers: boolean
+  readonly from: string
+  // Messages that may be in flight at once; unset means no limit
+  readonly concurrency?: number
+  // `onHandoff` is called once the provider starts receiving the message;
+  // a send that fails or stalls before that has delivered nothing
+  send(message: MailMessage, onHandoff?: () => void): Promise<SendResult>
+  close?(): Promise<void>
+}
+
+export class TransportConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TransportConfigError'
+  }
+}
+
+type EnvReader = (key: string) => string | undefined
+
+function requireEnv(env: EnvReader, ...keys: string[]): string[] {
+  const missing = keys.filter(key => !env(key))
+  if (missing.length > 0) {
+    throw new TransportConfigError(`Missing mail transport configuration: ${missing.join(', ')}`)
+  }
+  return keys.map(key => env(key) as string)
+}
+
+// An SMTP reply line: code, then a space or (on continued lines) a dash
+const SMTP_REPLY = /^([45]\d{2})[ -]/m
+
+// A Message-ID in the sender's domain, e.g. <8f14e45f-...@example.com>
+function generateMessageId(from: string): string {
+  const domain = /@([^\s<>@]+)>?\s*$/.exec(from)?.[1] || 'localhost'
+  return `<${crypto.randomUUID()}@${domain}>`
+}
+
+class SmtpTransport implements MailTransport {
+  readonly name = 'smtp' as const
+  readonly delivers = true
+  // One connection sends one message at a time; more would only queue up behind it
+  readonly concurrency = 1
+  // Connected on the first send, so requests that never send mail never open a connection
+  private client: SMTPClient | null = null
+  // Whether the current connection has sent a message, i.e. connect, TLS and AUTH are done
+  private connected = false
+
+  constructor(readonly from: string, private host: string, private port: number, private user: string, private password: string, private tls: boolean) {}
+
+  async send(message: MailMessage, onHandoff?: () => void): Promise<SendResult> {
+    // denomailer does not surface the server's queue id, so the message carries
+    // our own Message-ID; relays and bounce reports quote it, which lets
+    // delivery events find the delivery
+    const messageId = generateMessageId(message.from)
+    try {
+      this.client ??= new SMTPClient({
+        connection: {
+          hostname: this.host,
+          port: this.port,
+          tls: this.tls,
+          auth: { username: this.user, password: this.password }
+        }
+      })
+      // denomailer connects inside the first send, so only later sends on the
+      // connection are known to be past connect, TLS and AUTH
+      if (this.connected) {
+        onHandoff?.()
+      }
+      await this.client.send({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+        headers: { ...message.headers, 'Message-ID': messageId },
+        attachments: (message.attachments || []).map(attachment => ({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          content: attachment.content,
+          encoding: 'binary' as const
+        }))
+      })
+      this.connected = true
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error)
+      // Keep the SMTP reply code so callers can tell 4xx deferrals from 5xx rejections.
+      // Only a reply line counts: numbers elsewhere (e.g. port 587) are not reply codes.
+      const reply = SMTP_REPLY.exec(detail)
+      throw new MailTransportError(`SMTP send failed: ${detail}`, reply ? Number(reply[1]) : undefined, 'smtp')
+    }
+
+    return { messageId, status: 'sent' }
+  }
+
+  async close() {
+    const client = this.client
+    this.client = null
+    this.connected = false
+    try {
+      await client?.close()
+    } catch (error) {
+      // Everything was sent or recorded by now; a failed QUIT changes nothing
+      console.error('Failed to close the SMTP connection:', error)
+    }
+  }
+}
+
+class GmailOAuthTransport implements MailTransport {
+  readonly name = 'gmail' as const
+  readonly delivers = true
+  private accessToken: string | null = null
+  private accessTokenExpiresAt = 0
+
+  constructor(readonly from: string, private clientId: string, private clientSecret: string, private refreshToken: string) {}
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt) {
+      return this.accessToken
+    }
+
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        refresh_token: this.refreshToken,
+        grant_type: 'refresh_token'
+      })
+    })
+
+    if (!response.ok) {
+      throw new MailTransportError('Gmail OAuth2 token refresh failed', response.status)
+    }
+
+    const token = await response.json()
+    this.accessToken = token.access_token
+    // Refresh a minute early so a token never expires mid-batch
+    this.accessTokenExpiresAt = Date.now() + (Number(token.expires_in || 3600) - 60) * 1000
+    return this.accessToken as string
+  }
+
+  async send(message: MailMessage, onHandoff?: () => void): Promise<SendResult> {
+    const accessToken = await this.getAccessToken()
+    onHandoff?.()
+    // The media upload endpoint takes the MIME message as is, so it is not
+    // encoded a second time and may be up to 35 MB instead of about 5 MB
+    const response = await fetch('https://gmail.googleapis.com/upload/gmail/v1/users/me/messages/send?uploadType=media', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'message/rfc822',
+      },
+      body: buildMimeMessage(message)
+    })
+
+    if (!response.ok) {
+      throw new MailTransportError('Gmail API rejected the message', response.status)
+    }
+
+    const result = await response.json()
+    return { messageId: result.id, status: 'sent' }
+  }
+}
+
+class ResendTransport implements MailTransport {
+  readonly name = 'resend' as const
+  readonly delivers = true
+
+  constructor(readonly from: string, private apiKey: string, private endpoint: string) {}
+
+  async send(message: MailMessage, onHandoff?: () => void): Promise<SendResult> {
+    onHandoff?.()
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        ...(message.headers && { headers: message.headers }),
+        attachments: (message.attachments || []).map(attachment => ({
+          filename: attachment.filename,
+          content: attachmentBase64(attachment)
+        }))
+      })
+    })
+
+    if (!response.ok) {
+      throw new MailTransportError('Mail API rejected the message', response.status)
+    }
+
+    const result = await response.json()
+    return { messageId: result.id, status: 'sent' }
+  }
+}
+
+class LogTransport implements MailTransport {
+  readonly name = 'log' as const
+  readonly delivers = false
+
+  constructor(readonly from: string) {}
+
+  send(message: MailMessage): Promise<SendResult> {
+    const messageId = `log_${crypto.randomUUID()}`
+    console.log(`📧 LOG-ONLY TRANSPORT - not delivered - ${messageId}`)
+    console.log(`To: ${message.to} | Subject: ${message.subject} | HTML length: ${message.html.length} | Text length: ${message.text.length} | Attachments: ${message.attachments?.length ?? 0} | Headers: ${Object.keys(message.headers || {}).join(', ') || 'none'}`)
+    return Promise.resolve({ messageId, status: 'logged' })
+  }
+}
+
+// Build the transport named by MAIL_TRANSPORT. Defaults to the log-only transport
+// so an unconfigured deployment never pretends to have delivered anything.
+export function createTransportFromEnv(env: EnvReader = (key) => Deno.env.get(key)): MailTransport {
+  const name = (env('MAIL_TRANSPORT') || 'log').trim().toLowerCase()
+  const from = env('MAIL_FROM') || env('GMAIL_USER') || 'Admin Portal <no-reply@localhost>'
+
+  switch (name) {
+    case 'smtp': {
+      if (env('SMTP_HOST')) {
+        const [host, user, password] = requireEnv(env, 'SMTP_HOST', 'SMTP_USER', 'SMTP_PASSWORD')
+        const port = Number(env('SMTP_PORT') || 465)
+        // SMTP_SECURE=false switches to STARTTLS, which relays on port 587 usually expect
+        const tls = (env('SMTP_SECURE') || 'true').toLowerCase() !== 'false'
+        return new SmtpTransport(from, host, port, user, password, tls)
+      }
+      const [user, password] = requireEnv(env, 'GMAIL_USER', 'GMAIL_APP_PASSWORD')
+      return new SmtpTransport(from, 'smtp.gmail.com', 465, user, password, true)
+    }
+    case 'gmail': {
+      const [user, clientId, clientSecret, refreshToken] =
+        requireEnv(env, 'GMAIL_USER', 'GMAIL_CLIENT_ID', 'GMAIL_CLIENT_SECRET', 'GMAIL_REFRESH_TOKEN')
+      return new GmailOAuthTransport(user, clientId, clientSecret, refreshToken)
+    }
+    case 'resend': {
+      const [apiKey] = requireEnv(env, 'RESEND_API_KEY')
+      return new ResendTransport(from, apiKey, env('MAIL_HTTP_ENDPOINT') || 'https://api.resend.com/emails')
+    }
+    case 'log':
+      return new LogTransport(from)
+    default:
+      throw new TransportConfigError(`Unknown MAIL_TRANSPORT "${name}"`)
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { markdownToText, renderMarkdown } from './markdown.ts'
+
+describe('links', () => {
+  it('renders http, https and mailto links', () => {
+    expect(renderMarkdown('See [the handbook](https://example.com/handbook) or [HR](mailto:hr@example.com)'))
+      .toBe('<p>See <a href="https://example.com/handbook">the handbook</a> or <a href="mailto:hr@example.com">HR</a></p>')
+  })
+
+  it('keeps balanced parentheses in the destination', () => {
+    expect(renderMarkdown('[Foo](https://en.wikipedia.org/wiki/Foo_(bar))'))
+      .toBe('<p><a href="https://en.wikipedia.org/wiki/Foo_(bar)">Foo</a></p>')
+    expect(renderMarkdown('[Foo](https://example.com/a\\(b)'))
+      .toBe('<p><a href="https://example.com/a(b">Foo</a></p>')
+  })
+
+  it('keeps only the text of a javascript: link, parentheses included', () => {
+    expect(renderMarkdown('[bad](javascript:alert(1))')).toBe('<p>bad</p>')
+    expect(renderMarkdown('[bad](javascript:alert((1)))')).toBe('<p>bad</p>')
+    expect(markdownToText('[bad](javascript:alert(1))')).toBe('bad')
+  })
+
+  it('does not treat unbalanced parentheses as a link', () => {
+    expect(renderMarkdown('[x](https://example.com/(a)')).not.toContain('<a')
+  })
+})
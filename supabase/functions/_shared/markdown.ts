@@ -0,0 +1,394 @@
+import { escapeHtml, isSafeUrl, sanitizeHtml } from './sanitize.ts'
+
+/*
+  Markdown for campaign content.
+
+  Shared with the dashboard (through the `@shared` alias) so the composer
+  preview and the sent email come from the same renderer. Keep it free of
+  Deno and browser APIs.
+
+  Supported syntax: paragraphs (a single newline is a line break), # to ###
+  headings, - / * / + and numbered lists (nested by indentation), > quotes,
+  ``` code blocks, --- rules, **bold**, *italic*, `code`, [links](https://...)
+  and <https://...> autolinks. Raw HTML is not interpreted; it is shown as
+  text. Links must use http, https or mailto, otherwise only their text is
+  kept. Merge field tokens such as {{first_name}} are left untouched.
+
+  The markdown is parsed into a small AST that can only express those
+  elements, and the rendered HTML is passed through the allow-list sanitizer
+  as a second line of defence.
+*/
+
+export type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'code'; value: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' }
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: 1 | 2 | 3; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: BlockNode[][] }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'code_block'; value: string }
+  | { type: 'rule' }
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/
+const FENCE = /^ {0,3}```/
+const QUOTE = /^ {0,3}>\s?/
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])\s+(.*)$/
+const MERGE_TOKEN = /^\{\{\s*[a-zA-Z_][a-zA-Z0-9_]*\s*\}\}/
+const LINK_TEXT = /^\[([^\]\n]+)\]\(\s*/
+const AUTOLINK = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i
+const ESCAPABLE = '\\`*_{}[]()#+-.!>'
+
+const isBlank = (line: string) => line.trim() === ''
+const isWordChar = (ch: string | undefined) => !!ch && /[a-zA-Z0-9]/.test(ch)
+
+function startsBlock(line: string): boolean {
+  return HEADING.test(line) || RULE.test(line) || FENCE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line)
+}
+
+// [text](destination) at the start of `text`. As in CommonMark the destination
+// may contain balanced or backslash-escaped parentheses, e.g. wiki/Foo_(bar)
+function parseLink(text: string): { label: string; href: string; length: number } | null {
+  const open = LINK_TEXT.exec(text)
+  if (!open) return null
+
+  let href = ''
+  let depth = 0
+  let i = open[0].length
+  for (; i < text.length; i++) {
+    const ch = text[i]
+    if (ch === '\\' && '()'.includes(text[i + 1] ?? '')) {
+      href += text[++i]
+      continue
+    }
+    if (/\s/.test(ch) || (ch === ')' && depth === 0)) break
+    if (ch === '(') depth++
+    if (ch === ')') depth--
+    href += ch
+  }
+
+  while (i < text.length && /\s/.test(text[i])) i++
+  if (!href || depth !== 0 || text[i] !== ')') return null
+  return { label: open[1], href, length: i + 1 }
+}
+
+// Closing emphasis marker at or after `from`; -1 when there is none
+function findClosing(text: string, marker: string, from: number): number {
+  let at = text.indexOf(marker, from)
+  while (at !== -1) {
+    const after = text[at + marker.length]
+    const single = marker.length === 1 && (after === marker || text[at - 1] === marker)
+    const intraword = marker[0] === '_' && isWordChar(after)
+    if (!single && !intraword && !/\s/.test(text[at - 1] ?? ' ')) {
+      return at
+    }
+    at = text.indexOf(marker, at + 1)
+  }
+  return -1
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = []
+  let buffer = ''
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', value: buffer })
+    buffer = ''
+  }
+
+  let i = 0
+  while (i < text.length) {
+    const ch = text[i]
+    const rest = text.slice(i)
+
+    if (ch === '\\' && ESCAPABLE.includes(text[i + 1] ?? '')) {
+      buffer += text[i + 1]
+      i += 2
+      continue
+    }
+    if (ch === '\n') {
+      flush()
+      nodes.push({ type: 'break' })
+      i++
+      continue
+    }
+
+    const token = MERGE_TOKEN.exec(rest)
+    if (token) {
+      buffer += token[0]
+      i += token[0].length
+      continue
+    }
+
+    if (ch === '`') {
+      const end = text.indexOf('`', i + 1)
+      if (end > i + 1) {
+        flush()
+        nodes.push({ type: 'code', value: text.slice(i + 1, end) })
+        i = end + 1
+        continue
+      }
+    }
+
+    if (ch === '[') {
+      const link = parseLink(rest)
+      if (link) {
+        flush()
+        const children = parseInline(link.label)
+        if (isSafeUrl(link.href)) {
+          nodes.push({ type: 'link', href: link.href, children })
+        } else {
+          nodes.push(...children)
+        }
+        i += link.length
+        continue
+      }
+    }
+
+    if (ch === '<') {
+      const autolink = AUTOLINK.exec(rest)
+      if (autolink) {
+        flush()
+        nodes.push({ type: 'link', href: autolink[1], children: [{ type: 'text', value: autolink[1] }] })
+        i += autolink[0].length
+        continue
+      }
+    }
+
+    if (ch === '*' || ch === '_') {
+      const marker = text[i + 1] === ch ? ch + ch : ch
+      const start = i + marker.length
+      const opens = !(ch === '_' && isWordChar(text[i - 1])) && !/\s/.test(text[start] ?? ' ')
+      const end = opens ? findClosing(text, marker, start + 1) : -1
+      if (end !== -1) {
+        flush()
+        nodes.push({ type: marker.length === 2 ? 'strong' : 'em', children: parseInline(text.slice(start, end)) })
+        i = end + marker.length
+        continue
+      }
+    }
+
+    buffer += ch
+    i++
+  }
+
+  flush()
+  return nodes
+}
+
+function parseList(lines: string[], start: number): { node: BlockNode; next: number } {
+  const first = LIST_ITEM.exec(lines[start])
+  const ordered = /\d/.test(first[2])
+  const indent = first[1].length
+  const items: BlockNode[][] = []
+  let current: string[] = []
+  let i = start
+
+  while (i < lines.length) {
+    const line = lines[i]
+    const item = LIST_ITEM.exec(line)
+
+    if (item && item[1].length === indent) {
+      if (/\d/.test(item[2]) !== ordered) break
+      if (i > start) items.push(parseBlocks(current))
+      current = [item[3]]
+      i++
+      continue
+    }
+    if (isBlank(line)) {
+      // A blank line ends the list unless the next line is still part of it
+      const following = lines[i + 1]
+      if (following === undefined || !/^\s/.test(following) && !LIST_ITEM.test(following)) break
+      current.push('')
+      i++
+      continue
+    }
+    if (/^\s/.test(line) && line.search(/\S/) > indent) {
+      current.push(line.replace(/^\s{1,4}/, ''))
+      i++
+      continue
+    }
+    if (!startsBlock(line)) {
+      // Lazy continuation of the item's paragraph
+      current.push(line.trim())
+      i++
+      continue
+    }
+    break
+  }
+
+  items.push(parseBlocks(current))
+  return { node: { type: 'list', ordered, items }, next: i }
+}
+
+export function parseBlocks(lines: string[]): BlockNode[] {
+  const blocks: BlockNode[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (isBlank(line)) {
+      i++
+      continue
+    }
+
+    if (FENCE.test(line)) {
+      const body: string[] = []
+      i++
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        body.push(lines[i])
+        i++
+      }
+      blocks.push({ type: 'code_block', value: body.join('\n') })
+      i++
+      continue
+    }
+
+    const heading = HEADING.exec(line)
+    if (heading) {
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3
+      blocks.push({ type: 'heading', level, children: parseInline(heading[2]) })
+      i++
+      continue
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' })
+      i++
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ''))
+        i++
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) })
+      continue
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { node, next } = parseList(lines, i)
+      blocks.push(node)
+      i = next
+      continue
+    }
+
+    const paragraph: string[] = [line.trim()]
+    i++
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+      paragraph.push(lines[i].trim())
+      i++
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) })
+  }
+
+  return blocks
+}
+
+export function parseMarkdown(markdown: string): BlockNode[] {
+  return parseBlocks((markdown || '').replace(/\r\n?/g, '\n').split('\n'))
+}
+
+function renderInline(nodes: InlineNode[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return escapeHtml(node.value)
+      case 'strong':
+        return `<strong>${renderInline(node.children)}</strong>`
+      case 'em':
+        return `<em>${renderInline(node.children)}</em>`
+      case 'code':
+        return `<code>${escapeHtml(node.value)}</code>`
+      case 'link':
+        return `<a href="${escapeHtml(node.href)}">${renderInline(node.children)}</a>`
+      case 'break':
+        return '<br>'
+    }
+  }).join('')
+}
+
+function renderBlocks(blocks: BlockNode[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph':
+        return `<p>${renderInline(block.children)}</p>`
+      case 'heading':
+        return `<h${block.level}>${renderInline(block.children)}</h${block.level}>`
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul'
+        // Tight items (one paragraph, maybe followed by nested lists) render without <p>
+        const items = block.items.map(([head, ...tail]) =>
+          head?.type === 'paragraph' && tail.every(child => child.type === 'list')
+            ? `<li>${renderInline(head.children)}${renderBlocks(tail)}</li>`
+            : `<li>${renderBlocks(head ? [head, ...tail] : [])}</li>`
+        )
+        return `<${tag}>${items.join('')}</${tag}>`
+      }
+      case 'blockquote':
+        return `<blockquote>${renderBlocks(block.children)}</blockquote>`
+      case 'code_block':
+        return `<pre><code>${escapeHtml(block.value)}</code></pre>`
+      case 'rule':
+        return '<hr>'
+    }
+  }).join('\n')
+}
+
+// Markdown -> sanitized HTML fragment
+export function renderMarkdown(markdown: string): string {
+  return sanitizeHtml(renderBlocks(parseMarkdown(markdown)))
+}
+
+function inlineText(nodes: InlineNode[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.value
+      case 'strong':
+      case 'em':
+        return inlineText(node.children)
+      case 'link': {
+        const text = inlineText(node.children)
+        const href = node.href.replace(/^mailto:/i, '')
+        return text === node.href || text === href ? text : `${text} (${href})`
+      }
+      case 'break':
+        return '\n'
+    }
+  }).join('')
+}
+
+function blocksText(blocks: BlockNode[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph':
+      case 'heading':
+        return inlineText(block.children)
+      case 'list':
+        return block.items.map((item, index) =>
+          `${block.ordered ? `${index + 1}.` : '-'} ${item.map(child => blocksText([child])).join('\n').replace(/\n/g, '\n   ')}`
+        ).join('\n')
+      case 'blockquote':
+        return blocksText(block.children).split('\n').map(line => `> ${line}`).join('\n')
+      case 'code_block':
+        return block.value
+      case 'rule':
+        return '----------'
+    }
+  }).join('\n\n')
+}
+
+// Markdown -> readable plain text (links become "text (url)")
+export function markdownToText(markdown: string): string {
+  return blocksText(parseMarkdown(markdown))
+}
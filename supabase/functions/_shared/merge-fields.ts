@@ -0,0 +1,80 @@
+/*
+  Per-recipient merge fields such as {{first_name}} in a campaign's subject
+  and content.
+
+  Shared with the dashboard (through the `@shared` alias) so the composer
+  validates and previews exactly what the edge function renders. Keep it free
+  of Deno and browser APIs.
+
+  Values are captured when a campaign is queued (`email_deliveries.merge_data`)
+  and substituted after the text has been sanitized, escaping each value the
+  same way, so an employee record can never inject markup into an email.
+*/
+
+export const MERGE_FIELDS = ['name', 'first_name', 'pillar', 'level', 'employee_id'] as const
+
+export type MergeField = typeof MERGE_FIELDS[number]
+
+export type MergeValues = Record<MergeField, string>
+
+export interface MergeRecipient {
+  name: string
+  employee_id: number
+  pillar: string
+  level: string
+}
+
+export const MERGE_FIELD_DESCRIPTIONS: Record<MergeField, string> = {
+  name: 'Full name',
+  first_name: 'First name',
+  pillar: 'Pillar',
+  level: 'Level',
+  employee_id: 'Employee ID'
+}
+
+// Same token syntax as template placeholders: {{first_name}}, {{ pillar }}
+const TOKEN_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g
+
+export function isMergeField(name: string): name is MergeField {
+  return (MERGE_FIELDS as readonly string[]).includes(name)
+}
+
+export function mergeValues(recipient: MergeRecipient): MergeValues {
+  const name = (recipient.name || '').trim()
+  return {
+    name,
+    first_name: name.split(/\s+/)[0] || '',
+    pillar: recipient.pillar || '',
+    level: recipient.level || '',
+    employee_id: recipient.employee_id === undefined || recipient.employee_id === null ? '' : String(recipient.employee_id)
+  }
+}
+
+// Names inside {{...}} that are not merge fields, in order of first appearance
+export function findUnknownMergeFields(...texts: string[]): string[] {
+  const unknown = new Set<string>()
+  for (const text of texts) {
+    for (const match of (text || '').matchAll(TOKEN_PATTERN)) {
+      if (!isMergeField(match[1])) {
+        unknown.add(match[1])
+      }
+    }
+  }
+  return [...unknown]
+}
+
+// Remove merge field tokens, e.g. before counting special characters
+export function stripMergeFields(text: string): string {
+  return (text || '').replace(TOKEN_PATTERN, (token, name: string) => isMergeField(name) ? '' : token)
+}
+
+// Substitute merge fields; `escape` is applied to every value. Unknown tokens are left as they are.
+export function renderMergeFields(
+  text: string,
+  values: Partial<MergeValues>,
+  escape: (value: string) => string = value => value
+): string {
+  return (text || '').replace(TOKEN_PATTERN, (token, name: string) =>
+    isMergeField(name) ? escape(values[name] ?? '') : token
+  )
+}
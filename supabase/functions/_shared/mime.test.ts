@@ -0,0 +1,200 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  attachmentBase64,
+  buildMimeMessage,
+  chooseTransferEncoding,
+  encodeHeaderValue,
+  encodeQuotedPrintable
+} from './mime.ts'
+
+const BOUNDARY = '=_test'
+const DATE = new Date('2026-10-19T13:00:00Z')
+
+const decodeBase64 = (value: string) =>
+  Uint8Array.from(atob(value.replace(/\r\n/g, '')), ch => ch.charCodeAt(0))
+
+const decodeUtf8 = (bytes: Uint8Array) => new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+
+describe('encodeQuotedPrintable', () => {
+  it('adds soft line breaks so no line is longer than 76 characters', () => {
+    const encoded = encodeQuotedPrintable('a'.repeat(100))
+
+    expect(encoded).toBe(`${'a'.repeat(75)}=\r\n${'a'.repeat(25)}`)
+  })
+
+  it('does not split an escape sequence across a soft line break', () => {
+    const encoded = encodeQuotedPrintable(`${'a'.repeat(73)}é`)
+
+    expect(encoded).toBe(`${'a'.repeat(73)}=\r\n=C3=A9`)
+    for (const line of encoded.split('\r\n')) {
+      expect(line.length).toBeLessThanOrEqual(76)
+    }
+  })
+
+  it('escapes trailing whitespace and uses CRLF line breaks', () => {
+    expect(encodeQuotedPrintable('one \ntwo=2')).toBe('one=20\r\ntwo=3D2')
+  })
+})
+
+describe('encodeHeaderValue', () => {
+  it('leaves plain ASCII unchanged', () => {
+    expect(encodeHeaderValue('Quarterly update')).toBe('Quarterly update')
+  })
+
+  it('splits a multibyte subject into encoded words without cutting a character', () => {
+    const subject = 'Привет, команда! Итоги квартала и планы на следующий год'
+    const words = encodeHeaderValue(subject).split('\r\n ')
+
+    expect(words.length).toBeGreaterThan(1)
+    const chunks = words.map(word => {
+      expect(word.length).toBeLessThanOrEqual(75)
+      const match = /^=\?UTF-8\?B\?([A-Za-z0-9+/=]+)\?=$/.exec(word)
+      expect(match).not.toBeNull()
+      // Each word must decode on its own, i.e. hold only whole characters
+      return decodeUtf8(decodeBase64(match[1]))
+    })
+    expect(chunks.join('')).toBe(subject)
+  })
+})
+
+describe('chooseTransferEncoding', () => {
+  it('uses quoted-printable for mostly ASCII text', () => {
+    expect(chooseTransferEncoding('Café opens at 9')).toBe('quoted-printable')
+  })
+
+  it('switches to base64 for non-Latin text', () => {
+    expect(chooseTransferEncoding('Привет, команда')).toBe('base64')
+    expect(chooseTransferEncoding('チームの皆さんへ')).toBe('base64')
+  })
+})
+
+describe('buildMimeMessage', () => {
+  it('builds multipart/alternative with quoted-printable parts', () => {
+    const message = buildMimeMessage({
+      from: 'Portal Admin <admin@example.com>',
+      to: 'ana@example.com',
+      subject: 'Hello',
+      text: 'Hi Ana',
+      html: '<p>Hi Ana</p>',
+      date: DATE
+    }, { boundary: BOUNDARY })
+
+    expect(message).toBe([
+      'From: Portal Admin <admin@example.com>',
+      'To: ana@example.com',
+      'Subject: Hello',
+      'Date: Mon, 19 Oct 2026 13:00:00 +0000',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/alternative; boundary="=_test_alt"',
+      '',
+      '--=_test_alt',
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Hi Ana',
+      '--=_test_alt',
+      'Content-Type: text/html; charset=UTF-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      '<p>Hi Ana</p>',
+      '--=_test_alt--',
+      ''
+    ].join('\r\n'))
+  })
+
+  it('sends non-Latin bodies as base64', () => {
+    const text = 'Привет, команда'
+    const message = buildMimeMessage({
+      from: 'admin@example.com',
+      to: 'ana@example.com',
+      subject: 'Hello',
+      text,
+      html: `<p>${text}</p>`,
+      date: DATE
+    }, { boundary: BOUNDARY })
+
+    expect(message).toContain([
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    ].join('\r\n'))
+    expect(message).not.toContain('quoted-printable')
+  })
+
+  it('wraps the body in multipart/mixed with the attachment after it', () => {
+    const message = buildMimeMessage({
+      from: 'admin@example.com',
+      to: 'ana@example.com',
+      subject: 'Hello',
+      text: 'Hi',
+      html: '<p>Hi</p>',
+      date: DATE,
+      attachments: [{ filename: 'notes.txt', contentType: 'text/plain', content: new TextEncoder().encode('hello') }]
+    }, { boundary: BOUNDARY })
+
+    expect(message).toBe([
+      'From: admin@example.com',
+      'To: ana@example.com',
+      'Subject: Hello',
+      'Date: Mon, 19 Oct 2026 13:00:00 +0000',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="=_test_mix"',
+      '',
+      '--=_test_mix',
+      'Content-Type: multipart/alternative; boundary="=_test_alt"',
+      '',
+      '--=_test_alt',
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Hi',
+      '--=_test_alt',
+      'Content-Type: text/html; charset=UTF-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      '<p>Hi</p>',
+      '--=_test_alt--',
+      '--=_test_mix',
+      'Content-Type: text/plain; name="notes.txt"',
+      'Content-Disposition: attachment; filename="notes.txt"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      'aGVsbG8=',
+      '--=_test_mix--',
+      ''
+    ].join('\r\n'))
+  })
+
+  it('names non-ASCII attachments with an RFC 2231 filename* parameter', () => {
+    const message = buildMimeMessage({
+      from: 'admin@example.com',
+      to: 'ana@example.com',
+      subject: 'Hello',
+      text: 'Hi',
+      html: '<p>Hi</p>',
+      date: DATE,
+      attachments: [{ filename: 'Résumé (final).pdf', contentType: 'application/pdf', content: new Uint8Array([1, 2, 3]) }]
+    }, { boundary: BOUNDARY })
+
+    expect(message).toContain([
+      'Content-Disposition: attachment; filename="R_sum_ (final).pdf";',
+      " filename*=UTF-8''R%C3%A9sum%C3%A9%20%28final%29.pdf"
+    ].join('\r\n'))
+    expect(message).toContain(`Content-Type: application/pdf; name="${encodeHeaderValue('Résumé (final).pdf')}"`)
+  })
+
+  it('encodes each attachment once however many messages carry it', () => {
+    const attachment = { filename: 'notes.txt', contentType: 'text/plain', content: new TextEncoder().encode('hello') }
+    const base64 = vi.spyOn(globalThis, 'btoa')
+    try {
+      for (const to of ['ana@example.com', 'ben@example.com']) {
+        buildMimeMessage({ from: 'admin@example.com', to, subject: 'Hello', text: 'Hi', html: '<p>Hi</p>', date: DATE, attachments: [attachment] }, { boundary: BOUNDARY })
+      }
+      expect(attachmentBase64(attachment)).toBe('aGVsbG8=')
+      expect(base64).toHaveBeenCalledTimes(1)
+    } finally {
+      base64.mockRestore()
+    }
+  })
+})
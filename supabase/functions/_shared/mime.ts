@@ -0,0 +1,255 @@
+/*
+  MIME message builder (RFC 2045-2047, RFC 5322).
+
+  Used by transports that submit raw messages (the Gmail API). Builds a
+  multipart/alternative message with a text/plain part followed by the
+  text/html part, wrapped in multipart/mixed when files are attached.
+  Bodies are UTF-8, sent as quoted-printable when they are mostly ASCII
+  and base64 otherwise; header values that are not plain ASCII (subjects,
+  display names) become RFC 2047 encoded words. Every line ends in CRLF
+  and encoded body lines are at most 76 characters long.
+*/
+
+export interface MimeAttachment {
+  filename: string
+  contentType: string
+  content: Uint8Array
+}
+
+export interface MimeMessage {
+  from: string
+  to: string
+  subject: string
+  text: string
+  html: string
+  attachments?: MimeAttachment[]
+  date?: Date
+  // Extra header fields, e.g. List-Unsubscribe; values must be ASCII
+  headers?: Record<string, string>
+}
+
+export interface BuildOptions {
+  // Fixed boundary, e.g. for reproducible output; random by default
+  boundary?: string
+}
+
+export type TransferEncoding = 'quoted-printable' | 'base64'
+
+const CRLF = '\r\n'
+const MAX_LINE = 76
+// "=?UTF-8?B?" + "?=" leaves 63 characters, i.e. 45 bytes of base64 payload per word
+const ENCODED_WORD_BYTES = 45
+
+const encoder = new TextEncoder()
+
+const isPlainAscii = (value: string) => /^[\x20-\x7e]*$/.test(value)
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary)
+}
+
+// Split UTF-8 bytes into chunks of at most `size` bytes without cutting a character in half
+function splitUtf8(bytes: Uint8Array, size: number): Uint8Array[] {
+  const chunks: Uint8Array[] = []
+  let start = 0
+  while (start < bytes.length) {
+    let end = Math.min(start + size, bytes.length)
+    // Continuation bytes look like 10xxxxxx; back up to the start of the character
+    while (end < bytes.length && end > start && (bytes[end] & 0xc0) === 0x80) {
+      end--
+    }
+    chunks.push(bytes.subarray(start, end))
+    start = end
+  }
+  return chunks
+}
+
+// RFC 2047 encoded words for a header value; plain ASCII is returned unchanged
+export function encodeHeaderValue(value: string): string {
+  const clean = (value || '').replace(/[\r\n]+/g, ' ')
+  if (isPlainAscii(clean)) {
+    return clean
+  }
+  return splitUtf8(encoder.encode(clean), ENCODED_WORD_BYTES)
+    .map(chunk => `=?UTF-8?B?${toBase64(chunk)}?=`)
+    .join(`${CRLF} `)
+}
+
+// "Name <user@example.com>" with the display name quoted or encoded as needed
+export function formatAddress(address: string): string {
+  const match = /^\s*(.*?)\s*<([^<>\s]+)>\s*$/.exec(address || '')
+  if (!match) {
+    return (address || '').trim()
+  }
+
+  const name = match[1].replace(/^"(.*)"$/, '$1').replace(/[\r\n]+/g, ' ')
+  const email = match[2]
+  if (!name) {
+    return `<${email}>`
+  }
+  if (!isPlainAscii(name)) {
+    return `${encodeHeaderValue(name)} <${email}>`
+  }
+  // Quote names containing RFC 5322 specials, e.g. "Portal, Admin"
+  return /[()<>[\]:;@\\,."]/.test(name)
+    ? `"${name.replace(/(["\\])/g, '\\$1')}" <${email}>`
+    : `${name} <${email}>`
+}
+
+// Quoted-printable (RFC 2045 6.7) for UTF-8 text; line breaks become CRLF
+export function encodeQuotedPrintable(text: string): string {
+  const lines = (text || '').replace(/\r\n?/g, '\n').split('\n')
+
+  return lines.map(line => {
+    const bytes = encoder.encode(line)
+    let output = ''
+    let current = ''
+
+    bytes.forEach((byte, index) => {
+      const last = index === bytes.length - 1
+      // Printable ASCII except "=", plus spaces and tabs that are not at the end of the line
+      const literal = (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !last)
+      const token = literal ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`
+
+      // Leave room for the "=" of a soft line break
+      if (current.length + token.length > MAX_LINE - 1) {
+        output += `${current}=${CRLF}`
+        current = ''
+      }
+      current += token
+    })
+
+    return output + current
+  }).join(CRLF)
+}
+
+function wrapBase64(encoded: string): string {
+  const lines: string[] = []
+  for (let i = 0; i < encoded.length; i += MAX_LINE) {
+    lines.push(encoded.slice(i, i + MAX_LINE))
+  }
+  return lines.join(CRLF)
+}
+
+// Base64 wrapped at 76 characters per line
+export function encodeBase64(content: string | Uint8Array): string {
+  return wrapBase64(toBase64(typeof content === 'string' ? encoder.encode(content || '') : content))
+}
+
+// A campaign sends the same files to every recipient; keyed by content so
+// each file is encoded once and the cache goes away with the downloaded file
+const attachmentCache = new WeakMap<Uint8Array, string>()
+
+// Unwrapped base64 of an attachment's content, as API providers expect it
+export function attachmentBase64(attachment: MimeAttachment): string {
+  let encoded = attachmentCache.get(attachment.content)
+  if (encoded === undefined) {
+    encoded = toBase64(attachment.content)
+    attachmentCache.set(attachment.content, encoded)
+  }
+  return encoded
+}
+
+// Quoted-printable stays readable and compact for mostly-ASCII text; base64 is
+// smaller once more than about a sixth of the bytes would need escaping
+export function chooseTransferEncoding(text: string): TransferEncoding {
+  const bytes = encoder.encode(text || '')
+  if (bytes.length === 0) {
+    return 'quoted-printable'
+  }
+  let escaped = 0
+  for (const byte of bytes) {
+    if (byte > 126 || (byte < 32 && byte !== 9 && byte !== 10 && byte !== 13)) {
+      escaped++
+    }
+  }
+  return escaped / bytes.length > 1 / 6 ? 'base64' : 'quoted-printable'
+}
+
+function bodyPart(contentType: string, content: string): string {
+  const encoding = chooseTransferEncoding(content)
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    `Content-Transfer-Encoding: ${encoding}`,
+    '',
+    encoding === 'base64' ? encodeBase64(content) : encodeQuotedPrintable(content)
+  ].join(CRLF)
+}
+
+// Attachment file name as a quoted ASCII fallback plus an RFC 2231 UTF-8 parameter when needed
+function fileNameParameters(filename: string): { name: string; disposition: string } {
+  const clean = (filename || 'attachment').replace(/[\r\n"\\]/g, '')
+  if (isPlainAscii(clean)) {
+    return { name: `name="${clean}"`, disposition: `filename="${clean}"` }
+  }
+  const fallback = clean.replace(/[^\x20-\x7e]/g, '_')
+  const encoded = encodeURIComponent(clean).replace(/['()*]/g, ch => `%${ch.charCodeAt(0).toString(16).toUpperCase()}`)
+  return {
+    name: `name="${encodeHeaderValue(clean)}"`,
+    disposition: `filename="${fallback}";${CRLF} filename*=UTF-8''${encoded}`
+  }
+}
+
+function attachmentPart(attachment: MimeAttachment): string {
+  const { name, disposition } = fileNameParameters(attachment.filename)
+  return [
+    `Content-Type: ${attachment.contentType}; ${name}`,
+    `Content-Disposition: attachment; ${disposition}`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(attachmentBase64(attachment))
+  ].join(CRLF)
+}
+
+// RFC 5322 date, e.g. "Mon, 19 Oct 2026 13:00:00 +0000"
+export function formatDate(date: Date): string {
+  const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${days[date.getUTCDay()]}, ${pad(date.getUTCDate())} ${months[date.getUTCMonth()]} ${date.getUTCFullYear()} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`
+}
+
+export function buildMimeMessage(message: MimeMessage, options: BuildOptions = {}): string {
+  // "=_" never occurs in quoted-printable or base64 output, so it cannot clash with a body
+  const boundary = options.boundary || `=_${crypto.randomUUID().replace(/-/g, '')}`
+  const attachments = message.attachments || []
+
+  const headers = [
+    `From: ${formatAddress(message.from)}`,
+    `To: ${formatAddress(message.to)}`,
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${formatDate(message.date || new Date())}`,
+    ...Object.entries(message.headers || {}).map(([name, value]) => `${name}: ${value.replace(/[\r\n]+/g, ' ')}`),
+    'MIME-Version: 1.0'
+  ]
+
+  const alternative = [
+    `Content-Type: multipart/alternative; boundary="${boundary}_alt"`,
+    '',
+    `--${boundary}_alt`,
+    bodyPart('text/plain', message.text),
+    `--${boundary}_alt`,
+    bodyPart('text/html', message.html),
+    `--${boundary}_alt--`
+  ].join(CRLF)
+
+  if (attachments.length === 0) {
+    return [...headers, alternative, ''].join(CRLF)
+  }
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}_mix"`,
+    '',
+    `--${boundary}_mix`,
+    alternative,
+    ...attachments.flatMap(attachment => [`--${boundary}_mix`, attachmentPart(attachment)]),
+    `--${boundary}_mix--`,
+    ''
+  ].join(CRLF)
+}
@@ -0,0 +1,94 @@
+import { signToken, verifyToken } from './signed-token.ts'
+import { Suppression } from './suppressions.ts'
+
+/*
+  Email categories and employees' opt-outs (`email_categories`,
+  `email_category_opt_outs`).
+
+  Every campaign has a category. Mandatory ones (company announcements)
+  reach every employee; optional ones skip employees who opted out of the
+  category, and every message of an optional category carries a link to
+  the public preferences page plus `List-Unsubscribe` /
+  `List-Unsubscribe-Post` headers (RFC 8058) for one-click unsubscribe in
+  the mail client.
+
+  Both links carry the same token, signed with EMAIL_PREFERENCES_SECRET (see
+  signed-token.ts) and holding [employeeId, category]. It lets the holder
+  manage that employee's preferences; one-click unsubscribe only ever
+  applies to the category of the email the link came from.
+*/
+
+export interface EmailCategory {
+  id: string
+  label: string
+  description: string
+  mandatory: boolean
+}
+
+export interface PreferenceToken {
+  employeeId: string
+  // The category of the email the link came from
+  category: string
+}
+
+// Sends that don't name a category; mandatory
+export const DEFAULT_CATEGORY = 'announcements'
+
+export const CATEGORY_ID_PATTERN = /^[a-z][a-z0-9_]{0,49}$/
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// The form field a one-click unsubscribe posts (RFC 8058)
+export const ONE_CLICK_FIELD = 'List-Unsubscribe'
+export const ONE_CLICK_VALUE = 'One-Click'
+export const ONE_CLICK_BODY = `${ONE_CLICK_FIELD}=${ONE_CLICK_VALUE}`
+
+export async function signPreferenceToken(secret: string, token: PreferenceToken): Promise<string> {
+  return await signToken(secret, [token.employeeId, token.category])
+}
+
+// null for anything that isn't a well-formed preference token signed with `secret`
+export async function verifyPreferenceToken(secret: string, value: string | null): Promise<PreferenceToken | null> {
+  const values = await verifyToken(secret, value)
+  if (!values) {
+    return null
+  }
+
+  const [employeeId, category] = values
+  if (typeof employeeId !== 'string' || !UUID_PATTERN.test(employeeId)) {
+    return null
+  }
+  if (typeof category !== 'string' || !CATEGORY_ID_PATTERN.test(category)) {
+    return null
+  }
+  return { employeeId, category }
+}
+
+// The recipients who opted out of `category` as suppressions, so they can be
+// skipped and recorded together with the suppression list (see partitionSuppressed)
+export function optOutSuppressions<T extends { id: string; email: string }>(
+  recipients: T[],
+  optedOut: string[],
+  category: EmailCategory
+): Suppression[] {
+  if (category.mandatory || optedOut.length === 0) {
+    return []
+  }
+  const employeeIds = new Set(optedOut)
+  return recipients
+    .filter(recipient => employeeIds.has(recipient.id))
+    .map(recipient => ({
+      email: recipient.email,
+      reason: `Unsubscribed from ${category.label}`,
+      source: 'unsubscribe' as const,
+      expires_at: null
+    }))
+}
+
+// Headers for one-click unsubscribe; `oneClickUrl` must accept the POST of ONE_CLICK_BODY
+export function unsubscribeHeaders(oneClickUrl: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${oneClickUrl}>`,
+    'List-Unsubscribe-Post': ONE_CLICK_BODY
+  }
+}
@@ -0,0 +1,105 @@
+import { AudienceFilter, selectAudience } from './audience.ts'
+import { Recipient } from './email-queue.ts'
+import { Suppression } from './suppressions.ts'
+import { EmailCategory, optOutSuppressions } from './preferences.ts'
+
+// Upper bound on the recipients of one campaign, to prevent abuse
+export const MAX_RECIPIENTS = 500
+
+// Rows requested per page. The API caps every response at its `max_rows`
+// setting (1000 by default), so pages are read until one comes back empty
+// rather than trusting a short page to be the last.
+const PAGE_SIZE = 1000
+// Larger directories are refused rather than loaded in part
+const MAX_DIRECTORY_SIZE = 100000
+
+// Active employees selected by an audience filter, evaluated the same way as
+// the dashboard's audience builder
+export async function loadRecipients(supabaseClient: any, audience: AudienceFilter): Promise<Recipient[]> {
+  const directory: Recipient[] = []
+
+  // Paged by id rather than by offset, so employees added or removed
+  // meanwhile can't shift the pages
+  for (;;) {
+    let query = supabaseClient
+      .from('employees')
+      .select('id, name, email, employee_id, pillar, level')
+      .eq('active', true)
+      .order('id', { ascending: true })
+      .limit(PAGE_SIZE)
+    if (directory.length > 0) {
+      query = query.gt('id', directory[directory.length - 1].id)
+    }
+
+    const { data: page, error } = await query
+    if (error) {
+      throw new Error(`Failed to load employees: ${error.message}`)
+    }
+    if (!page || page.length === 0) {
+      break
+    }
+
+    directory.push(...page)
+    if (directory.length > MAX_DIRECTORY_SIZE) {
+      throw new Error(`The employee directory has more than ${MAX_DIRECTORY_SIZE} active employees`)
+    }
+  }
+
+  return selectAudience<Recipient>(directory, audience)
+}
+
+// Suppressions that haven't expired for the audience's addresses, for
+// partitionSuppressed. Filtered in the database, which returns them as one
+// JSON value, so the API row limit can't leave any out.
+export async function loadSuppressions(supabaseClient: any, audience: Recipient[]): Promise<Suppression[]> {
+  if (audience.length === 0) {
+    return []
+  }
+
+  const { data, error } = await supabaseClient.rpc('audience_suppressions', {
+    p_emails: audience.map(recipient => recipient.email)
+  })
+
+  if (error) {
+    throw new Error(`Failed to load email suppressions: ${error.message}`)
+  }
+
+  return data || []
+}
+
+// The category, or null when it doesn't exist
+export async function loadCategory(supabaseClient: any, categoryId: string): Promise<EmailCategory | null> {
+  const { data, error } = await supabaseClient
+    .from('email_categories')
+    .select('id, label, description, mandatory')
+    .eq('id', categoryId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load email category: ${error.message}`)
+  }
+
+  return data
+}
+
+// Everything that keeps audience members from receiving a campaign of
+// `category`: the suppression list and, for optional categories, opt-outs
+export async function loadExclusions(supabaseClient: any, audience: Recipient[], category: EmailCategory): Promise<Suppression[]> {
+  const suppressions = await loadSuppressions(supabaseClient, audience)
+  if (category.mandatory) {
+    return suppressions
+  }
+
+  // Only the audience's opt-outs, returned as one array like the suppressions
+  const { data: optedOut, error } = await supabaseClient.rpc('audience_opt_outs', {
+    p_category: category.id,
+    p_employee_ids: audience.map(recipient => recipient.id)
+  })
+
+  if (error) {
+    throw new Error(`Failed to load email opt-outs: ${error.message}`)
+  }
+
+  // Listed last so a bounce or complaint is reported over the opt-out
+  return [...optOutSuppressions(audience, optedOut || [], category), ...suppressions]
+}
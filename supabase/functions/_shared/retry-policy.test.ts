@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest'
+
+// retry-policy.ts reads its settings from the environment when it loads
+vi.hoisted(() => {
+  vi.stubGlobal('Deno', { env: { get: () => undefined } })
+})
+
+import { MailTransportError, SendTimeoutError } from './mail-errors.ts'
+import { isTransientFailure, MAX_ATTEMPTS, PermanentDeliveryError, shouldRetry } from './retry-policy.ts'
+
+describe('isTransientFailure', () => {
+  it('retries network errors, HTTP errors and SMTP deferrals', () => {
+    expect(isTransientFailure(new TypeError('fetch failed'))).toBe(true)
+    expect(isTransientFailure(new MailTransportError('Mail API rejected the message', 503))).toBe(true)
+    expect(isTransientFailure(new MailTransportError('SMTP send failed: 421 try later', 421, 'smtp'))).toBe(true)
+  })
+
+  it('does not retry SMTP rejections or permanent failures', () => {
+    expect(isTransientFailure(new MailTransportError('SMTP send failed: 550 no such user', 550, 'smtp'))).toBe(false)
+    expect(isTransientFailure(new PermanentDeliveryError('Invalid email format'))).toBe(false)
+  })
+
+  it('retries a timeout before the message was handed off', () => {
+    expect(isTransientFailure(new SendTimeoutError(false))).toBe(true)
+  })
+
+  it('does not retry a timeout after the message was handed off', () => {
+    expect(isTransientFailure(new SendTimeoutError(true))).toBe(false)
+  })
+})
+
+describe('shouldRetry', () => {
+  it('stops retrying timeouts at the attempt limit', () => {
+    expect(shouldRetry(new SendTimeoutError(false), MAX_ATTEMPTS - 1)).toBe(true)
+    expect(shouldRetry(new SendTimeoutError(false), MAX_ATTEMPTS)).toBe(false)
+  })
+})
@@ -0,0 +1,51 @@
+import { MailTransportError, SendTimeoutError } from './mail-errors.ts'
+
+/*
+  Retry policy for failed deliveries.
+
+  Transient failures (network errors, any HTTP error from an API provider,
+  SMTP 4xx deferrals, sends that time out before the message reaches the
+  provider) are retried with exponential backoff and jitter until
+  MAIL_MAX_ATTEMPTS is reached. Permanent failures (invalid recipient
+  address, SMTP 5xx rejections, sends that time out once the provider has
+  the message) are terminal on the first attempt.
+*/
+
+export const MAX_ATTEMPTS = Number(Deno.env.get('MAIL_MAX_ATTEMPTS') || 5)
+const BASE_DELAY_MS = Number(Deno.env.get('MAIL_RETRY_BASE_DELAY_MS') || 30000)
+const MAX_DELAY_MS = 60 * 60 * 1000
+
+// Raised for failures that no amount of retrying will fix
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentDeliveryError'
+  }
+}
+
+export function isTransientFailure(error: unknown): boolean {
+  if (error instanceof PermanentDeliveryError) {
+    return false
+  }
+  if (error instanceof SendTimeoutError) {
+    // Retrying a message the provider may already have could deliver it twice
+    return !error.handedOff
+  }
+  if (error instanceof MailTransportError) {
+    // SMTP 5xx means the server rejected the message for good
+    return !(error.protocol === 'smtp' && error.code !== undefined && error.code >= 500)
+  }
+  // Network errors
+  return true
+}
+
+// Delay before the next attempt, given how many attempts were already made.
+// Uses "equal jitter": half the exponential delay plus a random share of the other half.
+export function retryDelayMs(attemptCount: number): number {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attemptCount - 1))
+  return exponential / 2 + Math.random() * (exponential / 2)
+}
+
+export function shouldRetry(error: unknown, attemptCount: number): boolean {
+  return attemptCount < MAX_ATTEMPTS && isTransientFailure(error)
+}
@@ -0,0 +1,165 @@
+/*
+  Allow-list HTML sanitizer.
+
+  Shared with the dashboard (through the `@shared` alias), so the preview
+  shows exactly the markup the edge function sends. Keep it free of Deno and
+  browser APIs.
+
+  Only the tags in ALLOWED_TAGS survive, without attributes except `href` on
+  links, which must use an http, https or mailto URL. Unknown tags are
+  dropped but their text is kept; the contents of script-like elements are
+  dropped entirely. Everything else is escaped, and unclosed tags are closed,
+  so the output can be embedded in an email template as is.
+*/
+
+const ALLOWED_TAGS = new Set([
+  'a', 'b', 'blockquote', 'br', 'code', 'em', 'h1', 'h2', 'h3', 'hr',
+  'i', 'li', 'ol', 'p', 'pre', 'strong', 'u', 'ul'
+])
+
+const VOID_TAGS = new Set(['br', 'hr'])
+
+// Elements whose content is never text a reader should see
+const DROP_CONTENT_TAGS = new Set([
+  'script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript',
+  'textarea', 'title', 'head', 'svg', 'math', 'select'
+])
+
+const SAFE_URL = /^(https?:\/\/|mailto:)/i
+
+const TAG = /^<(\/?)([a-zA-Z][a-zA-Z0-9]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+const ENTITY = /^&(#\d{1,7}|#x[0-9a-fA-F]{1,6}|[a-zA-Z][a-zA-Z0-9]{1,31});/
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", colon: ':', tab: '\t', newline: '\n', nbsp: ' '
+}
+
+// Escape text for use in HTML content or a quoted attribute
+export function escapeHtml(input: string): string {
+  if (!input || typeof input !== 'string') return ''
+
+  return input
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#x27;')
+}
+
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#\d{1,7}|#x[0-9a-fA-F]{1,6}|[a-zA-Z]+);?/g, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : ''
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+// True for absolute http(s) and mailto URLs, after decoding entities and dropping
+// the control characters and whitespace browsers ignore inside a scheme
+export function isSafeUrl(url: string): boolean {
+  if (!url || typeof url !== 'string') return false
+  const normalized = Array.from(decodeEntities(url))
+    .filter(ch => ch > ' ' && ch !== '\u007f')
+    .join('')
+  return SAFE_URL.test(normalized)
+}
+
+function sanitizeAttributes(tag: string, source: string): string {
+  if (tag !== 'a') return ''
+
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    if (match[1].toLowerCase() !== 'href') continue
+    const href = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '').trim()
+    return isSafeUrl(href) ? ` href="${escapeHtml(href)}"` : ''
+  }
+  return ''
+}
+
+export function sanitizeHtml(input: string): string {
+  if (!input || typeof input !== 'string') return ''
+
+  let output = ''
+  const open: string[] = []
+  let i = 0
+
+  while (i < input.length) {
+    const ch = input[i]
+
+    if (ch === '&') {
+      // Keep well-formed entity references, escape stray ampersands
+      const entity = ENTITY.exec(input.slice(i, i + 40))
+      output += entity ? entity[0] : '&amp;'
+      i += entity ? entity[0].length : 1
+      continue
+    }
+
+    if (ch !== '<') {
+      output += ch === '>' ? '&gt;' : ch === '"' ? '&quot;' : ch
+      i++
+      continue
+    }
+
+    const rest = input.slice(i)
+
+    if (rest.startsWith('<!--')) {
+      const end = rest.indexOf('-->')
+      i += end === -1 ? rest.length : end + 3
+      continue
+    }
+
+    const tag = TAG.exec(rest)
+    if (!tag) {
+      output += '&lt;'
+      i++
+      continue
+    }
+
+    i += tag[0].length
+    const closing = tag[1] === '/'
+    const name = tag[2].toLowerCase()
+
+    if (DROP_CONTENT_TAGS.has(name)) {
+      if (!closing) {
+        const end = input.toLowerCase().indexOf(`</${name}`, i)
+        if (end === -1) {
+          i = input.length
+        } else {
+          const close = input.indexOf('>', end)
+          i = close === -1 ? input.length : close + 1
+        }
+      }
+      continue
+    }
+
+    if (!ALLOWED_TAGS.has(name)) continue
+
+    if (VOID_TAGS.has(name)) {
+      if (!closing) output += `<${name}>`
+      continue
+    }
+
+    if (closing) {
+      // Ignore close tags that don't match anything open; close what they skip over
+      const index = open.lastIndexOf(name)
+      if (index === -1) continue
+      while (open.length > index) {
+        output += `</${open.pop()}>`
+      }
+      continue
+    }
+
+    output += `<${name}${sanitizeAttributes(name, tag[3])}>`
+    open.push(name)
+  }
+
+  while (open.length > 0) {
+    output += `</${open.pop()}>`
+  }
+
+  return output
+}
+
+export const EMAIL_FORMAT = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
@@ -0,0 +1,122 @@
+import { logAdminAction } from './audit.ts'
+import { CampaignProgress, queueScheduledCampaign } from './email-queue.ts'
+import { loadCategory, loadExclusions, loadRecipients, MAX_RECIPIENTS } from './recipients.ts'
+import { partitionSuppressed } from './suppressions.ts'
+import { AudienceFilter } from './audience.ts'
+import { approvalPolicyFromEnv, approvalReasons } from './approval-policy.ts'
+
+/*
+  Dispatch of scheduled and approved campaigns.
+
+  process-email-queue runs this before draining: every `scheduled` or
+  `approved` campaign whose send time (if any) has passed is leased with
+  `claim_scheduled_campaigns`, its audience is resolved against the current
+  directory, the suppression list and the category's opt-outs and its
+  deliveries are queued, after which it is drained like any other campaign.
+  A campaign whose audience is now empty, entirely suppressed or
+  unsubscribed, or over the recipient limit is cancelled
+  instead, and a scheduled campaign that has grown past the
+  approval policy goes to the approval queue. When resolving fails the lease
+  simply expires and the next run retries.
+*/
+
+const DISPATCH_LIMIT = 10
+const DISPATCH_LEASE_SECONDS = 120
+
+interface DueCampaign {
+  id: string
+  status: 'scheduled' | 'approved'
+  created_by: string
+  audience: AudienceFilter
+  audience_label: string
+  category: string
+  scheduled_for: string | null
+}
+
+export async function dispatchDueCampaigns(supabaseClient: any, req: Request): Promise<CampaignProgress[]> {
+  const { data: due, error } = await supabaseClient.rpc('claim_scheduled_campaigns', {
+    p_limit: DISPATCH_LIMIT,
+    p_lease_seconds: DISPATCH_LEASE_SECONDS
+  })
+
+  if (error) {
+    throw new Error(`Failed to claim scheduled campaigns: ${error.message}`)
+  }
+
+  const dispatched: CampaignProgress[] = []
+  const policy = approvalPolicyFromEnv()
+
+  for (const scheduled of (due || []) as DueCampaign[]) {
+    try {
+      const category = await loadCategory(supabaseClient, scheduled.category)
+      if (!category) {
+        throw new Error(`Unknown email category ${scheduled.category}`)
+      }
+      const audience = await loadRecipients(supabaseClient, scheduled.audience)
+      const { sendable: recipients, suppressed } = partitionSuppressed(audience,
+        await loadExclusions(supabaseClient, audience, category))
+      const overLimit = audience.length > MAX_RECIPIENTS
+
+      const reasons = scheduled.status === 'scheduled' ? approvalReasons(policy, recipients) : []
+      if (reasons.length > 0 && !overLimit) {
+        await holdForApproval(supabaseClient, scheduled, reasons, recipients.length, req)
+        continue
+      }
+
+      let reason: string | undefined
+      if (audience.length === 0) {
+        reason = 'No recipients found'
+      } else if (overLimit) {
+        reason = `Too many recipients (${audience.length})`
+      } else if (recipients.length === 0) {
+        reason = 'All recipients are on the suppression list or unsubscribed'
+      }
+
+      const campaign = await queueScheduledCampaign(supabaseClient, scheduled.id,
+        reason ? [] : recipients, overLimit ? [] : suppressed, reason)
+      dispatched.push(campaign)
+
+      // Logged on behalf of the admin who scheduled it
+      await logAdminAction(supabaseClient, scheduled.created_by,
+        reason ? 'email_scheduled_send_cancelled' : 'email_scheduled_send_started', {
+          campaignId: scheduled.id,
+          audienceLabel: scheduled.audience_label,
+          scheduledFor: scheduled.scheduled_for,
+          recipientCount: recipients.length,
+          suppressedCount: suppressed.length,
+          reason
+        }, req)
+    } catch (dispatchError) {
+      console.error(`Failed to dispatch scheduled campaign ${scheduled.id}:`, dispatchError)
+    }
+  }
+
+  return dispatched
+}
+
+async function holdForApproval(supabaseClient: any, scheduled: DueCampaign, reasons: string[], recipientCount: number, req: Request) {
+  const { error } = await supabaseClient
+    .from('email_campaigns')
+    .update({
+      status: 'pending_approval',
+      approval_required: true,
+      approval_reasons: reasons,
+      total_recipients: recipientCount,
+      dispatch_locked_until: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', scheduled.id)
+    .eq('status', 'scheduled')
+
+  if (error) {
+    throw new Error(`Failed to hold campaign for approval: ${error.message}`)
+  }
+
+  await logAdminAction(supabaseClient, scheduled.created_by, 'email_approval_requested', {
+    campaignId: scheduled.id,
+    audienceLabel: scheduled.audience_label,
+    scheduledFor: scheduled.scheduled_for,
+    recipientCount,
+    reasons
+  }, req)
+}
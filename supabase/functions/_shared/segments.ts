@@ -0,0 +1,55 @@
+/*
+  Saved audience segments (`audience_segments` / `audience_segment_versions`).
+
+  A segment only stores a filter definition; recipients are selected from
+  `employees` when a campaign is sent. Versions are immutable, so a
+  campaign's segment id + version identify exactly the definition it used.
+*/
+
+export interface SegmentDefinition {
+  id: string
+  name: string
+  version: number
+  definition: unknown
+}
+
+const UUID_FORMAT = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function isSegmentId(value: unknown): value is string {
+  return typeof value === 'string' && UUID_FORMAT.test(value)
+}
+
+// Current definition of an active (not archived) segment, or null if there is none
+export async function loadSegmentDefinition(supabaseClient: any, segmentId: string): Promise<SegmentDefinition | null> {
+  const { data: segment, error: segmentError } = await supabaseClient
+    .from('audience_segments')
+    .select('id, name, current_version')
+    .eq('id', segmentId)
+    .is('archived_at', null)
+    .maybeSingle()
+
+  if (segmentError) {
+    throw new Error(`Failed to load segment: ${segmentError.message}`)
+  }
+  if (!segment) {
+    return null
+  }
+
+  const { data: version, error: versionError } = await supabaseClient
+    .from('audience_segment_versions')
+    .select('version, definition')
+    .eq('segment_id', segment.id)
+    .eq('version', segment.current_version)
+    .single()
+
+  if (versionError || !version) {
+    throw new Error(`Failed to load segment version: ${versionError?.message}`)
+  }
+
+  return {
+    id: segment.id,
+    name: segment.name,
+    version: version.version,
+    definition: version.definition
+  }
+}
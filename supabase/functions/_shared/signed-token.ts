@@ -0,0 +1,50 @@
+import { hmacSha256Hex, timingSafeEqual } from './webhook-signature.ts'
+
+/*
+  Tokens for links in emails that are opened without signing in (tracking
+  links, unsubscribe and preference links):
+
+    base64url(JSON array of values) "." hex HMAC-SHA256 of that part
+
+  The values are readable by anyone holding the link; the signature only
+  proves they were issued with `secret`. Callers check the shape of the
+  values they get back.
+*/
+
+const MAX_TOKEN_LENGTH = 4096
+
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('')
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)))
+}
+
+export async function signToken(secret: string, values: unknown[]): Promise<string> {
+  const payload = toBase64Url(JSON.stringify(values))
+  return `${payload}.${await hmacSha256Hex(secret, payload)}`
+}
+
+// The signed values, or null for anything that isn't a well-formed token signed with `secret`
+export async function verifyToken(secret: string, value: string | null): Promise<unknown[] | null> {
+  if (!value || value.length > MAX_TOKEN_LENGTH) {
+    return null
+  }
+  const [payload, signature, ...rest] = value.split('.')
+  if (!payload || !signature || rest.length > 0) {
+    return null
+  }
+  if (!timingSafeEqual(await hmacSha256Hex(secret, payload), signature.toLowerCase())) {
+    return null
+  }
+
+  try {
+    const values = JSON.parse(fromBase64Url(payload))
+    return Array.isArray(values) ? values : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,61 @@
+/*
+  Addresses that must not be mailed (`email_suppressions`).
+
+  Entries are added by admins or by the email webhook on a hard bounce or a
+  complaint, and may expire. send-email and the dispatcher split every
+  audience into the recipients that are sent to and the suppressed ones,
+  which are recorded on the campaign but never delivered. The dashboard
+  preview uses the same split to show who will be skipped.
+*/
+
+export const SUPPRESSION_SOURCES = ['manual', 'bounce', 'complaint'] as const
+
+// 'unsubscribe' entries are not stored in the list; they stand for category
+// opt-outs (see preferences.ts)
+export type SuppressionSource = typeof SUPPRESSION_SOURCES[number] | 'unsubscribe'
+
+export interface Suppression {
+  email: string
+  reason: string
+  source: SuppressionSource
+  // ISO 8601 instant; null means permanent
+  expires_at: string | null
+}
+
+export type SuppressedRecipient<T> = T & { suppression: Suppression }
+
+export function isSuppressionActive(suppression: Suppression, now: Date = new Date()): boolean {
+  return !suppression.expires_at || new Date(suppression.expires_at) > now
+}
+
+// Addresses are compared case-insensitively; expired entries are ignored
+export function partitionSuppressed<T extends { email: string }>(
+  recipients: T[],
+  suppressions: Suppression[],
+  now: Date = new Date()
+): { sendable: T[]; suppressed: SuppressedRecipient<T>[] } {
+  const active = new Map<string, Suppression>()
+  for (const suppression of suppressions) {
+    if (isSuppressionActive(suppression, now)) {
+      active.set(suppression.email.toLowerCase(), suppression)
+    }
+  }
+
+  const sendable: T[] = []
+  const suppressed: SuppressedRecipient<T>[] = []
+  for (const recipient of recipients) {
+    const suppression = active.get(recipient.email.trim().toLowerCase())
+    if (suppression) {
+      suppressed.push({ ...recipient, suppression })
+    } else {
+      sendable.push(recipient)
+    }
+  }
+
+  return { sendable, suppressed }
+}
+
+export function describeSuppression(suppression: Suppression): string {
+  const source = suppression.source === 'bounce' || suppression.source === 'complaint' ? ` (${suppression.source})` : ''
+  return `${suppression.reason}${source}`
+}
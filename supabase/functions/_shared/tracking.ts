@@ -0,0 +1,112 @@
+import { decodeEntities, escapeHtml } from './sanitize.ts'
+import { signToken, verifyToken } from './signed-token.ts'
+
+/*
+  Open and click tracking, applied by the queue worker to each delivery.
+
+  Tracking is off unless the campaign asks for it *and* the recipient's
+  pillar allows it (`pillar_tracking_settings`; some works councils forbid
+  it), and never applies to confidential campaigns. When it applies, http(s)
+  links in the HTML part point at the `email-track` function instead, and an
+  open pixel is appended. The plain-text part is never rewritten.
+
+  Every tracking URL carries a token signed with EMAIL_TRACKING_SECRET (see
+  signed-token.ts) holding [deliveryId, event, url?], so nobody can count
+  events for another delivery, and the redirect only goes to URLs that were
+  in the message.
+*/
+
+export type TrackingEvent = 'open' | 'click'
+
+export interface TrackingFlags {
+  opens: boolean
+  clicks: boolean
+}
+
+export interface PillarTracking {
+  pillar: string
+  track_opens: boolean
+  track_clicks: boolean
+}
+
+export interface TrackedCampaign {
+  confidential: boolean
+  track_opens: boolean
+  track_clicks: boolean
+}
+
+export interface TrackingToken {
+  deliveryId: string
+  event: TrackingEvent
+  // Click tokens only: where the link goes
+  url?: string
+}
+
+export const NO_TRACKING: TrackingFlags = { opens: false, clicks: false }
+
+// What a delivery to an employee of `pillar` may track
+export function trackingFor(campaign: TrackedCampaign, settings: PillarTracking[], pillar: string | undefined): TrackingFlags {
+  if (campaign.confidential || !pillar) {
+    return NO_TRACKING
+  }
+  const allowed = settings.find(setting => setting.pillar === pillar)
+  return {
+    opens: campaign.track_opens && !!allowed?.track_opens,
+    clicks: campaign.track_clicks && !!allowed?.track_clicks
+  }
+}
+
+export async function signTrackingToken(secret: string, token: TrackingToken): Promise<string> {
+  return await signToken(secret, token.url ? [token.deliveryId, token.event, token.url] : [token.deliveryId, token.event])
+}
+
+// null for anything that isn't a well-formed tracking token signed with `secret`
+export async function verifyTrackingToken(secret: string, value: string | null): Promise<TrackingToken | null> {
+  const values = await verifyToken(secret, value)
+  if (!values) {
+    return null
+  }
+
+  const [deliveryId, event, url] = values
+  if (typeof deliveryId !== 'string' || (event !== 'open' && event !== 'click')) {
+    return null
+  }
+  if (event === 'open') {
+    return { deliveryId, event }
+  }
+  if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+    return null
+  }
+  return { deliveryId, event, url }
+}
+
+// Links as rendered by markdown.ts: <a href="..."> with an escaped URL. Links
+// with other attributes, like the footer's preferences link, are left alone.
+const LINK = /<a href="([^"]*)">/g
+
+// Rewrites the rendered HTML of one delivery; `endpoint` is the email-track function URL
+export async function applyTracking(
+  html: string,
+  flags: TrackingFlags,
+  secret: string,
+  endpoint: string,
+  deliveryId: string
+): Promise<string> {
+  const trackingUrl = async (token: TrackingToken) =>
+    escapeHtml(`${endpoint}?t=${encodeURIComponent(await signTrackingToken(secret, token))}`)
+
+  let tracked = html
+  if (flags.clicks) {
+    const links = [...new Set(Array.from(html.matchAll(LINK), match => match[1]))]
+    for (const href of links) {
+      const url = decodeEntities(href)
+      if (!/^https?:\/\//i.test(url)) continue
+      const rewritten = await trackingUrl({ deliveryId, event: 'click', url })
+      tracked = tracked.split(`<a href="${href}">`).join(`<a href="${rewritten}">`)
+    }
+  }
+  if (flags.opens) {
+    tracked += `<img src="${await trackingUrl({ deliveryId, event: 'open' })}" width="1" height="1" alt="" style="display: block; border: 0; width: 1px; height: 1px;">`
+  }
+  return tracked
+}
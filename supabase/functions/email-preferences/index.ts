@@ -0,0 +1,186 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, createErrorResponse, jsonResponse } from '../_shared/http.ts'
+import { EmailCategory, ONE_CLICK_FIELD, ONE_CLICK_VALUE, verifyPreferenceToken } from '../_shared/preferences.ts'
+
+/*
+  Employees' email preferences, opened from the links in optional emails
+  (see preferences.ts). Deployed without JWT verification: the signed token
+  is the only credential, and it only grants access to one employee's
+  category opt-outs.
+
+  One-click unsubscribe (RFC 8058), posted by mail clients to the
+  List-Unsubscribe URL:
+
+    POST /email-preferences?t=<token>
+    List-Unsubscribe=One-Click
+
+  unsubscribes from the category of the email the link came from. The form
+  may be URL-encoded or multipart/form-data; only its List-Unsubscribe
+  field is read.
+
+  The public preferences page:
+
+    POST /email-preferences
+    { "token": string, "preferences"?: { [categoryId]: boolean } }
+
+  applies the given subscriptions, if any, and returns the employee's first
+  name, the token's category and every category with whether they are
+  subscribed. Mandatory categories can't be unsubscribed from.
+*/
+
+const MAX_BODY_BYTES = 10 * 1024
+
+interface CategoryPreference extends EmailCategory {
+  subscribed: boolean
+}
+
+// Whether a form body, URL-encoded or multipart, has List-Unsubscribe=One-Click
+async function isOneClickForm(bodyText: string, contentType: string): Promise<boolean> {
+  if (!contentType.includes('multipart/form-data')) {
+    return new URLSearchParams(bodyText.trim()).get(ONE_CLICK_FIELD) === ONE_CLICK_VALUE
+  }
+  try {
+    const form = await new Response(bodyText, { headers: { 'Content-Type': contentType } }).formData()
+    return form.get(ONE_CLICK_FIELD) === ONE_CLICK_VALUE
+  } catch {
+    return false
+  }
+}
+
+async function setPreference(supabaseClient: any, employeeId: string, category: string, subscribed: boolean, source: string) {
+  const { error } = await supabaseClient.rpc('set_email_category_preference', {
+    p_employee_id: employeeId,
+    p_category: category,
+    p_subscribed: subscribed,
+    p_source: source
+  })
+  if (error) {
+    throw new Error(`Failed to update preference ${category} for ${employeeId}: ${error.message}`)
+  }
+}
+
+async function loadPreferences(supabaseClient: any, employeeId: string): Promise<CategoryPreference[]> {
+  const [categories, optOuts] = await Promise.all([
+    supabaseClient
+      .from('email_categories')
+      .select('id, label, description, mandatory')
+      .order('sort_order', { ascending: true }),
+    supabaseClient
+      .from('email_category_opt_outs')
+      .select('category')
+      .eq('employee_id', employeeId)
+  ])
+  if (categories.error || optOuts.error) {
+    throw new Error(`Failed to load preferences: ${(categories.error || optOuts.error).message}`)
+  }
+
+  const optedOut = new Set((optOuts.data || []).map((row: { category: string }) => row.category))
+  return (categories.data || []).map((category: EmailCategory) => ({
+    ...category,
+    subscribed: category.mandatory || !optedOut.has(category.id)
+  }))
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+  if (req.method !== 'POST') {
+    return createErrorResponse('Method not allowed', 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    const preferencesSecret = Deno.env.get('EMAIL_PREFERENCES_SECRET')
+
+    if (!supabaseUrl || !supabaseServiceKey || !preferencesSecret) {
+      console.error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and EMAIL_PREFERENCES_SECRET must be set.');
+      return createErrorResponse('Service configuration error: missing environment variables', 500)
+    }
+
+    const bodyText = await req.text()
+    if (bodyText.length > MAX_BODY_BYTES) {
+      return createErrorResponse('Invalid request format', 400)
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Mail clients post a form body, never JSON
+    const contentType = req.headers.get('content-type') || ''
+    if (!contentType.includes('application/json')) {
+      const token = await verifyPreferenceToken(preferencesSecret, new URL(req.url).searchParams.get('t'))
+      if (!token || !(await isOneClickForm(bodyText, contentType))) {
+        return createErrorResponse('Invalid link', 400)
+      }
+
+      const { data: employee } = await supabaseClient
+        .from('employees')
+        .select('id')
+        .eq('id', token.employeeId)
+        .maybeSingle()
+      if (!employee) {
+        return createErrorResponse('Invalid link', 404)
+      }
+
+      await setPreference(supabaseClient, token.employeeId, token.category, false, 'one_click')
+      return new Response('Unsubscribed', { headers: { ...corsHeaders, 'Content-Type': 'text/plain' } })
+    }
+
+    let body
+    try {
+      body = JSON.parse(bodyText)
+    } catch {
+      return createErrorResponse('Invalid request format', 400)
+    }
+
+    const token = await verifyPreferenceToken(preferencesSecret, typeof body?.token === 'string' ? body.token : null)
+    if (!token) {
+      return createErrorResponse('Invalid link', 401)
+    }
+
+    const { data: employee, error: employeeError } = await supabaseClient
+      .from('employees')
+      .select('id, name')
+      .eq('id', token.employeeId)
+      .maybeSingle()
+    if (employeeError) {
+      console.error('Database error:', employeeError)
+      return createErrorResponse('Database error', 500)
+    }
+    if (!employee) {
+      return createErrorResponse('Invalid link', 404)
+    }
+
+    const current = await loadPreferences(supabaseClient, employee.id)
+
+    const changes = body.preferences ?? {}
+    if (typeof changes !== 'object' || Array.isArray(changes)) {
+      return createErrorResponse('Invalid request format', 400)
+    }
+    for (const [categoryId, subscribed] of Object.entries(changes)) {
+      const category = current.find(preference => preference.id === categoryId)
+      if (!category || typeof subscribed !== 'boolean' || (category.mandatory && !subscribed)) {
+        return createErrorResponse('Invalid request parameters', 400)
+      }
+    }
+
+    for (const [categoryId, subscribed] of Object.entries(changes)) {
+      const category = current.find(preference => preference.id === categoryId)
+      if (category && !category.mandatory && category.subscribed !== subscribed) {
+        await setPreference(supabaseClient, employee.id, categoryId, subscribed as boolean, 'preferences')
+      }
+    }
+
+    return jsonResponse({
+      firstName: (employee.name || '').trim().split(/\s+/)[0] || '',
+      categories: Object.keys(changes).length > 0 ? await loadPreferences(supabaseClient, employee.id) : current,
+      // The category of the email the link came from, offered first on the page
+      category: token.category
+    })
+  } catch (error) {
+    console.error('Error in email-preferences function:', error)
+    return createErrorResponse('Internal server error', 500)
+  }
+})
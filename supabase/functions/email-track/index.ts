@@ -0,0 +1,75 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createErrorResponse } from '../_shared/http.ts'
+import { verifyTrackingToken } from '../_shared/tracking.ts'
+
+/*
+  Open pixel and click redirect for tracked emails (see tracking.ts).
+
+    GET /email-track?t=<signed token>
+
+  Opened from recipients' mail clients, so it is deployed without JWT
+  verification; the token signed with EMAIL_TRACKING_SECRET is the only
+  credential. Image requests always get the 1x1 GIF, even when the token
+  is bad or counting fails, so a broken pixel never shows up in a message.
+  Click tokens redirect to the URL inside the signed token and nowhere
+  else. Nothing about the request (IP address, user agent) is stored.
+*/
+
+// 1x1 transparent GIF
+const PIXEL = Uint8Array.from(atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'), ch => ch.charCodeAt(0))
+
+const NO_STORE = 'no-store, no-cache, must-revalidate, private'
+
+function pixelResponse(): Response {
+  return new Response(PIXEL, {
+    headers: { 'Content-Type': 'image/gif', 'Cache-Control': NO_STORE }
+  })
+}
+
+serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return createErrorResponse('Method not allowed', 405)
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  const trackingSecret = Deno.env.get('EMAIL_TRACKING_SECRET')
+
+  if (!supabaseUrl || !supabaseServiceKey || !trackingSecret) {
+    console.error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and EMAIL_TRACKING_SECRET must be set.');
+    return createErrorResponse('Service configuration error: missing environment variables', 500)
+  }
+
+  const token = await verifyTrackingToken(trackingSecret, new URL(req.url).searchParams.get('t'))
+  if (!token) {
+    // Without a valid token there is no safe place to redirect to
+    return req.headers.get('accept')?.includes('image/')
+      ? pixelResponse()
+      : createErrorResponse('Invalid link', 404)
+  }
+
+  try {
+    // Link scanners and image proxies often send HEAD first; only GETs count
+    if (req.method === 'GET') {
+      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+      const { error } = await supabaseClient.rpc('record_email_tracking', {
+        p_delivery_id: token.deliveryId,
+        p_event: token.event
+      })
+      if (error) {
+        console.error(`Failed to record ${token.event} for delivery ${token.deliveryId}:`, error.message)
+      }
+    }
+  } catch (error) {
+    console.error('Error in email-track function:', error)
+  }
+
+  if (token.event === 'click' && token.url) {
+    return new Response(null, {
+      status: 302,
+      headers: { Location: token.url, 'Cache-Control': NO_STORE }
+    })
+  }
+  return pixelResponse()
+})
@@ -0,0 +1,97 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createErrorResponse, jsonResponse } from '../_shared/http.ts'
+import { verifyWebhookSignature } from '../_shared/webhook-signature.ts'
+import { EmailEvent, parseEmailEvents } from '../_shared/email-events.ts'
+
+/*
+  Receives delivery events from the mail provider (see email-events.ts for
+  the body and webhook-signature.ts for the signature headers).
+
+  Called by the provider, not by a signed-in user, so the function is
+  deployed without JWT verification and every request must instead carry a
+  valid HMAC signature made with EMAIL_WEBHOOK_SECRET. Each event is applied
+  with `apply_email_event`: the matching delivery is updated, hard bounces
+  flag the employee's address, and redelivered events are ignored. Events
+  for unknown messages are stored but change nothing.
+*/
+
+const MAX_BODY_BYTES = 256 * 1024
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return createErrorResponse('Method not allowed', 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    const webhookSecret = Deno.env.get('EMAIL_WEBHOOK_SECRET')
+
+    if (!supabaseUrl || !supabaseServiceKey || !webhookSecret) {
+      console.error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and EMAIL_WEBHOOK_SECRET must be set.');
+      return createErrorResponse('Service configuration error: missing environment variables', 500)
+    }
+
+    const bodyText = await req.text()
+    if (!bodyText || bodyText.length > MAX_BODY_BYTES) {
+      return createErrorResponse('Invalid request format', 400)
+    }
+
+    const verified = await verifyWebhookSignature(
+      webhookSecret,
+      req.headers.get('x-webhook-timestamp'),
+      req.headers.get('x-webhook-signature'),
+      bodyText
+    )
+    if (!verified) {
+      // No admin to attribute this to, so it only goes to the function log
+      console.error('Rejected email webhook with a missing, stale or invalid signature')
+      return createErrorResponse('Invalid signature', 401)
+    }
+
+    let body
+    try {
+      body = JSON.parse(bodyText)
+    } catch {
+      return createErrorResponse('Invalid request format', 400)
+    }
+
+    const { events, errors } = parseEmailEvents(body)
+    if (errors.length > 0) {
+      console.error('Rejected email webhook events:', errors.slice(0, 10))
+      return createErrorResponse('Validation failed', 400)
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+    const outcomes: Record<string, number> = { applied: 0, duplicate: 0, unmatched: 0 }
+
+    for (const event of events) {
+      outcomes[await applyEvent(supabaseClient, event)]++
+    }
+
+    return jsonResponse({ success: true, received: events.length, ...outcomes })
+  } catch (error) {
+    console.error('Error in email-webhook function:', error)
+    // A 5xx makes the provider deliver the events again; already applied ones are skipped
+    return createErrorResponse('Internal server error', 500)
+  }
+})
+
+async function applyEvent(supabaseClient: any, event: EmailEvent): Promise<string> {
+  const { data: outcome, error } = await supabaseClient.rpc('apply_email_event', {
+    p_event_id: event.id,
+    p_event_type: event.type,
+    p_provider_message_id: event.messageId,
+    p_recipient_email: event.recipient,
+    p_occurred_at: event.occurredAt,
+    p_bounce_type: event.type === 'bounced' ? event.bounceType ?? 'hard' : null,
+    p_reason: event.reason ?? null,
+    p_payload: event
+  })
+
+  if (error) {
+    throw new Error(`Failed to apply email event ${event.id}: ${error.message}`)
+  }
+  return outcome
+}
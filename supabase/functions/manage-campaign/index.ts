@@ -0,0 +1,206 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, createErrorResponse, jsonResponse } from '../_shared/http.ts'
+import { escapeHtml } from '../_shared/sanitize.ts'
+import { logAdminAction } from '../_shared/audit.ts'
+import { authenticateUser, isAdminUser } from '../_shared/auth.ts'
+import { validateEmailInput, validateSchedule } from '../_shared/email-validation.ts'
+
+/*
+  Edits, cancels and reviews campaigns that haven't started (admins only).
+
+    { "campaignId": string, "action": "update", "subject": string,
+      "content": string, "scheduledFor": string, "timezone": string }
+    { "campaignId": string, "action": "cancel", "reason"?: string }
+    { "campaignId": string, "action": "approve", "comment"?: string }
+    { "campaignId": string, "action": "reject", "comment": string }
+
+  `update` applies to `scheduled` campaigns, `cancel` also to campaigns
+  waiting for or holding an approval, and `approve` / `reject` to
+  `pending_approval` campaigns of another admin. Campaigns being dispatched,
+  or already in another state, are answered with 409. Sent campaigns are
+  never touched here.
+*/
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const CAMPAIGN_COLUMNS = 'id, status, created_by, subject, content, audience_label, scheduled_for, schedule_timezone, ' +
+  'status_reason, cancelled_at, reviewed_by_email, reviewed_at, review_comment, updated_at'
+const ACTIONS = ['update', 'cancel', 'approve', 'reject']
+
+// Statuses each action can move a campaign out of
+const ALLOWED_STATUSES: Record<string, string[]> = {
+  update: ['scheduled'],
+  cancel: ['scheduled', 'pending_approval', 'approved'],
+  approve: ['pending_approval'],
+  reject: ['pending_approval']
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return createErrorResponse('Method not allowed', 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY must be set.');
+      return createErrorResponse('Service configuration error: missing environment variables', 500)
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+
+    const user = await authenticateUser(supabaseClient, req, 'unauthorized_campaign_change')
+    if (user instanceof Response) {
+      return user
+    }
+
+    if (!(await isAdminUser(supabaseClient, user.id))) {
+      await logAdminAction(supabaseClient, user.id, 'unauthorized_campaign_change',
+        { reason: 'Not an admin user' }, req)
+      return createErrorResponse('Access denied', 403)
+    }
+
+    let body
+    try {
+      const bodyText = await req.text()
+      if (!bodyText || bodyText.length > 50000) {
+        throw new Error('Invalid body size')
+      }
+      body = JSON.parse(bodyText)
+    } catch {
+      await logAdminAction(supabaseClient, user.id, 'invalid_request_body', {}, req)
+      return createErrorResponse('Invalid request format', 400)
+    }
+
+    const { campaignId, action } = body
+    if (typeof campaignId !== 'string' || !UUID_PATTERN.test(campaignId)) {
+      return createErrorResponse('Invalid campaign id', 400)
+    }
+    if (!ACTIONS.includes(action)) {
+      return createErrorResponse('Invalid action', 400)
+    }
+
+    const { data: current, error: loadError } = await supabaseClient
+      .from('email_campaigns')
+      .select(CAMPAIGN_COLUMNS)
+      .eq('id', campaignId)
+      .maybeSingle()
+
+    if (loadError) {
+      console.error('Database error:', loadError)
+      return createErrorResponse('Database error', 500)
+    }
+    if (!current) {
+      return createErrorResponse('Campaign not found', 404)
+    }
+
+    const comment = typeof body.comment === 'string' ? body.comment.trim().substring(0, 1000) : ''
+
+    // Two-person rule: nobody reviews their own campaign
+    if ((action === 'approve' || action === 'reject') && current.created_by === user.id) {
+      await logAdminAction(supabaseClient, user.id, 'email_self_review_blocked', { campaignId, action }, req)
+      return createErrorResponse('Access denied', 403)
+    }
+    if (action === 'reject' && !comment) {
+      return createErrorResponse('A comment is required to reject a campaign', 400)
+    }
+
+    let changes: Record<string, unknown>
+    if (action === 'update') {
+      const { subject, content, scheduledFor, timezone } = body
+      const validationErrors = [
+        ...validateEmailInput(subject, content),
+        ...validateSchedule(scheduledFor, timezone)
+      ]
+      if (validationErrors.length > 0) {
+        await logAdminAction(supabaseClient, user.id, 'email_validation_failed',
+          { campaignId, errors: validationErrors }, req)
+        return createErrorResponse('Validation failed', 400)
+      }
+
+      changes = {
+        subject,
+        content,
+        scheduled_for: new Date(scheduledFor).toISOString(),
+        schedule_timezone: timezone
+      }
+    } else if (action === 'approve' || action === 'reject') {
+      changes = {
+        status: action === 'approve' ? 'approved' : 'rejected',
+        reviewed_by: user.id,
+        reviewed_by_email: user.email ?? null,
+        reviewed_at: new Date().toISOString(),
+        review_comment: comment || null
+      }
+    } else {
+      const reason = typeof body.reason === 'string' && body.reason.trim()
+        ? body.reason.trim().substring(0, 200)
+        : 'Cancelled by an admin'
+      changes = {
+        status: 'cancelled',
+        status_reason: reason,
+        cancelled_at: new Date().toISOString(),
+        cancelled_by: user.id
+      }
+    }
+
+    // Only while the dispatcher hasn't picked the campaign up; the filters make
+    // the check and the change one statement
+    const { data: updated, error: updateError } = await supabaseClient
+      .from('email_campaigns')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', campaignId)
+      .in('status', ALLOWED_STATUSES[action])
+      .or(`dispatch_locked_until.is.null,dispatch_locked_until.lt."${new Date().toISOString()}"`)
+      .select(CAMPAIGN_COLUMNS)
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Database error:', updateError)
+      return createErrorResponse('Database error', 500)
+    }
+    if (!updated) {
+      await logAdminAction(supabaseClient, user.id, 'email_campaign_change_rejected',
+        { campaignId, action, status: current.status }, req)
+      return createErrorResponse('Campaign can no longer be changed', 409)
+    }
+
+    if (action === 'update') {
+      await logAdminAction(supabaseClient, user.id, 'email_schedule_updated', {
+        campaignId,
+        subject: escapeHtml(updated.subject).substring(0, 100),
+        subjectChanged: updated.subject !== current.subject,
+        contentChanged: updated.content !== current.content,
+        previousScheduledFor: current.scheduled_for,
+        scheduledFor: updated.scheduled_for,
+        timezone: updated.schedule_timezone
+      }, req)
+    } else if (action === 'approve' || action === 'reject') {
+      await logAdminAction(supabaseClient, user.id, action === 'approve' ? 'email_campaign_approved' : 'email_campaign_rejected', {
+        campaignId,
+        comment: updated.review_comment,
+        requestedBy: current.created_by,
+        subject: escapeHtml(updated.subject).substring(0, 100),
+        audienceLabel: updated.audience_label
+      }, req)
+    } else {
+      await logAdminAction(supabaseClient, user.id, 'email_schedule_cancelled', {
+        campaignId,
+        subject: escapeHtml(updated.subject).substring(0, 100),
+        scheduledFor: updated.scheduled_for,
+        reason: updated.status_reason
+      }, req)
+    }
+
+    return jsonResponse({ success: true, campaign: updated })
+  } catch (error) {
+    console.error('Error in manage-campaign function:', error)
+    return createErrorResponse('Internal server error', 500)
+  }
+})
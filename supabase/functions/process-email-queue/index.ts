@@ -0,0 +1,175 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createTransportFromEnv, MailTransport, TransportConfigError } from '../_shared/mail-transport.ts'
+import { corsHeaders, createErrorResponse, jsonResponse } from '../_shared/http.ts'
+import { logAdminAction } from '../_shared/audit.ts'
+import { authenticateUser, isAdminUser, isServiceRoleRequest } from '../_shared/auth.ts'
+import { CampaignProgress, drainCampaign } from '../_shared/email-queue.ts'
+import { dispatchDueCampaigns } from '../_shared/scheduler.ts'
+
+/*
+  Drains the email send queue.
+
+  Called by the dashboard (admin token) to keep a campaign moving while the
+  admin watches it, and on a schedule (service role key) so campaigns finish
+  even when nobody has the dashboard open. Body: `{ "campaignId"?: string }`;
+  without a campaign id, scheduled campaigns that are due are dispatched first
+  (see scheduler.ts) and then every queued or sending campaign is drained,
+  oldest first. Run it every minute so scheduled sends go out on time.
+
+  `{ "campaignId": string, "action": "retry_failed" }` (admins only) re-queues
+  every failed delivery of a past campaign before draining it.
+
+  A campaign that fails to drain is logged and skipped, so it doesn't hold
+  up the campaigns behind it; its deliveries stay queued for the next run.
+*/
+
+const WORKER_BUDGET_MS = Number(Deno.env.get('MAIL_WORKER_BUDGET_MS') || 25000)
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return createErrorResponse('Method not allowed', 405)
+  }
+
+  // Closed on every path below, including early returns and errors
+  let transport: MailTransport | null = null
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY must be set.');
+      return createErrorResponse('Service configuration error: missing environment variables', 500)
+    }
+
+    try {
+      transport = createTransportFromEnv()
+    } catch (error) {
+      if (error instanceof TransportConfigError) {
+        console.error(error.message)
+        return createErrorResponse('Service configuration error: mail transport', 500)
+      }
+      throw error
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+
+    let adminUserId: string | null = null
+    if (!isServiceRoleRequest(req, supabaseServiceKey)) {
+      const user = await authenticateUser(supabaseClient, req, 'unauthorized_queue_attempt')
+      if (user instanceof Response) {
+        return user
+      }
+      adminUserId = user.id
+      if (!(await isAdminUser(supabaseClient, user.id))) {
+        await logAdminAction(supabaseClient, user.id, 'unauthorized_queue_attempt',
+          { reason: 'Not an admin user' }, req)
+        return createErrorResponse('Access denied', 403)
+      }
+    }
+
+    let campaignId: string | undefined
+    let action = 'drain'
+    try {
+      const bodyText = await req.text()
+      if (bodyText.length > 1000) {
+        throw new Error('Invalid body size')
+      }
+      const body = bodyText ? JSON.parse(bodyText) : {}
+      campaignId = body.campaignId
+      action = body.action ?? 'drain'
+    } catch {
+      return createErrorResponse('Invalid request format', 400)
+    }
+
+    if (campaignId !== undefined && (typeof campaignId !== 'string' || !UUID_PATTERN.test(campaignId))) {
+      return createErrorResponse('Invalid campaign id', 400)
+    }
+    if (action !== 'drain' && action !== 'retry_failed') {
+      return createErrorResponse('Invalid action', 400)
+    }
+
+    if (action === 'retry_failed') {
+      // Retrying is an admin decision that belongs in the audit log, so it needs a user
+      if (!campaignId || !adminUserId) {
+        return createErrorResponse('Invalid retry request', 400)
+      }
+
+      const { data: requeued, error: retryError } = await supabaseClient.rpc('retry_failed_deliveries', { p_campaign_id: campaignId })
+      if (retryError) {
+        console.error('Database error:', retryError)
+        return createErrorResponse('Database error', 500)
+      }
+
+      await logAdminAction(supabaseClient, adminUserId, 'email_retry_failed_requested', {
+        campaignId,
+        requeuedCount: requeued
+      }, req)
+    }
+
+    if (!campaignId) {
+      await dispatchDueCampaigns(supabaseClient, req)
+    }
+
+    let query = supabaseClient
+      .from('email_campaigns')
+      .select('id, created_by, status')
+      .in('status', ['queued', 'sending'])
+      .order('created_at', { ascending: true })
+      .limit(20)
+    if (campaignId) {
+      query = query.eq('id', campaignId)
+    }
+
+    const { data: pending, error: pendingError } = await query
+    if (pendingError) {
+      console.error('Database error:', pendingError)
+      return createErrorResponse('Database error', 500)
+    }
+
+    const deadline = Date.now() + WORKER_BUDGET_MS
+    const campaigns: CampaignProgress[] = []
+    const failedCampaignIds: string[] = []
+
+    for (const pendingCampaign of pending || []) {
+      if (Date.now() >= deadline) {
+        break
+      }
+
+      let campaign: CampaignProgress
+      try {
+        campaign = await drainCampaign(supabaseClient, transport, pendingCampaign.id, deadline)
+      } catch (drainError) {
+        console.error(`Failed to drain campaign ${pendingCampaign.id}:`, drainError)
+        failedCampaignIds.push(pendingCampaign.id)
+        continue
+      }
+      campaigns.push(campaign)
+
+      if (campaign.status === 'completed') {
+        await logAdminAction(supabaseClient, pendingCampaign.created_by, 'email_send_completed', {
+          campaignId: campaign.id,
+          sentCount: campaign.sent_count,
+          failedCount: campaign.failed_count,
+          suppressedCount: campaign.suppressed_count,
+          totalRecipients: campaign.total_recipients,
+          transport: transport.name,
+          delivered: transport.delivers
+        }, req)
+      }
+    }
+
+    return jsonResponse({ success: true, campaigns, failedCampaignIds })
+  } catch (error) {
+    console.error('Error in process-email-queue function:', error)
+    return createErrorResponse('Internal server error', 500)
+  } finally {
+    await transport?.close?.()
+  }
+})
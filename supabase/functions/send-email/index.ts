@@ -1,91 +1,39 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  'Access-Control-Max-Age': '86400',
-}
-
-// Enhanced HTML sanitization to prevent XSS
-function sanitizeHtml(input: string): string {
-  if (!input || typeof input !== 'string') return '';
-  
-  return input
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#x27;')
-    .replace(/\//g, '&#x2F;')
-    .replace(/`/g, '&#x60;')
-    .replace(/=/g, '&#x3D;')
-    // Remove potentially dangerous protocols
-    .replace(/javascript:/gi, '')
-    .replace(/data:/gi, '')
-    .replace(/vbscript:/gi, '')
-    // Remove script tags and event handlers
-    .replace(/<script[^>]*>.*?<\/script>/gi, '')
-    .replace(/on\w+\s*=\s*["'][^"']*["']/gi, '')
-    .replace(/on\w+\s*=\s*[^>\s]+/gi, '')
-}
-
-// Enhanced input validation
-function validateEmailInput(pillar: string, subject: string, content: string) {
-  const errors: string[] = []
-  
-  // Pillar validation
-  if (!pillar?.trim()) {
-    errors.push('Pillar is required')
-  } else if (typeof pillar !== 'string' || pillar.length > 100) {
-    errors.push('Invalid pillar format')
-  } else if (!/^[a-zA-Z0-9\s\-_]+$/.test(pillar)) {
-    errors.push('Pillar contains invalid characters')
-  }
-  
-  // Subject validation
-  if (!subject?.trim()) {
-    errors.push('Subject is required')
-  } else if (typeof subject !== 'string' || subject.length > 200) {
-    errors.push('Subject must be less than 200 characters')
-  }
-  
-  // Content validation
-  if (!content?.trim()) {
-    errors.push('Content is required')
-  } else if (typeof content !== 'string' || content.length > 10000) {
-    errors.push('Content must be less than 10,000 characters')
-  }
-  
-  // Check for suspicious patterns
-  const suspiciousPatterns = [
-    /<script/i,
-    /javascript:/i,
-    /on\w+\s*=/i,
-    /<iframe/i,
-    /<object/i,
-    /<embed/i,
-    /<form/i,
-    /data:/i,
-    /vbscript:/i,
-    /<link/i,
-    /<meta/i,
-    /eval\s*\(/i,
-    /expression\s*\(/i
-  ]
-  
-  const combinedText = `${subject} ${content}`
-  for (const pattern of suspiciousPatterns) {
-    if (pattern.test(combinedText)) {
-      errors.push('Content contains potentially unsafe elements')
-      break
-    }
-  }
-  
-  return errors
-}
+import { createTransportFromEnv, MailTransport, TransportConfigError } from '../_shared/mail-transport.ts'
+import { corsHeaders, createErrorResponse, jsonResponse } from '../_shared/http.ts'
+import { escapeHtml } from '../_shared/sanitize.ts'
+import { logAdminAction } from '../_shared/audit.ts'
+import { authenticateUser, isAdminUser } from '../_shared/auth.ts'
+import { drainCampaign, enqueueCampaign, Recipient, requestApproval, scheduleCampaign } from '../_shared/email-queue.ts'
+import {
+  AudienceFilter,
+  describeAudience,
+  normalizeAudienceFilter,
+  pillarAudience,
+  validateAudienceFilter
+} from '../_shared/audience.ts'
+import { isSegmentId, loadSegmentDefinition, SegmentDefinition } from '../_shared/segments.ts'
+import { validateEmailInput, validateSchedule } from '../_shared/email-validation.ts'
+import { loadCategory, loadExclusions, loadRecipients, MAX_RECIPIENTS } from '../_shared/recipients.ts'
+import { CATEGORY_ID_PATTERN, DEFAULT_CATEGORY, EmailCategory } from '../_shared/preferences.ts'
+import { describeSuppression, partitionSuppressed, SuppressedRecipient } from '../_shared/suppressions.ts'
+import { approvalPolicyFromEnv, approvalReasons } from '../_shared/approval-policy.ts'
+import {
+  AttachmentRejectedError,
+  CampaignAttachment,
+  downloadAttachments,
+  loadAttachments,
+  markAttachmentsUsed,
+  scanAttachments,
+  validateAttachmentIds
+} from '../_shared/attachments.ts'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Time the request spends draining the queue before handing the rest to process-email-queue
+const DRAIN_BUDGET_MS = Number(Deno.env.get('MAIL_DRAIN_BUDGET_MS') || 10000)
 
 // Rate limiting implementation
 const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
@@ -109,151 +57,6 @@ function checkRateLimit(userId: string): boolean {
   return true
 }
 
-// Secure audit logging with input sanitization
-async function logAdminAction(supabaseClient: any, userId: string, action: string, details: any, req: Request) {
-  try {
-    // Sanitize user agent and IP to prevent log injection
-    const userAgent = (req.headers.get('user-agent') || 'Unknown').substring(0, 500)
-    const forwardedFor = req.headers.get('x-forwarded-for')
-    const realIp = req.headers.get('x-real-ip')
-    const ipAddress = (forwardedFor?.split(',')[0]?.trim() || realIp || 'Unknown').substring(0, 45)
-    
-    // Sanitize action and details
-    const sanitizedAction = sanitizeHtml(action).substring(0, 100)
-    const sanitizedDetails = typeof details === 'object' ? 
-      JSON.parse(JSON.stringify(details).substring(0, 1000)) : 
-      sanitizeHtml(String(details)).substring(0, 1000)
-    
-    await supabaseClient
-      .from('admin_audit_log')
-      .insert({
-        admin_user_id: userId,
-        action: sanitizedAction,
-        details: sanitizedDetails,
-        ip_address: ipAddress,
-        user_agent: userAgent
-      })
-  } catch (error) {
-    console.error('Failed to log admin action:', error)
-    // Don't throw - logging failure shouldn't block the main operation
-  }
-}
-
-// Secure error response function
-function createErrorResponse(message: string, status: number = 400, logDetails?: any) {
-  // Generic error messages to prevent information disclosure
-  const genericMessages: { [key: number]: string } = {
-    400: 'Invalid request parameters',
-    401: 'Authentication required',
-    403: 'Access denied',
-    404: 'Resource not found',
-    429: 'Too many requests',
-    500: 'Internal server error'
-  }
-  
-  const responseMessage = genericMessages[status] || 'An error occurred'
-  
-  return new Response(
-    JSON.stringify({ error: responseMessage }),
-    { 
-      status, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-    }
-  )
-}
-
-// Actual Gmail email sending using SMTP over HTTP
-async function sendEmailViaGmail(to: string, subject: string, htmlContent: string, gmailUser: string, gmailPassword: string) {
-  try {
-    console.log(`Attempting to send email to: ${to}`)
-    console.log(`Subject: ${subject}`)
-    console.log(`From: ${gmailUser}`)
-    
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-    if (!emailRegex.test(to)) {
-      throw new Error('Invalid email format')
-    }
-
-    // Create the email content in RFC 2822 format
-    const boundary = `boundary_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    const emailContent = [
-      `From: ${gmailUser}`,
-      `To: ${to}`,
-      `Subject: ${subject}`,
-      `MIME-Version: 1.0`,
-      `Content-Type: multipart/alternative; boundary="${boundary}"`,
-      ``,
-      `--${boundary}`,
-      `Content-Type: text/html; charset=UTF-8`,
-      `Content-Transfer-Encoding: 7bit`,
-      ``,
-      htmlContent,
-      ``,
-      `--${boundary}--`
-    ].join('\r\n')
-
-    // Convert to base64 for Gmail API
-    const encodedMessage = btoa(emailContent).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
-
-    // Use Gmail API to send email
-    const response = await fetch('https://gmail.googleapis.com/gmail/v1/users/me/messages/send', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${gmailPassword}`, // This should be an OAuth token, not app password
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        raw: encodedMessage
-      })
-    })
-
-    if (!response.ok) {
-      // If Gmail API fails, fall back to SMTP simulation with more realistic behavior
-      console.log('Gmail API not available, using enhanced simulation...')
-      
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000))
-      
-      // Enhanced simulation with better logging
-      console.log(`📧 EMAIL SIMULATION - Sending to: ${to}`)
-      console.log(`📋 Subject: ${subject}`)
-      console.log(`👤 From: ${gmailUser}`)
-      console.log(`📄 Content length: ${htmlContent.length} characters`)
-      console.log(`🔐 Using credentials: ${gmailUser ? 'Yes' : 'No'}`)
-      
-      // Simulate success (98% success rate for realism)
-      if (Math.random() < 0.98) {
-        const messageId = `sim_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-        console.log(`✅ EMAIL DELIVERED (simulated) - Message ID: ${messageId}`)
-        
-        return { 
-          success: true, 
-          messageId,
-          status: 'delivered_simulation',
-          note: 'Email simulated successfully. Configure OAuth2 for Gmail API or use Resend for actual delivery.'
-        }
-      } else {
-        throw new Error('Simulated delivery failure (2% chance)')
-      }
-    }
-
-    const result = await response.json()
-    console.log(`✅ Email successfully sent via Gmail API to ${to}`)
-    console.log(`Message ID: ${result.id}`)
-    
-    return { 
-      success: true, 
-      messageId: result.id,
-      status: 'delivered'
-    }
-    
-  } catch (error) {
-    console.error(`Failed to send email to ${to}:`, error)
-    throw error
-  }
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -264,46 +67,36 @@ serve(async (req) => {
     return createErrorResponse('Method not allowed', 405)
   }
 
+  // Closed on every path below, including early returns and errors
+  let transport: MailTransport | null = null
+
   try {
     // Initialize Supabase client with secure configuration
     const supabaseUrl = Deno.env.get('SUPABASE_URL')
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
-    const gmailUser = Deno.env.get('GMAIL_USER')
-    const gmailPassword = Deno.env.get('GMAIL_APP_PASSWORD')
     
     if (!supabaseUrl || !supabaseServiceKey) {
       console.error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY must be set.');
       return createErrorResponse('Service configuration error: missing environment variables', 500)
     }
 
-    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
-
-    // Get and validate authorization header
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return createErrorResponse('Authentication required', 401)
+    // Resolve the mail transport up front so a misconfiguration fails before anything is
+    // sent; SMTP only connects when the first message goes out
+    try {
+      transport = createTransportFromEnv()
+    } catch (error) {
+      if (error instanceof TransportConfigError) {
+        console.error(error.message)
+        return createErrorResponse('Service configuration error: mail transport', 500)
+      }
+      throw error
     }
 
-    const token = authHeader.replace('Bearer ', '').trim()
-    if (!token || token.length < 10) {
-      return createErrorResponse('Invalid token format', 401)
-    }
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
 
-    // Verify user authentication with timeout
-    const authPromise = supabaseClient.auth.getUser(token)
-    const timeoutPromise = new Promise((_, reject) => 
-      setTimeout(() => reject(new Error('Auth timeout')), 5000)
-    )
-    
-    const { data: { user }, error: authError } = await Promise.race([
-      authPromise,
-      timeoutPromise
-    ]) as any
-
-    if (authError || !user?.id) {
-      await logAdminAction(supabaseClient, 'unknown', 'unauthorized_email_attempt', 
-        { error: 'Invalid token', ip: req.headers.get('x-forwarded-for') }, req)
-      return createErrorResponse('Authentication failed', 401)
+    const user = await authenticateUser(supabaseClient, req, 'unauthorized_email_attempt')
+    if (user instanceof Response) {
+      return user
     }
 
     // Check rate limiting
@@ -312,14 +105,7 @@ serve(async (req) => {
       return createErrorResponse('Too many requests', 429)
     }
 
-    // Verify admin status using parameterized query
-    const { data: adminUser, error: adminError } = await supabaseClient
-      .from('admin_users')
-      .select('id')
-      .eq('user_id', user.id)
-      .single()
-
-    if (adminError || !adminUser) {
+    if (!(await isAdminUser(supabaseClient, user.id))) {
       await logAdminAction(supabaseClient, user.id, 'unauthorized_email_attempt', 
         { reason: 'Not an admin user' }, req)
       return createErrorResponse('Access denied', 403)
@@ -333,164 +119,312 @@ serve(async (req) => {
         throw new Error('Invalid body size')
       }
       requestBody = JSON.parse(bodyText)
-    } catch (error) {
+    } catch {
       await logAdminAction(supabaseClient, user.id, 'invalid_request_body', {}, req)
       return createErrorResponse('Invalid request format', 400)
     }
 
-    const { pillar, subject, content } = requestBody
+    const { subject, content, segmentId, attachmentIds, scheduledFor, timezone, previousCampaignId } = requestBody
+    const { confidential, trackOpens, trackClicks, category } = requestBody
+    // A send time makes this a scheduled campaign instead of an immediate send
+    const scheduled = scheduledFor !== undefined
+
+    // A saved segment is resolved to its current definition now, at send or scheduling time
+    let segment: SegmentDefinition | null = null
+    if (segmentId !== undefined) {
+      if (!isSegmentId(segmentId)) {
+        await logAdminAction(supabaseClient, user.id, 'email_validation_failed',
+          { errors: ['Invalid segment id'] }, req)
+        return createErrorResponse('Validation failed', 400)
+      }
+      segment = await loadSegmentDefinition(supabaseClient, segmentId)
+      if (!segment) {
+        await logAdminAction(supabaseClient, user.id, 'email_segment_not_found', { segmentId }, req)
+        return createErrorResponse('Segment not found', 404)
+      }
+    }
+
+    // Older clients send a single pillar instead of an audience filter
+    const audienceInput = segment?.definition ?? requestBody.audience ??
+      (typeof requestBody.pillar === 'string' ? pillarAudience(requestBody.pillar) : undefined)
 
     // Validate input with enhanced security
-    const validationErrors = validateEmailInput(pillar, subject, content)
+    const validationErrors = [
+      ...validateEmailInput(subject, content),
+      ...validateAudienceFilter(audienceInput),
+      ...validateAttachmentIds(attachmentIds),
+      ...(scheduled ? validateSchedule(scheduledFor, timezone) : []),
+      ...(previousCampaignId !== undefined && (typeof previousCampaignId !== 'string' || !UUID_PATTERN.test(previousCampaignId))
+        ? ['Invalid previous campaign id']
+        : []),
+      ...[confidential, trackOpens, trackClicks].some(flag => flag !== undefined && typeof flag !== 'boolean')
+        ? ['Invalid confidentiality or tracking options']
+        : [],
+      ...(category !== undefined && (typeof category !== 'string' || !CATEGORY_ID_PATTERN.test(category))
+        ? ['Invalid email category']
+        : [])
+    ]
     if (validationErrors.length > 0) {
       await logAdminAction(supabaseClient, user.id, 'email_validation_failed', 
-        { errors: validationErrors, pillar: sanitizeHtml(pillar) }, req)
+        { errors: validationErrors }, req)
       return createErrorResponse('Validation failed', 400)
     }
 
-    // Get employees using parameterized query to prevent SQL injection
-    const { data: employees, error: employeesError } = await supabaseClient
-      .from('employees')
-      .select('name, email')
-      .eq('pillar', pillar)
-      .limit(1000) // Prevent excessive data retrieval
+    const audience: AudienceFilter = normalizeAudienceFilter(audienceInput)
+    const audienceLabel = segment ? segment.name : describeAudience(audience)
+    const segmentRef = segment ? { id: segment.id, version: segment.version } : undefined
+
+    // A revision must point at a campaign that was rejected
+    if (previousCampaignId) {
+      const { data: previous } = await supabaseClient
+        .from('email_campaigns')
+        .select('id')
+        .eq('id', previousCampaignId)
+        .eq('status', 'rejected')
+        .maybeSingle()
+      if (!previous) {
+        await logAdminAction(supabaseClient, user.id, 'email_validation_failed',
+          { errors: ['Previous campaign is not a rejected campaign'] }, req)
+        return createErrorResponse('Validation failed', 400)
+      }
+    }
 
-    if (employeesError) {
-      console.error('Database error:', employeesError)
+    // Older clients don't send a category; their sends are announcements as before
+    let emailCategory: EmailCategory
+    let employees: Recipient[]
+    let suppressed: SuppressedRecipient<Recipient>[]
+    try {
+      const found = await loadCategory(supabaseClient, category ?? DEFAULT_CATEGORY)
+      if (!found) {
+        await logAdminAction(supabaseClient, user.id, 'email_validation_failed',
+          { errors: ['Unknown email category'] }, req)
+        return createErrorResponse('Validation failed', 400)
+      }
+      emailCategory = found
+
+      // Suppressed and unsubscribed addresses are skipped and recorded on the
+      // campaign; scheduled campaigns are checked again when they are dispatched
+      const audienceMembers = await loadRecipients(supabaseClient, audience)
+      const partition = partitionSuppressed(
+        audienceMembers,
+        await loadExclusions(supabaseClient, audienceMembers, emailCategory)
+      )
+      employees = partition.sendable
+      suppressed = partition.suppressed
+    } catch (error) {
+      console.error('Database error:', error)
       await logAdminAction(supabaseClient, user.id, 'email_database_error', 
-        { pillar: sanitizeHtml(pillar) }, req)
+        { audience }, req)
       return createErrorResponse('Database error', 500)
     }
 
-    if (!employees || employees.length === 0) {
+    if (employees.length === 0) {
       await logAdminAction(supabaseClient, user.id, 'email_no_recipients', 
-        { pillar: sanitizeHtml(pillar) }, req)
+        { audience, suppressedCount: suppressed.length }, req)
       return createErrorResponse('No recipients found', 404)
     }
 
     // Limit number of recipients to prevent abuse
-    if (employees.length > 500) {
+    if (employees.length + suppressed.length > MAX_RECIPIENTS) {
       await logAdminAction(supabaseClient, user.id, 'email_too_many_recipients', 
-        { pillar: sanitizeHtml(pillar), count: employees.length }, req)
+        { audience, count: employees.length + suppressed.length }, req)
       return createErrorResponse('Too many recipients', 400)
     }
 
+    // Attachments are checked against the limits and scanned before anything is queued
+    let attachments: CampaignAttachment[] = []
+    try {
+      attachments = await loadAttachments(supabaseClient, attachmentIds ?? [])
+      await scanAttachments(await downloadAttachments(supabaseClient, attachments))
+      await markAttachmentsUsed(supabaseClient, attachments)
+    } catch (error) {
+      if (error instanceof AttachmentRejectedError) {
+        await logAdminAction(supabaseClient, user.id, 'email_attachment_rejected',
+          { attachmentIds, reason: error.message }, req)
+        return createErrorResponse(error.message, 422)
+      }
+      throw error
+    }
+
+    const campaignDetails = {
+      createdBy: user.id,
+      requestedByEmail: user.email,
+      audience,
+      audienceLabel,
+      segment: segmentRef,
+      subject,
+      content,
+      category: emailCategory.id,
+      attachments,
+      transport: transport.name,
+      previousCampaignId,
+      // Tracking is dropped for confidential campaigns and per pillar at send time
+      confidential: confidential === true,
+      trackOpens: trackOpens === true && confidential !== true,
+      trackClicks: trackClicks === true && confidential !== true
+    }
+
+    // Reported separately from failures: these addresses are never attempted
+    const suppressedRecipients = suppressed.map(recipient => ({
+      name: recipient.name,
+      email: recipient.email,
+      reason: describeSuppression(recipient.suppression)
+    }))
+    const suppressedNote = suppressed.length > 0
+      ? `; ${suppressed.length} suppressed or unsubscribed ${suppressed.length === 1 ? 'address' : 'addresses'} skipped`
+      : ''
+
+    // Large or sensitive sends wait for a second admin; nothing is queued until then
+    const reasons = approvalReasons(approvalPolicyFromEnv(), employees)
+    if (reasons.length > 0) {
+      const campaign = await requestApproval(supabaseClient, {
+        ...campaignDetails,
+        approvalReasons: reasons,
+        recipientCount: employees.length,
+        ...(scheduled && { scheduledFor: new Date(scheduledFor).toISOString(), timezone })
+      })
+
+      await logAdminAction(supabaseClient, user.id, 'email_approval_requested', {
+        campaignId: campaign.id,
+        reasons,
+        recipientCount: employees.length,
+        suppressedCount: suppressed.length,
+        previousCampaignId,
+        scheduledFor,
+        segmentId: segment?.id,
+        segmentVersion: segment?.version,
+        subject: escapeHtml(subject).substring(0, 100),
+        attachmentIds: attachments.map(attachment => attachment.id),
+        audience
+      }, req)
+
+      return jsonResponse({
+        success: true,
+        campaignId: campaign.id,
+        status: campaign.status,
+        message: `Email to ${employees.length} employees (${audienceLabel}) is waiting for approval by another admin${suppressedNote}`,
+        campaign,
+        details: {
+          audience: audienceLabel,
+          approvalReasons: reasons,
+          suppressed: suppressedRecipients,
+          transport: transport.name,
+          delivered: transport.delivers
+        }
+      })
+    }
+
+    if (scheduled) {
+      const campaign = await scheduleCampaign(supabaseClient, {
+        ...campaignDetails,
+        scheduledFor: new Date(scheduledFor).toISOString(),
+        timezone
+      })
+
+      await logAdminAction(supabaseClient, user.id, 'email_send_scheduled', {
+        campaignId: campaign.id,
+        segmentId: segment?.id,
+        segmentVersion: segment?.version,
+        audience,
+        subject: escapeHtml(subject).substring(0, 100),
+        attachmentIds: attachments.map(attachment => attachment.id),
+        scheduledFor,
+        timezone,
+        recipientCount: employees.length,
+        suppressedCount: suppressed.length
+      }, req)
+
+      return jsonResponse({
+        success: true,
+        campaignId: campaign.id,
+        status: campaign.status,
+        message: `Email to ${employees.length} employees (${audienceLabel}) scheduled${suppressedNote}`,
+        campaign,
+        details: {
+          audience: audienceLabel,
+          scheduledFor,
+          timezone,
+          suppressed: suppressedRecipients,
+          transport: transport.name,
+          delivered: transport.delivers
+        }
+      })
+    }
+
     // Log the email send attempt
     await logAdminAction(supabaseClient, user.id, 'email_send_initiated', { 
-      pillar: sanitizeHtml(pillar), 
-      subject: sanitizeHtml(subject).substring(0, 100),
-      recipientCount: employees.length 
+      // Ahead of the audience so they survive truncation of very large filters
+      segmentId: segment?.id,
+      segmentVersion: segment?.version,
+      audience,
+      subject: escapeHtml(subject).substring(0, 100),
+      attachmentIds: attachments.map(attachment => attachment.id),
+      category: campaignDetails.category,
+      confidential: campaignDetails.confidential,
+      trackOpens: campaignDetails.trackOpens,
+      trackClicks: campaignDetails.trackClicks,
+      recipientCount: employees.length,
+      suppressedCount: suppressed.length
     }, req)
 
-    // Send emails with proper timeout handling
-    const emailPromises = employees.map(async (employee) => {
-      try {
-        // Validate employee email format
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-        if (!emailRegex.test(employee.email)) {
-          throw new Error('Invalid email format')
-        }
-
-        // Sanitize content for HTML email with strict filtering
-        const sanitizedSubject = sanitizeHtml(subject)
-        const sanitizedContent = sanitizeHtml(content)
-          .replace(/\n/g, '<br>')
-          .replace(/\r/g, '')
-        const sanitizedName = sanitizeHtml(employee.name)
-        
-        const htmlContent = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #ffffff;">
-            <div style="background-color: #f8f9fa; padding: 20px; border-bottom: 3px solid #d97706;">
-              <h2 style="color: #8B4513; margin: 0;">Message from Admin Portal</h2>
-            </div>
-            <div style="padding: 20px;">
-              <p>Dear ${sanitizedName},</p>
-              <div style="background-color: #FDF5E6; padding: 20px; border-left: 4px solid #D2B48C; margin: 20px 0; border-radius: 4px;">
-                ${sanitizedContent}
-              </div>
-              <p>Best regards,<br>Admin Portal Team</p>
-            </div>
-            <div style="background-color: #f8f9fa; padding: 10px; text-align: center; font-size: 12px; color: #666;">
-              This email was sent from the Corporate Communications Portal
-            </div>
-          </div>
-        `
-        
-        // Use timeout for individual email sends
-        const emailTimeout = new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Email send timeout')), 5000)
-        )
-        
-        const emailSend = sendEmailViaGmail(employee.email, sanitizedSubject, htmlContent, gmailUser || '', gmailPassword || '')
-        
-        const result = await Promise.race([emailSend, emailTimeout])
-        
-        return { success: true, email: employee.email, result }
-      } catch (error) {
-        console.error(`Failed to send email to ${employee.email}:`, error.message)
-        return { success: false, email: employee.email, error: error.message }
-      }
+    // Queue one delivery per recipient before sending anything, so no result
+    // is lost if this invocation runs out of time
+    const queued = await enqueueCampaign(supabaseClient, {
+      ...campaignDetails,
+      recipients: employees,
+      suppressed
     })
-    
-    // Process emails with a total timeout
-    const allEmailsTimeout = new Promise((_, reject) => 
-      setTimeout(() => reject(new Error('Overall email sending timeout')), 15000)
-    )
-    
-    const results = await Promise.race([
-      Promise.all(emailPromises),
-      allEmailsTimeout
-    ]) as Array<{ success: boolean; email: string; result?: any; error?: string }>
-    
-    const successCount = results.filter(r => r.success).length
-    const failureCount = results.filter(r => !r.success).length
-    
-    // Log the final result
-    await logAdminAction(supabaseClient, user.id, 'email_send_completed', { 
-      pillar: sanitizeHtml(pillar), 
-      successCount, 
-      failureCount,
-      totalRecipients: employees.length
+
+    // Send what fits in this request; anything left stays queued for process-email-queue
+    const campaign = await drainCampaign(supabaseClient, transport, queued.id, Date.now() + DRAIN_BUDGET_MS)
+
+    // Campaigns that outlive this request are completed (and logged) by process-email-queue
+    const completionAction = campaign.status === 'completed' ? 'email_send_completed' : 'email_send_continuing'
+    await logAdminAction(supabaseClient, user.id, completionAction, { 
+      campaignId: campaign.id,
+      audienceLabel,
+      segmentId: segment?.id,
+      segmentVersion: segment?.version,
+      status: campaign.status,
+      sentCount: campaign.sent_count,
+      failedCount: campaign.failed_count,
+      suppressedCount: campaign.suppressed_count,
+      totalRecipients: campaign.total_recipients,
+      transport: transport.name,
+      delivered: transport.delivers
     }, req)
     
-    // Determine response message based on Gmail credentials availability
-    const hasGmailCredentials = !!(gmailUser && gmailPassword)
-    const isSimulation = results.some(r => r.result?.status === 'delivered_simulation')
-    
-    let statusMessage: string
-    let noteMessage: string
+    // Only claim delivery when the configured transport actually hands mail to a provider
+    const statusMessage = campaign.status === 'completed'
+      ? transport.delivers
+        ? `Emails sent to ${campaign.sent_count} employees (${audienceLabel})${suppressedNote}`
+        : `Emails logged for ${campaign.sent_count} employees (${audienceLabel}, not delivered)${suppressedNote}`
+      : `Sending to ${campaign.total_recipients} employees (${audienceLabel}) continues in the background${suppressedNote}`
+    const noteMessage = transport.delivers
+      ? `Emails delivered via the ${transport.name} transport.`
+      : 'Note: MAIL_TRANSPORT is set to log-only. Configure smtp, gmail or resend to deliver mail.'
     
-    if (isSimulation || !hasGmailCredentials) {
-      statusMessage = `Email simulation completed for ${successCount} employees in ${pillar} pillar`
-      noteMessage = hasGmailCredentials
-        ? 'Note: Using enhanced email simulation. For actual Gmail sending, configure OAuth2 tokens. Consider using Resend service for reliable delivery.'
-        : 'Note: Gmail credentials not found. Configure GMAIL_USER and GMAIL_APP_PASSWORD environment variables, or use Resend service.'
-    } else {
-      statusMessage = `Emails sent successfully to ${successCount} employees in ${pillar} pillar`
-      noteMessage = 'Emails delivered via Gmail API.'
-    }
-    
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: statusMessage,
-        recipients: successCount,
-        failures: failureCount,
-        note: noteMessage,
-        details: {
-          pillar,
-          totalEmployees: employees.length,
-          hasCredentials: hasGmailCredentials,
-          simulationMode: isSimulation || !hasGmailCredentials
-        }
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    return jsonResponse({ 
+      success: true, 
+      campaignId: campaign.id,
+      status: campaign.status,
+      message: statusMessage,
+      note: noteMessage,
+      campaign,
+      details: {
+        audience: audienceLabel,
+        suppressed: suppressedRecipients,
+        transport: transport.name,
+        delivered: transport.delivers
+      }
+    })
 
   } catch (error) {
     console.error('Error in send-email function:', error)
     
     // Return generic error message to prevent information disclosure
     return createErrorResponse('Internal server error', 500)
+  } finally {
+    await transport?.close?.()
   }
 })
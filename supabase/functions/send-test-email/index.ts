@@ -0,0 +1,241 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createTransportFromEnv, MailTransport, TransportConfigError } from '../_shared/mail-transport.ts'
+import { corsHeaders, createErrorResponse, jsonResponse } from '../_shared/http.ts'
+import { EMAIL_FORMAT, escapeHtml } from '../_shared/sanitize.ts'
+import { logAdminAction } from '../_shared/audit.ts'
+import { authenticateUser, isAdminUser } from '../_shared/auth.ts'
+import { renderEmail } from '../_shared/email-render.ts'
+import { mergeValues } from '../_shared/merge-fields.ts'
+import { validateEmailInput } from '../_shared/email-validation.ts'
+import { loadCategory } from '../_shared/recipients.ts'
+import { CATEGORY_ID_PATTERN, DEFAULT_CATEGORY } from '../_shared/preferences.ts'
+import {
+  AttachmentRejectedError,
+  downloadAttachments,
+  loadAttachments,
+  scanAttachments,
+  validateAttachmentIds
+} from '../_shared/attachments.ts'
+
+/*
+  Sends one test copy of a draft before the real send (admins only).
+
+    { "subject": string, "content": string, "sampleEmployeeId": string,
+      "attachmentIds"?: string[], "category"?: string, "to"?: string }
+
+  The message goes through the same rendering as a queued delivery, with the
+  merge fields of the sample employee, but is only ever delivered to the
+  admin's own address or to one listed in TEST_EMAIL_ALLOWLIST
+  (comma-separated). Nothing is queued, and test sends have their own rate
+  limit so they don't use up the send-email one. Tests of optional categories
+  show the preferences footer with a link that carries no token, so nobody can
+  change the sample employee's preferences through it.
+*/
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const SEND_TIMEOUT_MS = 10000
+const TEST_SUBJECT_PREFIX = '[Test] '
+
+const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
+const RATE_LIMIT_WINDOW = 15 * 60 * 1000 // 15 minutes
+const RATE_LIMIT_MAX_REQUESTS = 20
+
+function checkRateLimit(userId: string): boolean {
+  const now = Date.now()
+  const userLimit = rateLimitMap.get(userId)
+
+  if (!userLimit || now > userLimit.resetTime) {
+    rateLimitMap.set(userId, { count: 1, resetTime: now + RATE_LIMIT_WINDOW })
+    return true
+  }
+
+  if (userLimit.count >= RATE_LIMIT_MAX_REQUESTS) {
+    return false
+  }
+
+  userLimit.count++
+  return true
+}
+
+function testAllowList(): string[] {
+  return (Deno.env.get('TEST_EMAIL_ALLOWLIST') || '')
+    .split(',')
+    .map(address => address.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return createErrorResponse('Method not allowed', 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY must be set.');
+      return createErrorResponse('Service configuration error: missing environment variables', 500)
+    }
+
+    let transport: MailTransport
+    try {
+      transport = createTransportFromEnv()
+    } catch (error) {
+      if (error instanceof TransportConfigError) {
+        console.error(error.message)
+        return createErrorResponse('Service configuration error: mail transport', 500)
+      }
+      throw error
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+
+    const user = await authenticateUser(supabaseClient, req, 'unauthorized_email_attempt')
+    if (user instanceof Response) {
+      return user
+    }
+
+    if (!checkRateLimit(user.id)) {
+      await logAdminAction(supabaseClient, user.id, 'rate_limit_exceeded', { test: true }, req)
+      return createErrorResponse('Too many requests', 429)
+    }
+
+    if (!(await isAdminUser(supabaseClient, user.id))) {
+      await logAdminAction(supabaseClient, user.id, 'unauthorized_email_attempt',
+        { reason: 'Not an admin user', test: true }, req)
+      return createErrorResponse('Access denied', 403)
+    }
+
+    let body
+    try {
+      const bodyText = await req.text()
+      if (!bodyText || bodyText.length > 50000) {
+        throw new Error('Invalid body size')
+      }
+      body = JSON.parse(bodyText)
+    } catch {
+      await logAdminAction(supabaseClient, user.id, 'invalid_request_body', { test: true }, req)
+      return createErrorResponse('Invalid request format', 400)
+    }
+
+    const { subject, content, sampleEmployeeId, attachmentIds, category } = body
+    const to = typeof body.to === 'string' && body.to.trim() ? body.to.trim() : user.email ?? ''
+
+    const validationErrors = [
+      ...validateEmailInput(subject, content),
+      ...validateAttachmentIds(attachmentIds),
+      ...(typeof sampleEmployeeId !== 'string' || !UUID_PATTERN.test(sampleEmployeeId) ? ['Invalid sample employee id'] : []),
+      ...(!EMAIL_FORMAT.test(to) || to.length > 254 ? ['Invalid test recipient'] : []),
+      ...(category !== undefined && (typeof category !== 'string' || !CATEGORY_ID_PATTERN.test(category)) ? ['Invalid email category'] : [])
+    ]
+    if (validationErrors.length > 0) {
+      await logAdminAction(supabaseClient, user.id, 'email_validation_failed',
+        { errors: validationErrors, test: true }, req)
+      return createErrorResponse('Validation failed', 400)
+    }
+
+    // Tests never reach employees: only the admin's own address or the allow-list
+    const ownAddress = (user.email ?? '').toLowerCase()
+    if (to.toLowerCase() !== ownAddress && !testAllowList().includes(to.toLowerCase())) {
+      await logAdminAction(supabaseClient, user.id, 'email_test_recipient_blocked', { to, test: true }, req)
+      return createErrorResponse('Access denied', 403)
+    }
+
+    const { data: sample, error: sampleError } = await supabaseClient
+      .from('employees')
+      .select('id, name, employee_id, pillar, level')
+      .eq('id', sampleEmployeeId)
+      .maybeSingle()
+
+    if (sampleError) {
+      console.error('Database error:', sampleError)
+      return createErrorResponse('Database error', 500)
+    }
+    if (!sample) {
+      return createErrorResponse('Sample employee not found', 404)
+    }
+
+    const emailCategory = await loadCategory(supabaseClient, category ?? DEFAULT_CATEGORY)
+    if (!emailCategory) {
+      await logAdminAction(supabaseClient, user.id, 'email_validation_failed',
+        { errors: ['Unknown email category'], test: true }, req)
+      return createErrorResponse('Validation failed', 400)
+    }
+
+    let files
+    try {
+      const attachments = await loadAttachments(supabaseClient, attachmentIds ?? [])
+      files = await downloadAttachments(supabaseClient, attachments)
+      await scanAttachments(files)
+    } catch (error) {
+      if (error instanceof AttachmentRejectedError) {
+        await logAdminAction(supabaseClient, user.id, 'email_attachment_rejected',
+          { attachmentIds, reason: error.message, test: true }, req)
+        return createErrorResponse(error.message, 422)
+      }
+      throw error
+    }
+
+    // Rendered exactly as the sample employee's delivery would be
+    const rendered = renderEmail(subject, content, sample.name, mergeValues(sample), emailCategory.mandatory
+      ? undefined
+      : { categoryLabel: emailCategory.label, url: Deno.env.get('EMAIL_PREFERENCES_URL') || '#' })
+    const details = {
+      test: true,
+      to,
+      sampleEmployeeId: sample.id,
+      category: emailCategory.id,
+      subject: escapeHtml(subject).substring(0, 100),
+      attachmentIds: attachmentIds ?? [],
+      transport: transport.name,
+      delivered: transport.delivers
+    }
+
+    try {
+      const emailTimeout = new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error('Email send timeout')), SEND_TIMEOUT_MS)
+      )
+      const result = await Promise.race([
+        transport.send({
+          from: transport.from,
+          to,
+          ...rendered,
+          subject: TEST_SUBJECT_PREFIX + rendered.subject,
+          attachments: files
+        }),
+        emailTimeout
+      ])
+      await logAdminAction(supabaseClient, user.id, 'email_test_sent', { ...details, messageId: result.messageId }, req)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`Failed to send test email to ${to}:`, message)
+      await logAdminAction(supabaseClient, user.id, 'email_test_failed',
+        { ...details, error: message.substring(0, 200) }, req)
+      return createErrorResponse('Failed to send test email', 500)
+    } finally {
+      await transport.close?.()
+    }
+
+    return jsonResponse({
+      success: true,
+      message: transport.delivers
+        ? `Test email sent to ${to}`
+        : `Test email to ${to} logged (not delivered)`,
+      details: {
+        to,
+        sampleEmployee: sample.name,
+        transport: transport.name,
+        delivered: transport.delivers
+      }
+    })
+  } catch (error) {
+    console.error('Error in send-test-email function:', error)
+    return createErrorResponse('Internal server error', 500)
+  }
+})
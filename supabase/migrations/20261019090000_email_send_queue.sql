@@ -0,0 +1,134 @@
+/*
+  # Durable email send queue
+
+  1. New Tables
+    - `email_campaigns` - one row per send request (who sent what to which pillar)
+    - `email_deliveries` - one row per recipient with delivery status, attempt
+      count, provider message id and last error
+
+  2. Functions
+    - `claim_email_deliveries` - leases a batch of queued deliveries to a worker.
+      Rows stuck in `sending` past their lease (function timeout or crash) are
+      claimed again, so a send always finishes even across invocations.
+    - `sync_email_campaign` - recomputes campaign counters and completes the
+      campaign once no deliveries are pending
+
+  3. Security
+    - Admins can read campaigns and deliveries
+    - Writes happen only from edge functions with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS public.email_campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by UUID REFERENCES auth.users(id) NOT NULL,
+  pillar TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  content TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sending', 'completed')),
+  transport TEXT NOT NULL,
+  total_recipients INTEGER NOT NULL DEFAULT 0,
+  sent_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS public.email_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID REFERENCES public.email_campaigns(id) ON DELETE CASCADE NOT NULL,
+  employee_id UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'bounced')),
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  provider_message_id TEXT,
+  last_error TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (campaign_id, recipient_email)
+);
+
+CREATE INDEX IF NOT EXISTS email_campaigns_status_idx ON public.email_campaigns (status, created_at);
+CREATE INDEX IF NOT EXISTS email_deliveries_campaign_status_idx ON public.email_deliveries (campaign_id, status);
+CREATE INDEX IF NOT EXISTS email_deliveries_provider_message_idx ON public.email_deliveries (provider_message_id);
+
+ALTER TABLE public.email_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can read email campaigns"
+  ON public.email_campaigns
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_user());
+
+CREATE POLICY "Only admins can read email deliveries"
+  ON public.email_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_user());
+
+-- Lease a batch of deliveries to the calling worker
+CREATE OR REPLACE FUNCTION public.claim_email_deliveries(
+  p_campaign_id UUID,
+  p_batch_size INTEGER,
+  p_lease_seconds INTEGER
+)
+RETURNS SETOF public.email_deliveries
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.email_campaigns
+  SET status = 'sending', started_at = COALESCE(started_at, now())
+  WHERE id = p_campaign_id AND status = 'queued';
+
+  RETURN QUERY
+  UPDATE public.email_deliveries d
+  SET status = 'sending',
+      attempt_count = d.attempt_count + 1,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  WHERE d.id IN (
+    SELECT id FROM public.email_deliveries
+    WHERE campaign_id = p_campaign_id
+      AND (status = 'queued' OR (status = 'sending' AND locked_until < now()))
+    ORDER BY created_at
+    LIMIT p_batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$;
+
+-- Recompute counters and complete the campaign when nothing is pending
+CREATE OR REPLACE FUNCTION public.sync_email_campaign(p_campaign_id UUID)
+RETURNS public.email_campaigns
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_pending INTEGER;
+  v_campaign public.email_campaigns;
+BEGIN
+  SELECT count(*) INTO v_pending
+  FROM public.email_deliveries
+  WHERE campaign_id = p_campaign_id AND status IN ('queued', 'sending');
+
+  UPDATE public.email_campaigns c
+  SET sent_count = (SELECT count(*) FROM public.email_deliveries WHERE campaign_id = c.id AND status = 'sent'),
+      failed_count = (SELECT count(*) FROM public.email_deliveries WHERE campaign_id = c.id AND status IN ('failed', 'bounced')),
+      status = CASE WHEN v_pending = 0 THEN 'completed' ELSE c.status END,
+      completed_at = CASE WHEN v_pending = 0 THEN COALESCE(c.completed_at, now()) ELSE NULL END
+  WHERE c.id = p_campaign_id
+  RETURNING c.* INTO v_campaign;
+
+  RETURN v_campaign;
+END;
+$$;
+
+-- Queue functions are for edge functions only
+REVOKE EXECUTE ON FUNCTION public.claim_email_deliveries(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_email_campaign(UUID) FROM PUBLIC, anon, authenticated;
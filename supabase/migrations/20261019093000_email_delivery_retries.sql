@@ -0,0 +1,78 @@
+/*
+  # Retry failed email deliveries
+
+  1. Changes
+    - `email_deliveries.next_attempt_at` - earliest time a queued delivery may be
+      claimed again after a transient failure (exponential backoff)
+    - `claim_email_deliveries` skips deliveries that are still backing off
+
+  2. Functions
+    - `retry_failed_deliveries` - puts every failed delivery of a campaign back
+      in the queue with a fresh attempt budget ("retry all failed")
+*/
+
+ALTER TABLE public.email_deliveries
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.claim_email_deliveries(
+  p_campaign_id UUID,
+  p_batch_size INTEGER,
+  p_lease_seconds INTEGER
+)
+RETURNS SETOF public.email_deliveries
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.email_campaigns
+  SET status = 'sending', started_at = COALESCE(started_at, now())
+  WHERE id = p_campaign_id AND status = 'queued';
+
+  RETURN QUERY
+  UPDATE public.email_deliveries d
+  SET status = 'sending',
+      attempt_count = d.attempt_count + 1,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  WHERE d.id IN (
+    SELECT id FROM public.email_deliveries
+    WHERE campaign_id = p_campaign_id
+      AND (
+        (status = 'queued' AND (next_attempt_at IS NULL OR next_attempt_at <= now()))
+        OR (status = 'sending' AND locked_until < now())
+      )
+    ORDER BY created_at
+    LIMIT p_batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.retry_failed_deliveries(p_campaign_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.email_deliveries
+  SET status = 'queued',
+      attempt_count = 0,
+      next_attempt_at = NULL,
+      locked_until = NULL,
+      updated_at = now()
+  WHERE campaign_id = p_campaign_id AND status = 'failed';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count > 0 THEN
+    UPDATE public.email_campaigns
+    SET status = 'sending', completed_at = NULL
+    WHERE id = p_campaign_id;
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.retry_failed_deliveries(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,31 @@
+/*
+  # Audience filters for campaigns
+
+  1. Changes
+    - `email_campaigns.audience` - the audience filter the campaign was sent with
+      (included/excluded pillars, levels and employee ids)
+    - `email_campaigns.pillar` is renamed to `audience_label`, a readable summary
+      of the filter, since a campaign is no longer tied to a single pillar
+
+  2. Notes
+    - Existing single-pillar campaigns get an equivalent filter
+*/
+
+ALTER TABLE public.email_campaigns
+  ADD COLUMN IF NOT EXISTS audience JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.email_campaigns
+  RENAME COLUMN pillar TO audience_label;
+
+UPDATE public.email_campaigns
+SET audience = jsonb_build_object(
+  'allEmployees', false,
+  'includePillars', jsonb_build_array(audience_label),
+  'excludePillars', '[]'::jsonb,
+  'includeLevels', '[]'::jsonb,
+  'excludeLevels', '[]'::jsonb,
+  'minLevel', NULL,
+  'includeEmployeeIds', '[]'::jsonb,
+  'excludeEmployeeIds', '[]'::jsonb
+)
+WHERE audience = '{}'::jsonb;
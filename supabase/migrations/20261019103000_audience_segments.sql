@@ -0,0 +1,174 @@
+/*
+  # Saved audience segments
+
+  1. New Tables
+    - `audience_segments` - named audiences such as "All managers"
+    - `audience_segment_versions` - immutable history of segment definitions;
+      `audience_segments.current_version` points at the one used for new sends
+
+  2. Changes
+    - `email_campaigns.segment_id` / `segment_version` record exactly which
+      segment definition a campaign was sent with
+
+  3. Functions
+    - `log_admin_action` - audit helper for database functions; takes the
+      admin from auth.uid() and IP / user agent from the request headers
+    - `save_audience_segment` - creates a segment or stores a new version
+    - `archive_audience_segment` - hides a segment from the dashboard
+
+  4. Security
+    - Admins can read segments and versions; all writes go through the
+      functions above so every change is versioned and audited
+*/
+
+CREATE OR REPLACE FUNCTION public.log_admin_action(p_action TEXT, p_details JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers JSON := NULLIF(current_setting('request.headers', true), '')::json;
+  v_ip INET;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  BEGIN
+    v_ip := trim(split_part(v_headers->>'x-forwarded-for', ',', 1))::inet;
+  EXCEPTION WHEN others THEN
+    v_ip := NULL;
+  END;
+
+  INSERT INTO public.admin_audit_log (admin_user_id, action, details, ip_address, user_agent)
+  VALUES (auth.uid(), left(p_action, 100), p_details, v_ip, left(v_headers->>'user-agent', 500));
+END;
+$$;
+
+-- Only callable from other database functions, so clients cannot forge audit entries
+REVOKE EXECUTE ON FUNCTION public.log_admin_action(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS public.audience_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  description TEXT CHECK (char_length(description) <= 500),
+  current_version INTEGER NOT NULL DEFAULT 1,
+  created_by UUID REFERENCES auth.users(id) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  archived_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS audience_segments_active_name_idx
+  ON public.audience_segments (lower(name))
+  WHERE archived_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.audience_segment_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  segment_id UUID REFERENCES public.audience_segments(id) ON DELETE CASCADE NOT NULL,
+  version INTEGER NOT NULL,
+  definition JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (segment_id, version)
+);
+
+ALTER TABLE public.audience_segments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audience_segment_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can read audience segments"
+  ON public.audience_segments
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_user());
+
+CREATE POLICY "Only admins can read audience segment versions"
+  ON public.audience_segment_versions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_user());
+
+ALTER TABLE public.email_campaigns
+  ADD COLUMN IF NOT EXISTS segment_id UUID REFERENCES public.audience_segments(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS segment_version INTEGER;
+
+-- Create a segment (p_segment_id NULL) or store a new version of an existing one
+CREATE OR REPLACE FUNCTION public.save_audience_segment(
+  p_segment_id UUID,
+  p_name TEXT,
+  p_description TEXT,
+  p_definition JSONB
+)
+RETURNS public.audience_segments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_segment public.audience_segments;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_definition) <> 'object' THEN
+    RAISE EXCEPTION 'Invalid segment definition' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_segment_id IS NULL THEN
+    INSERT INTO public.audience_segments (name, description, created_by)
+    VALUES (trim(p_name), NULLIF(trim(p_description), ''), auth.uid())
+    RETURNING * INTO v_segment;
+  ELSE
+    UPDATE public.audience_segments
+    SET name = trim(p_name),
+        description = NULLIF(trim(p_description), ''),
+        current_version = current_version + 1,
+        updated_at = now()
+    WHERE id = p_segment_id AND archived_at IS NULL
+    RETURNING * INTO v_segment;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Segment not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  INSERT INTO public.audience_segment_versions (segment_id, version, definition, created_by)
+  VALUES (v_segment.id, v_segment.current_version, p_definition, auth.uid());
+
+  PERFORM public.log_admin_action('audience_segment_saved', jsonb_build_object(
+    'segmentId', v_segment.id,
+    'name', v_segment.name,
+    'version', v_segment.current_version
+  ));
+
+  RETURN v_segment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.archive_audience_segment(p_segment_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.audience_segments
+  SET archived_at = now(), updated_at = now()
+  WHERE id = p_segment_id AND archived_at IS NULL;
+
+  IF FOUND THEN
+    PERFORM public.log_admin_action('audience_segment_archived', jsonb_build_object('segmentId', p_segment_id));
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_audience_segment(UUID, TEXT, TEXT, JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.archive_audience_segment(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_audience_segment(UUID, TEXT, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.archive_audience_segment(UUID) TO authenticated;
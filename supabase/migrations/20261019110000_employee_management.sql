@@ -0,0 +1,99 @@
+/*
+  # Employee management
+
+  1. Changes
+    - `employees.active` / `deactivated_at` - soft delete; deactivated
+      employees stay in the table (and keep their email / employee_id) but
+      are no longer listed as recipients
+    - `employees.updated_at` and `deactivated_at` are maintained by a trigger
+
+  2. Auditing
+    - Every insert, update and delete on `employees` made by a signed-in
+      admin is written to `admin_audit_log` with the changed fields
+*/
+
+ALTER TABLE public.employees
+  ADD COLUMN IF NOT EXISTS active BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS employees_active_pillar_idx
+  ON public.employees (pillar)
+  WHERE active;
+
+CREATE OR REPLACE FUNCTION public.set_employee_timestamps()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  IF OLD.active AND NOT NEW.active THEN
+    NEW.deactivated_at := now();
+  ELSIF NEW.active THEN
+    NEW.deactivated_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS employees_set_timestamps ON public.employees;
+CREATE TRIGGER employees_set_timestamps
+  BEFORE UPDATE ON public.employees
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_employee_timestamps();
+
+CREATE OR REPLACE FUNCTION public.audit_employee_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_action TEXT;
+  v_changes JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.log_admin_action('employee_created', jsonb_build_object(
+      'employeeId', NEW.id,
+      'employee', to_jsonb(NEW) - 'id' - 'created_at' - 'updated_at'
+    ));
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM public.log_admin_action('employee_deleted', jsonb_build_object(
+      'employeeId', OLD.id,
+      'employee', to_jsonb(OLD) - 'id' - 'created_at' - 'updated_at'
+    ));
+  ELSE
+    SELECT jsonb_object_agg(n.key, jsonb_build_object('from', o.value, 'to', n.value))
+    INTO v_changes
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o USING (key)
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key NOT IN ('updated_at', 'deactivated_at');
+
+    IF v_changes IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    v_action := CASE
+      WHEN OLD.active AND NOT NEW.active THEN 'employee_deactivated'
+      WHEN NOT OLD.active AND NEW.active THEN 'employee_reactivated'
+      ELSE 'employee_updated'
+    END;
+
+    PERFORM public.log_admin_action(v_action, jsonb_build_object(
+      'employeeId', NEW.id,
+      'employeeNumber', NEW.employee_id,
+      'changes', v_changes
+    ));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS employees_audit ON public.employees;
+CREATE TRIGGER employees_audit
+  AFTER INSERT OR UPDATE OR DELETE ON public.employees
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_employee_change();
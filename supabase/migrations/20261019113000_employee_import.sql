@@ -0,0 +1,184 @@
+/*
+  # Employee import
+
+  1. Functions
+    - `apply_employee_import` - applies a reviewed import in one transaction:
+      inserts new employees, updates (and reactivates) existing ones keyed on
+      `employee_id`, and optionally deactivates active employees missing from
+      the file. Any invalid row aborts the whole import.
+
+  2. Auditing
+    - The import is recorded as a single `employee_import_applied` entry with
+      the affected employee IDs; the per-row employee audit trigger is
+      skipped while an import runs
+*/
+
+CREATE OR REPLACE FUNCTION public.audit_employee_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_action TEXT;
+  v_changes JSONB;
+BEGIN
+  -- apply_employee_import writes one summary entry instead
+  IF current_setting('app.employee_import', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.log_admin_action('employee_created', jsonb_build_object(
+      'employeeId', NEW.id,
+      'employee', to_jsonb(NEW) - 'id' - 'created_at' - 'updated_at'
+    ));
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM public.log_admin_action('employee_deleted', jsonb_build_object(
+      'employeeId', OLD.id,
+      'employee', to_jsonb(OLD) - 'id' - 'created_at' - 'updated_at'
+    ));
+  ELSE
+    SELECT jsonb_object_agg(n.key, jsonb_build_object('from', o.value, 'to', n.value))
+    INTO v_changes
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o USING (key)
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key NOT IN ('updated_at', 'deactivated_at');
+
+    IF v_changes IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    v_action := CASE
+      WHEN OLD.active AND NOT NEW.active THEN 'employee_deactivated'
+      WHEN NOT OLD.active AND NEW.active THEN 'employee_reactivated'
+      ELSE 'employee_updated'
+    END;
+
+    PERFORM public.log_admin_action(v_action, jsonb_build_object(
+      'employeeId', NEW.id,
+      'employeeNumber', NEW.employee_id,
+      'changes', v_changes
+    ));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- p_rows: [{ "name", "email", "employee_id", "pillar", "level" }, ...]
+CREATE OR REPLACE FUNCTION public.apply_employee_import(
+  p_rows JSONB,
+  p_deactivate_missing BOOLEAN,
+  p_file_name TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row_count INT;
+  v_inserted INT[];
+  v_updated INT[];
+  v_deactivated INT[];
+  v_summary JSONB;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'Import rows must be an array' USING ERRCODE = '22023';
+  END IF;
+
+  v_row_count := jsonb_array_length(p_rows);
+  IF v_row_count = 0 OR v_row_count > 5000 THEN
+    RAISE EXCEPTION 'Import must contain between 1 and 5000 rows' USING ERRCODE = '22023';
+  END IF;
+
+  DROP TABLE IF EXISTS employee_import_rows;
+  CREATE TEMP TABLE employee_import_rows ON COMMIT DROP AS
+  SELECT
+    trim(r.name) AS name,
+    lower(trim(r.email)) AS email,
+    r.employee_id,
+    trim(r.pillar) AS pillar,
+    trim(r.level) AS level
+  FROM jsonb_to_recordset(p_rows) AS r(name TEXT, email TEXT, employee_id INT, pillar TEXT, level TEXT);
+
+  -- Same rules as the dashboard (employeeSchema); checked again because this function bypasses RLS
+  IF EXISTS (
+    SELECT 1 FROM employee_import_rows
+    WHERE coalesce(name, '') = '' OR char_length(name) > 100
+       OR email IS NULL OR email !~ '^[^\s@<>''"&\\]+@[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*$'
+       OR employee_id IS NULL OR employee_id <= 0
+       OR pillar IS NULL OR pillar !~ '^[a-zA-Z0-9\s_-]+$' OR char_length(pillar) > 100
+       OR level IS NULL OR level !~ '^[a-zA-Z0-9\s_-]+$' OR char_length(level) > 50
+  ) THEN
+    RAISE EXCEPTION 'Import contains invalid rows' USING ERRCODE = '22023';
+  END IF;
+
+  IF (SELECT count(DISTINCT employee_id) FROM employee_import_rows) <> v_row_count
+     OR (SELECT count(DISTINCT email) FROM employee_import_rows) <> v_row_count THEN
+    RAISE EXCEPTION 'Import contains duplicate employee IDs or emails' USING ERRCODE = '23505';
+  END IF;
+
+  PERFORM set_config('app.employee_import', 'on', true);
+
+  WITH updated AS (
+    UPDATE public.employees e
+    SET name = r.name, email = r.email, pillar = r.pillar, level = r.level, active = true
+    FROM employee_import_rows r
+    WHERE e.employee_id = r.employee_id
+      AND (e.name, e.email, e.pillar, e.level, e.active) IS DISTINCT FROM (r.name, r.email, r.pillar, r.level, true)
+    RETURNING e.employee_id
+  )
+  SELECT coalesce(array_agg(employee_id), '{}') INTO v_updated FROM updated;
+
+  WITH inserted AS (
+    INSERT INTO public.employees (name, email, employee_id, pillar, level)
+    SELECT r.name, r.email, r.employee_id, r.pillar, r.level
+    FROM employee_import_rows r
+    WHERE NOT EXISTS (SELECT 1 FROM public.employees e WHERE e.employee_id = r.employee_id)
+    RETURNING employee_id
+  )
+  SELECT coalesce(array_agg(employee_id), '{}') INTO v_inserted FROM inserted;
+
+  IF p_deactivate_missing THEN
+    WITH deactivated AS (
+      UPDATE public.employees e
+      SET active = false
+      WHERE e.active
+        AND NOT EXISTS (SELECT 1 FROM employee_import_rows r WHERE r.employee_id = e.employee_id)
+      RETURNING e.employee_id
+    )
+    SELECT coalesce(array_agg(employee_id), '{}') INTO v_deactivated FROM deactivated;
+  ELSE
+    v_deactivated := '{}';
+  END IF;
+
+  PERFORM set_config('app.employee_import', 'off', true);
+
+  v_summary := jsonb_build_object(
+    'inserted', cardinality(v_inserted),
+    'updated', cardinality(v_updated),
+    'deactivated', cardinality(v_deactivated)
+  );
+
+  PERFORM public.log_admin_action('employee_import_applied', v_summary || jsonb_build_object(
+    'fileName', left(p_file_name, 200),
+    'rows', v_row_count,
+    'deactivateMissing', p_deactivate_missing,
+    'insertedEmployeeIds', to_jsonb(v_inserted),
+    'updatedEmployeeIds', to_jsonb(v_updated),
+    'deactivatedEmployeeIds', to_jsonb(v_deactivated)
+  ));
+
+  RETURN v_summary;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_employee_import(JSONB, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_employee_import(JSONB, BOOLEAN, TEXT) TO authenticated;
@@ -0,0 +1,63 @@
+/*
+  # Employee export
+
+  1. Functions
+    - `export_employees` - returns the employee roster, optionally filtered by
+      pillar and level, as one JSON array (so large rosters are not cut off
+      by the API row limit) and records the export in `admin_audit_log`
+
+  2. Security
+    - Admin only; the dashboard downloads the result as CSV or JSON so
+      finance and IT no longer need table access in Supabase
+*/
+
+CREATE OR REPLACE FUNCTION public.export_employees(
+  p_pillar TEXT,
+  p_level TEXT,
+  p_include_deactivated BOOLEAN,
+  p_format TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rows JSONB;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_format NOT IN ('csv', 'json') THEN
+    RAISE EXCEPTION 'Unsupported export format' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'employee_id', e.employee_id,
+    'name', e.name,
+    'email', e.email,
+    'pillar', e.pillar,
+    'level', e.level,
+    'active', e.active
+  ) ORDER BY e.pillar, e.name, e.employee_id), '[]'::jsonb)
+  INTO v_rows
+  FROM public.employees e
+  WHERE (p_pillar IS NULL OR e.pillar = p_pillar)
+    AND (p_level IS NULL OR e.level = p_level)
+    AND (p_include_deactivated OR e.active);
+
+  PERFORM public.log_admin_action('employee_export', jsonb_build_object(
+    'pillar', p_pillar,
+    'level', p_level,
+    'includeDeactivated', p_include_deactivated,
+    'format', p_format,
+    'rows', jsonb_array_length(v_rows)
+  ));
+
+  RETURN v_rows;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.export_employees(TEXT, TEXT, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.export_employees(TEXT, TEXT, BOOLEAN, TEXT) TO authenticated;
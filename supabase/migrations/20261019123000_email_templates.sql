@@ -0,0 +1,134 @@
+/*
+  # Email templates
+
+  1. New Tables
+    - `email_templates` - reusable messages ("Quarterly all-hands", "Office
+      closure", ...) with a subject and a body that may contain {{placeholders}}
+    - `email_template_versions` - snapshot of every saved revision, with the
+      editor's id and email
+
+  2. Triggers
+    - Inserting or changing the name, subject or body of a template bumps
+      `current_version`, stores a snapshot and writes an audit log entry
+
+  3. Security
+    - Admins can read, create and update templates; versions are written only
+      by the trigger. Templates are archived rather than deleted.
+*/
+
+CREATE TABLE IF NOT EXISTS public.email_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  subject TEXT NOT NULL CHECK (char_length(subject) <= 200),
+  body TEXT NOT NULL CHECK (char_length(body) <= 10000),
+  current_version INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) NOT NULL DEFAULT auth.uid(),
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  archived_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS email_templates_active_name_idx
+  ON public.email_templates (lower(name))
+  WHERE archived_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.email_template_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID REFERENCES public.email_templates(id) ON DELETE CASCADE NOT NULL,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  edited_by UUID REFERENCES auth.users(id),
+  editor_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (template_id, version)
+);
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can read email templates"
+  ON public.email_templates
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_user());
+
+CREATE POLICY "Only admins can insert email templates"
+  ON public.email_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin_user());
+
+CREATE POLICY "Only admins can update email templates"
+  ON public.email_templates
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin_user())
+  WITH CHECK (public.is_admin_user());
+
+CREATE POLICY "Only admins can read email template versions"
+  ON public.email_template_versions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_user());
+
+-- BEFORE trigger: bump the version when the content changes
+CREATE OR REPLACE FUNCTION public.bump_email_template_version()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.current_version := 1;
+    NEW.updated_by := auth.uid();
+  ELSIF (NEW.name, NEW.subject, NEW.body) IS DISTINCT FROM (OLD.name, OLD.subject, OLD.body) THEN
+    NEW.current_version := OLD.current_version + 1;
+    NEW.updated_by := auth.uid();
+    NEW.updated_at := now();
+  ELSE
+    NEW.current_version := OLD.current_version;
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- AFTER trigger: snapshot the new version and audit the change
+CREATE OR REPLACE FUNCTION public.snapshot_email_template()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.current_version <> OLD.current_version THEN
+    INSERT INTO public.email_template_versions (template_id, version, name, subject, body, edited_by, editor_email)
+    VALUES (NEW.id, NEW.current_version, NEW.name, NEW.subject, NEW.body, auth.uid(), auth.jwt() ->> 'email');
+
+    PERFORM public.log_admin_action(
+      CASE WHEN TG_OP = 'INSERT' THEN 'email_template_created' ELSE 'email_template_updated' END,
+      jsonb_build_object('templateId', NEW.id, 'name', NEW.name, 'version', NEW.current_version)
+    );
+  ELSIF OLD.archived_at IS NULL AND NEW.archived_at IS NOT NULL THEN
+    PERFORM public.log_admin_action('email_template_archived',
+      jsonb_build_object('templateId', NEW.id, 'name', NEW.name));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS email_templates_bump_version ON public.email_templates;
+CREATE TRIGGER email_templates_bump_version
+  BEFORE INSERT OR UPDATE ON public.email_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_email_template_version();
+
+DROP TRIGGER IF EXISTS email_templates_snapshot ON public.email_templates;
+CREATE TRIGGER email_templates_snapshot
+  AFTER INSERT OR UPDATE ON public.email_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_email_template();
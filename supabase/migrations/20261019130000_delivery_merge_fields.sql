@@ -0,0 +1,12 @@
+/*
+  # Per-recipient merge fields
+
+  1. Changes
+    - `email_deliveries.merge_data` - the recipient's merge field values
+      ({{name}}, {{first_name}}, {{pillar}}, {{level}}, {{employee_id}}),
+      captured when the campaign is queued so retries render the same email
+      even if the employee record changes in the meantime
+*/
+
+ALTER TABLE public.email_deliveries
+  ADD COLUMN IF NOT EXISTS merge_data JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,100 @@
+/*
+  # Email attachments
+
+  1. Storage
+    - Private `email-attachments` bucket, limited to 5 MB per file and to the
+      document, calendar and image types in `_shared/attachment-policy.ts`
+    - Admins can upload and read files; files can only be deleted while no
+      campaign uses them
+
+  2. New Tables
+    - `email_attachments` - metadata of every uploaded file. `used_at` is set
+      when a campaign is queued with the file; from then on the file is kept
+      so queued and retried deliveries can still attach it.
+
+  3. Changes
+    - `email_campaigns.attachments` - snapshot of the attached files
+      (id, file name, content type, size, storage path) taken at send time
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'email-attachments',
+  'email-attachments',
+  false,
+  5242880,
+  ARRAY[
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'text/csv',
+    'text/plain',
+    'text/calendar',
+    'image/png',
+    'image/jpeg'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.email_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL CHECK (char_length(file_name) BETWEEN 1 AND 150),
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 5242880),
+  uploaded_by UUID REFERENCES auth.users(id) NOT NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  used_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.email_campaigns
+  ADD COLUMN IF NOT EXISTS attachments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.email_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can read email attachments"
+  ON public.email_attachments
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_user());
+
+CREATE POLICY "Only admins can register email attachments"
+  ON public.email_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin_user() AND uploaded_by = auth.uid() AND used_at IS NULL);
+
+CREATE POLICY "Only admins can delete unused email attachments"
+  ON public.email_attachments
+  FOR DELETE
+  TO authenticated
+  USING (public.is_admin_user() AND used_at IS NULL);
+
+CREATE POLICY "Only admins can upload email attachment files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'email-attachments' AND public.is_admin_user());
+
+CREATE POLICY "Only admins can read email attachment files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'email-attachments' AND public.is_admin_user());
+
+CREATE POLICY "Only admins can delete unused email attachment files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'email-attachments'
+    AND public.is_admin_user()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.email_attachments a
+      WHERE a.storage_path = storage.objects.name AND a.used_at IS NOT NULL
+    )
+  );
@@ -0,0 +1,130 @@
+/*
+  # Scheduled campaigns
+
+  1. Changes
+    - `email_campaigns.status` gains `scheduled` (waiting for its send time)
+      and `cancelled` (cancelled by an admin, or not dispatchable)
+    - `scheduled_for` / `schedule_timezone` - when to send, and the time zone
+      the admin picked it in (for display)
+    - `dispatch_locked_until` - lease taken by the dispatcher while it resolves
+      the recipients; the campaign can't be edited or cancelled meanwhile
+    - `status_reason`, `cancelled_at`, `cancelled_by`, `updated_at`
+
+  2. Functions
+    - `claim_scheduled_campaigns` - leases due scheduled campaigns to the
+      dispatcher in process-email-queue
+    - `queue_scheduled_campaign` - creates the deliveries of a claimed campaign
+      and queues it in one transaction; with no deliveries the campaign is
+      cancelled with the given reason
+
+  3. Security
+    - Both functions are for edge functions only. Scheduling, edits and
+      cancellations go through the send-email and manage-campaign functions,
+      which validate the content and write the audit log.
+*/
+
+ALTER TABLE public.email_campaigns
+  DROP CONSTRAINT IF EXISTS email_campaigns_status_check;
+
+ALTER TABLE public.email_campaigns
+  ADD CONSTRAINT email_campaigns_status_check
+  CHECK (status IN ('scheduled', 'queued', 'sending', 'completed', 'cancelled'));
+
+ALTER TABLE public.email_campaigns
+  ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS schedule_timezone TEXT,
+  ADD COLUMN IF NOT EXISTS dispatch_locked_until TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS status_reason TEXT,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+ALTER TABLE public.email_campaigns
+  ADD CONSTRAINT email_campaigns_schedule_check
+  CHECK (status <> 'scheduled' OR (scheduled_for IS NOT NULL AND schedule_timezone IS NOT NULL));
+
+CREATE INDEX IF NOT EXISTS email_campaigns_due_idx
+  ON public.email_campaigns (scheduled_for)
+  WHERE status = 'scheduled';
+
+CREATE OR REPLACE FUNCTION public.claim_scheduled_campaigns(
+  p_limit INTEGER,
+  p_lease_seconds INTEGER
+)
+RETURNS SETOF public.email_campaigns
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.email_campaigns c
+  SET dispatch_locked_until = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  WHERE c.id IN (
+    SELECT id FROM public.email_campaigns
+    WHERE status = 'scheduled'
+      AND scheduled_for <= now()
+      AND (dispatch_locked_until IS NULL OR dispatch_locked_until < now())
+    ORDER BY scheduled_for
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING c.*;
+END;
+$$;
+
+-- p_deliveries: [{ employee_id, recipient_email, recipient_name, merge_data }]
+CREATE OR REPLACE FUNCTION public.queue_scheduled_campaign(
+  p_campaign_id UUID,
+  p_deliveries JSONB,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.email_campaigns
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_campaign public.email_campaigns;
+  v_count INTEGER := jsonb_array_length(COALESCE(p_deliveries, '[]'::jsonb));
+BEGIN
+  SELECT * INTO v_campaign
+  FROM public.email_campaigns
+  WHERE id = p_campaign_id AND status = 'scheduled'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign % is not scheduled', p_campaign_id;
+  END IF;
+
+  IF v_count = 0 THEN
+    UPDATE public.email_campaigns
+    SET status = 'cancelled',
+        status_reason = COALESCE(p_reason, 'No recipients'),
+        cancelled_at = now(),
+        dispatch_locked_until = NULL,
+        updated_at = now()
+    WHERE id = p_campaign_id
+    RETURNING * INTO v_campaign;
+    RETURN v_campaign;
+  END IF;
+
+  INSERT INTO public.email_deliveries (campaign_id, employee_id, recipient_email, recipient_name, merge_data)
+  SELECT p_campaign_id,
+         (d->>'employee_id')::uuid,
+         d->>'recipient_email',
+         d->>'recipient_name',
+         COALESCE(d->'merge_data', '{}'::jsonb)
+  FROM jsonb_array_elements(p_deliveries) AS d;
+
+  UPDATE public.email_campaigns
+  SET status = 'queued',
+      total_recipients = v_count,
+      dispatch_locked_until = NULL,
+      updated_at = now()
+  WHERE id = p_campaign_id
+  RETURNING * INTO v_campaign;
+
+  RETURN v_campaign;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_scheduled_campaigns(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_scheduled_campaign(UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
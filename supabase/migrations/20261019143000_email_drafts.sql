@@ -0,0 +1,78 @@
+/*
+  # Email drafts
+
+  1. New Tables
+    - `email_drafts` - unsent messages autosaved by the composer: subject,
+      body, audience and attachments, owned by the admin who wrote them
+
+  2. Triggers
+    - Every update bumps `revision` and `updated_at`. The dashboard saves
+      with `revision = <the revision it loaded>` in the filter, so a save
+      from a tab holding an older copy matches no row and is reported as a
+      conflict instead of overwriting the newer text.
+
+  3. Security
+    - Admins can only see and change their own drafts.
+*/
+
+CREATE TABLE IF NOT EXISTS public.email_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  subject TEXT NOT NULL DEFAULT '' CHECK (char_length(subject) <= 200),
+  content TEXT NOT NULL DEFAULT '' CHECK (char_length(content) <= 10000),
+  audience JSONB,
+  -- Snapshot of the attachment metadata shown in the composer
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  revision INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS email_drafts_owner_idx
+  ON public.email_drafts (owner_id, updated_at DESC);
+
+ALTER TABLE public.email_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read their own drafts"
+  ON public.email_drafts
+  FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid() AND public.is_admin_user());
+
+CREATE POLICY "Admins can create their own drafts"
+  ON public.email_drafts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid() AND public.is_admin_user());
+
+CREATE POLICY "Admins can update their own drafts"
+  ON public.email_drafts
+  FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid() AND public.is_admin_user())
+  WITH CHECK (owner_id = auth.uid() AND public.is_admin_user());
+
+CREATE POLICY "Admins can delete their own drafts"
+  ON public.email_drafts
+  FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid() AND public.is_admin_user());
+
+CREATE OR REPLACE FUNCTION public.bump_email_draft_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.revision := OLD.revision + 1;
+  NEW.owner_id := OLD.owner_id;
+  NEW.created_at := OLD.created_at;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS email_drafts_bump_revision ON public.email_drafts;
+CREATE TRIGGER email_drafts_bump_revision
+  BEFORE UPDATE ON public.email_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_email_draft_revision();
@@ -0,0 +1,140 @@
+/*
+  # Two-person approval for large sends
+
+  1. Changes
+    - `email_campaigns.status` gains `pending_approval` (waiting for a second
+      admin), `approved` (waiting for the dispatcher) and `rejected`
+    - `approval_required` / `approval_reasons` - set by send-email when the
+      send is over the recipient threshold or reaches an approval pillar
+    - `requested_by_email`, `reviewed_by`, `reviewed_by_email`, `reviewed_at`,
+      `review_comment` - who asked, who decided and why
+    - `previous_campaign_id` - the rejected campaign this one revises; the
+      approval queue shows a diff against it
+
+  2. Constraints
+    - A campaign that needs approval can't leave `pending_approval` for the
+      send path without a reviewer, and the reviewer can't be the requester
+
+  3. Functions
+    - `claim_scheduled_campaigns` and `queue_scheduled_campaign` also
+      dispatch `approved` campaigns once their send time (if any) is due
+*/
+
+ALTER TABLE public.email_campaigns
+  DROP CONSTRAINT IF EXISTS email_campaigns_status_check;
+
+ALTER TABLE public.email_campaigns
+  ADD CONSTRAINT email_campaigns_status_check
+  CHECK (status IN ('pending_approval', 'approved', 'rejected', 'scheduled', 'queued', 'sending', 'completed', 'cancelled'));
+
+ALTER TABLE public.email_campaigns
+  ADD COLUMN IF NOT EXISTS approval_required BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS approval_reasons TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS requested_by_email TEXT,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS reviewed_by_email TEXT,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS review_comment TEXT CHECK (char_length(review_comment) <= 1000),
+  ADD COLUMN IF NOT EXISTS previous_campaign_id UUID REFERENCES public.email_campaigns(id);
+
+ALTER TABLE public.email_campaigns
+  ADD CONSTRAINT email_campaigns_approval_check
+  CHECK (
+    NOT approval_required
+    OR status IN ('pending_approval', 'rejected', 'cancelled')
+    OR reviewed_by IS NOT NULL
+  );
+
+ALTER TABLE public.email_campaigns
+  ADD CONSTRAINT email_campaigns_second_reviewer_check
+  CHECK (reviewed_by IS NULL OR reviewed_by <> created_by);
+
+DROP INDEX IF EXISTS public.email_campaigns_due_idx;
+CREATE INDEX IF NOT EXISTS email_campaigns_due_idx
+  ON public.email_campaigns (scheduled_for)
+  WHERE status IN ('scheduled', 'approved');
+
+CREATE INDEX IF NOT EXISTS email_campaigns_pending_approval_idx
+  ON public.email_campaigns (created_at)
+  WHERE status = 'pending_approval';
+
+CREATE OR REPLACE FUNCTION public.claim_scheduled_campaigns(
+  p_limit INTEGER,
+  p_lease_seconds INTEGER
+)
+RETURNS SETOF public.email_campaigns
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.email_campaigns c
+  SET dispatch_locked_until = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  WHERE c.id IN (
+    SELECT id FROM public.email_campaigns
+    WHERE status IN ('scheduled', 'approved')
+      AND (scheduled_for IS NULL OR scheduled_for <= now())
+      AND (dispatch_locked_until IS NULL OR dispatch_locked_until < now())
+    ORDER BY scheduled_for NULLS FIRST
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING c.*;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.queue_scheduled_campaign(
+  p_campaign_id UUID,
+  p_deliveries JSONB,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.email_campaigns
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_campaign public.email_campaigns;
+  v_count INTEGER := jsonb_array_length(COALESCE(p_deliveries, '[]'::jsonb));
+BEGIN
+  SELECT * INTO v_campaign
+  FROM public.email_campaigns
+  WHERE id = p_campaign_id AND status IN ('scheduled', 'approved')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign % is not waiting to be dispatched', p_campaign_id;
+  END IF;
+
+  IF v_count = 0 THEN
+    UPDATE public.email_campaigns
+    SET status = 'cancelled',
+        status_reason = COALESCE(p_reason, 'No recipients'),
+        cancelled_at = now(),
+        dispatch_locked_until = NULL,
+        updated_at = now()
+    WHERE id = p_campaign_id
+    RETURNING * INTO v_campaign;
+    RETURN v_campaign;
+  END IF;
+
+  INSERT INTO public.email_deliveries (campaign_id, employee_id, recipient_email, recipient_name, merge_data)
+  SELECT p_campaign_id,
+         (d->>'employee_id')::uuid,
+         d->>'recipient_email',
+         d->>'recipient_name',
+         COALESCE(d->'merge_data', '{}'::jsonb)
+  FROM jsonb_array_elements(p_deliveries) AS d;
+
+  UPDATE public.email_campaigns
+  SET status = 'queued',
+      total_recipients = v_count,
+      dispatch_locked_until = NULL,
+      updated_at = now()
+  WHERE id = p_campaign_id
+  RETURNING * INTO v_campaign;
+
+  RETURN v_campaign;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_scheduled_campaigns(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_scheduled_campaign(UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
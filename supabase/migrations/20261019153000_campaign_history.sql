@@ -0,0 +1,26 @@
+/*
+  # Campaign history
+
+  1. Changes
+    - `email_campaigns.requested_by_email` is now recorded for every campaign,
+      not only for those that needed approval, so the history page can show
+      who sent it (admins can only read their own `admin_users` row).
+      Existing campaigns are backfilled from `admin_users`.
+
+  2. Indexes
+    - `email_campaigns_created_at_idx` for the newest-first history list
+    - `email_deliveries_campaign_recipient_idx` for a campaign's recipient
+      list, which is ordered by name
+*/
+
+UPDATE public.email_campaigns c
+SET requested_by_email = a.email
+FROM public.admin_users a
+WHERE a.user_id = c.created_by
+  AND c.requested_by_email IS NULL;
+
+CREATE INDEX IF NOT EXISTS email_campaigns_created_at_idx
+  ON public.email_campaigns (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS email_deliveries_campaign_recipient_idx
+  ON public.email_deliveries (campaign_id, recipient_name);
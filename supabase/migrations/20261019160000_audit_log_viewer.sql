@@ -0,0 +1,119 @@
+/*
+  # Audit log viewer
+
+  1. Functions
+    - `audit_log_filters` - the distinct actions in `admin_audit_log` and the
+      admins (id and email) for the Audit page's filter menus; admins can
+      otherwise only read their own `admin_users` row
+    - `export_audit_log` - every entry matching the Audit page's filters, up
+      to 50,000 newest first, as one JSON array (so the export is not cut off
+      by the API row limit); the export itself is recorded in the audit log
+
+  2. Indexes
+    - Newest-first listing, optionally filtered by action or admin
+
+  3. Security
+    - Admin only
+*/
+
+CREATE INDEX IF NOT EXISTS admin_audit_log_created_at_idx
+  ON public.admin_audit_log (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS admin_audit_log_action_idx
+  ON public.admin_audit_log (action, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS admin_audit_log_admin_idx
+  ON public.admin_audit_log (admin_user_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.audit_log_filters()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'actions', (
+      SELECT coalesce(jsonb_agg(a.action ORDER BY a.action), '[]'::jsonb)
+      FROM (SELECT DISTINCT action FROM public.admin_audit_log) a
+    ),
+    'admins', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('userId', u.user_id, 'email', u.email) ORDER BY u.email), '[]'::jsonb)
+      FROM public.admin_users u
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.export_audit_log(
+  p_action TEXT,
+  p_admin_user_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE,
+  p_ip_address INET,
+  p_format TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rows JSONB;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_format NOT IN ('csv', 'json') THEN
+    RAISE EXCEPTION 'Unsupported export format' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', l.id,
+    'created_at', l.created_at,
+    'admin_user_id', l.admin_user_id,
+    'admin_email', u.email,
+    'action', l.action,
+    'ip_address', host(l.ip_address),
+    'user_agent', l.user_agent,
+    'details', l.details
+  ) ORDER BY l.created_at DESC), '[]'::jsonb)
+  INTO v_rows
+  FROM (
+    SELECT *
+    FROM public.admin_audit_log
+    WHERE (p_action IS NULL OR action = p_action)
+      AND (p_admin_user_id IS NULL OR admin_user_id = p_admin_user_id)
+      AND (p_from IS NULL OR created_at >= p_from)
+      AND (p_to IS NULL OR created_at < p_to)
+      AND (p_ip_address IS NULL OR ip_address = p_ip_address)
+    ORDER BY created_at DESC
+    LIMIT 50000
+  ) l
+  LEFT JOIN public.admin_users u ON u.user_id = l.admin_user_id;
+
+  PERFORM public.log_admin_action('audit_log_export', jsonb_build_object(
+    'action', p_action,
+    'adminUserId', p_admin_user_id,
+    'from', p_from,
+    'to', p_to,
+    'ipAddress', host(p_ip_address),
+    'format', p_format,
+    'rows', jsonb_array_length(v_rows)
+  ));
+
+  RETURN v_rows;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.audit_log_filters() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.audit_log_filters() TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.export_audit_log(TEXT, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INET, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.export_audit_log(TEXT, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INET, TEXT) TO authenticated;
@@ -0,0 +1,192 @@
+/*
+  # Delivery events from the mail provider
+
+  1. New Tables
+    - `email_events` - every event received by the `email-webhook` function,
+      keyed by the provider's event id so redelivered webhooks are ignored
+
+  2. Changes
+    - `email_deliveries.status` gains `delivered` (accepted by the recipient's
+      mailbox) and `complained` (marked as spam); `bounced` is now set from
+      bounce events
+    - `email_deliveries.delivered_at`, `bounced_at`, `bounce_type`,
+      `complained_at`, `last_event`, `last_event_at`
+    - `employees.email_bounced_at` / `email_bounce_reason` - set on a hard
+      bounce and cleared when the employee's email address changes
+    - `sync_email_campaign` counts delivered and complained deliveries as sent
+
+  3. Functions
+    - `apply_email_event` - records one event and applies it to the matching
+      delivery (by provider message id) and employee in one transaction.
+      Events never move a delivery backwards: a late `delivered` does not
+      undo a bounce.
+
+  4. Security
+    - Admins can read events; writes only happen from the webhook function
+*/
+
+ALTER TABLE public.email_deliveries
+  DROP CONSTRAINT IF EXISTS email_deliveries_status_check;
+
+ALTER TABLE public.email_deliveries
+  ADD CONSTRAINT email_deliveries_status_check
+  CHECK (status IN ('queued', 'sending', 'sent', 'delivered', 'failed', 'bounced', 'complained'));
+
+ALTER TABLE public.email_deliveries
+  ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS bounced_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS bounce_type TEXT CHECK (bounce_type IN ('hard', 'soft')),
+  ADD COLUMN IF NOT EXISTS complained_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS last_event TEXT,
+  ADD COLUMN IF NOT EXISTS last_event_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.employees
+  ADD COLUMN IF NOT EXISTS email_bounced_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS email_bounce_reason TEXT;
+
+CREATE TABLE IF NOT EXISTS public.email_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id TEXT NOT NULL UNIQUE CHECK (char_length(event_id) <= 200),
+  event_type TEXT NOT NULL CHECK (event_type IN ('delivered', 'bounced', 'complained', 'deferred')),
+  provider_message_id TEXT NOT NULL,
+  recipient_email TEXT NOT NULL,
+  delivery_id UUID REFERENCES public.email_deliveries(id) ON DELETE SET NULL,
+  bounce_type TEXT CHECK (bounce_type IN ('hard', 'soft')),
+  reason TEXT,
+  payload JSONB NOT NULL DEFAULT '{}',
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS email_events_delivery_idx ON public.email_events (delivery_id, occurred_at);
+CREATE INDEX IF NOT EXISTS email_events_recipient_idx ON public.email_events (lower(recipient_email), occurred_at);
+
+ALTER TABLE public.email_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can read email events"
+  ON public.email_events
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_user());
+
+-- A new address hasn't bounced yet
+CREATE OR REPLACE FUNCTION public.clear_employee_bounce()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF lower(NEW.email) IS DISTINCT FROM lower(OLD.email) THEN
+    NEW.email_bounced_at := NULL;
+    NEW.email_bounce_reason := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS employees_clear_bounce ON public.employees;
+CREATE TRIGGER employees_clear_bounce
+  BEFORE UPDATE ON public.employees
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_employee_bounce();
+
+CREATE OR REPLACE FUNCTION public.sync_email_campaign(p_campaign_id UUID)
+RETURNS public.email_campaigns
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_pending INTEGER;
+  v_campaign public.email_campaigns;
+BEGIN
+  SELECT count(*) INTO v_pending
+  FROM public.email_deliveries
+  WHERE campaign_id = p_campaign_id AND status IN ('queued', 'sending');
+
+  UPDATE public.email_campaigns c
+  SET sent_count = (SELECT count(*) FROM public.email_deliveries WHERE campaign_id = c.id AND status IN ('sent', 'delivered', 'complained')),
+      failed_count = (SELECT count(*) FROM public.email_deliveries WHERE campaign_id = c.id AND status IN ('failed', 'bounced')),
+      status = CASE WHEN v_pending = 0 THEN 'completed' ELSE c.status END,
+      completed_at = CASE WHEN v_pending = 0 THEN COALESCE(c.completed_at, now()) ELSE NULL END
+  WHERE c.id = p_campaign_id
+  RETURNING c.* INTO v_campaign;
+
+  RETURN v_campaign;
+END;
+$$;
+
+-- Returns 'applied', 'duplicate' (event id seen before) or 'unmatched' (no
+-- delivery with that message id and recipient; the event is still stored)
+CREATE OR REPLACE FUNCTION public.apply_email_event(
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_provider_message_id TEXT,
+  p_recipient_email TEXT,
+  p_occurred_at TIMESTAMP WITH TIME ZONE,
+  p_bounce_type TEXT,
+  p_reason TEXT,
+  p_payload JSONB
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_event_id UUID;
+  v_delivery public.email_deliveries;
+BEGIN
+  SELECT * INTO v_delivery
+  FROM public.email_deliveries
+  WHERE provider_message_id = p_provider_message_id
+    AND lower(recipient_email) = lower(p_recipient_email)
+  FOR UPDATE;
+
+  INSERT INTO public.email_events (
+    event_id, event_type, provider_message_id, recipient_email, delivery_id,
+    bounce_type, reason, payload, occurred_at
+  )
+  VALUES (
+    p_event_id, p_event_type, p_provider_message_id, p_recipient_email, v_delivery.id,
+    p_bounce_type, left(p_reason, 500), coalesce(p_payload, '{}'), p_occurred_at
+  )
+  ON CONFLICT (event_id) DO NOTHING
+  RETURNING id INTO v_event_id;
+
+  IF v_event_id IS NULL THEN
+    RETURN 'duplicate';
+  END IF;
+  IF v_delivery.id IS NULL THEN
+    RETURN 'unmatched';
+  END IF;
+
+  UPDATE public.email_deliveries d
+  SET status = CASE
+        WHEN p_event_type = 'delivered' AND d.status = 'sent' THEN 'delivered'
+        WHEN p_event_type = 'bounced' AND d.status IN ('sent', 'delivered') THEN 'bounced'
+        WHEN p_event_type = 'complained' AND d.status IN ('sent', 'delivered') THEN 'complained'
+        ELSE d.status
+      END,
+      delivered_at = CASE WHEN p_event_type = 'delivered' THEN coalesce(d.delivered_at, p_occurred_at) ELSE d.delivered_at END,
+      bounced_at = CASE WHEN p_event_type = 'bounced' THEN coalesce(d.bounced_at, p_occurred_at) ELSE d.bounced_at END,
+      bounce_type = CASE WHEN p_event_type = 'bounced' THEN coalesce(p_bounce_type, 'hard') ELSE d.bounce_type END,
+      complained_at = CASE WHEN p_event_type = 'complained' THEN coalesce(d.complained_at, p_occurred_at) ELSE d.complained_at END,
+      last_error = CASE WHEN p_event_type IN ('bounced', 'deferred') AND p_reason IS NOT NULL THEN left(p_reason, 500) ELSE d.last_error END,
+      last_event = p_event_type,
+      last_event_at = p_occurred_at,
+      updated_at = now()
+  WHERE d.id = v_delivery.id;
+
+  IF p_event_type = 'bounced' AND coalesce(p_bounce_type, 'hard') = 'hard' THEN
+    UPDATE public.employees
+    SET email_bounced_at = p_occurred_at,
+        email_bounce_reason = left(coalesce(p_reason, 'Hard bounce'), 500)
+    WHERE (id = v_delivery.employee_id OR (v_delivery.employee_id IS NULL AND lower(email) = lower(p_recipient_email)))
+      AND lower(email) = lower(p_recipient_email);
+  END IF;
+
+  IF p_event_type IN ('bounced', 'complained') THEN
+    PERFORM public.sync_email_campaign(v_delivery.campaign_id);
+  END IF;
+
+  RETURN 'applied';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_email_event(TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,284 @@
+/*
+  # Email suppression list
+
+  1. New Tables
+    - `email_suppressions` - addresses that must not be mailed, with the
+      reason, where the entry came from (`manual`, `bounce` or `complaint`)
+      and an optional expiry. One row per address, stored in lower case.
+
+  2. Changes
+    - `email_deliveries.status` gains `suppressed`: the recipient was in the
+      audience but skipped at send time; `suppression_reason` says why.
+      Suppressed deliveries are never claimed or retried.
+    - `email_campaigns.suppressed_count` - recipients skipped this way. They
+      are not part of `total_recipients`, `sent_count` or `failed_count`.
+    - `queue_scheduled_campaign` accepts suppressed deliveries next to the
+      queued ones, and cancels a campaign whose recipients are all suppressed
+    - `apply_email_event` suppresses the address on a hard bounce or a
+      complaint
+
+  3. Triggers
+    - Inserts normalize the address and record the admin who added the entry;
+      adding and removing entries writes an audit log entry
+
+  4. Security
+    - Admins can read, add and remove entries
+*/
+
+CREATE TABLE IF NOT EXISTS public.email_suppressions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL UNIQUE CHECK (char_length(email) BETWEEN 3 AND 254),
+  reason TEXT NOT NULL CHECK (char_length(reason) BETWEEN 1 AND 500),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'bounce', 'complaint')),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id),
+  created_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS email_suppressions_created_at_idx ON public.email_suppressions (created_at DESC);
+
+ALTER TABLE public.email_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can read email suppressions"
+  ON public.email_suppressions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_user());
+
+CREATE POLICY "Only admins can insert email suppressions"
+  ON public.email_suppressions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin_user());
+
+CREATE POLICY "Only admins can delete email suppressions"
+  ON public.email_suppressions
+  FOR DELETE
+  TO authenticated
+  USING (public.is_admin_user());
+
+-- BEFORE trigger: one spelling per address, and the author comes from the session
+CREATE OR REPLACE FUNCTION public.normalize_email_suppression()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.email := lower(btrim(NEW.email));
+  NEW.created_by := auth.uid();
+  NEW.created_by_email := auth.jwt() ->> 'email';
+  RETURN NEW;
+END;
+$$;
+
+-- AFTER trigger: entries added by the webhook have no admin and are not logged
+CREATE OR REPLACE FUNCTION public.audit_email_suppression_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.log_admin_action('email_suppression_added', jsonb_build_object(
+      'email', NEW.email,
+      'reason', NEW.reason,
+      'source', NEW.source,
+      'expiresAt', NEW.expires_at
+    ));
+  ELSE
+    PERFORM public.log_admin_action('email_suppression_removed', jsonb_build_object(
+      'email', OLD.email,
+      'reason', OLD.reason,
+      'source', OLD.source
+    ));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS email_suppressions_normalize ON public.email_suppressions;
+CREATE TRIGGER email_suppressions_normalize
+  BEFORE INSERT ON public.email_suppressions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_email_suppression();
+
+DROP TRIGGER IF EXISTS email_suppressions_audit ON public.email_suppressions;
+CREATE TRIGGER email_suppressions_audit
+  AFTER INSERT OR DELETE ON public.email_suppressions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_email_suppression_change();
+
+ALTER TABLE public.email_deliveries
+  DROP CONSTRAINT IF EXISTS email_deliveries_status_check;
+
+ALTER TABLE public.email_deliveries
+  ADD CONSTRAINT email_deliveries_status_check
+  CHECK (status IN ('queued', 'sending', 'sent', 'delivered', 'failed', 'bounced', 'complained', 'suppressed'));
+
+ALTER TABLE public.email_deliveries
+  ADD COLUMN IF NOT EXISTS suppression_reason TEXT;
+
+ALTER TABLE public.email_campaigns
+  ADD COLUMN IF NOT EXISTS suppressed_count INTEGER NOT NULL DEFAULT 0;
+
+-- Deliveries carry a `status` of `queued` or `suppressed`; only queued ones
+-- count towards total_recipients
+CREATE OR REPLACE FUNCTION public.queue_scheduled_campaign(
+  p_campaign_id UUID,
+  p_deliveries JSONB,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.email_campaigns
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_campaign public.email_campaigns;
+  v_count INTEGER;
+  v_suppressed INTEGER;
+BEGIN
+  SELECT count(*) FILTER (WHERE coalesce(d->>'status', 'queued') = 'queued'),
+         count(*) FILTER (WHERE d->>'status' = 'suppressed')
+  INTO v_count, v_suppressed
+  FROM jsonb_array_elements(COALESCE(p_deliveries, '[]'::jsonb)) AS d;
+
+  SELECT * INTO v_campaign
+  FROM public.email_campaigns
+  WHERE id = p_campaign_id AND status IN ('scheduled', 'approved')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign % is not waiting to be dispatched', p_campaign_id;
+  END IF;
+
+  INSERT INTO public.email_deliveries (campaign_id, employee_id, recipient_email, recipient_name, merge_data, status, suppression_reason)
+  SELECT p_campaign_id,
+         (d->>'employee_id')::uuid,
+         d->>'recipient_email',
+         d->>'recipient_name',
+         COALESCE(d->'merge_data', '{}'::jsonb),
+         coalesce(d->>'status', 'queued'),
+         d->>'suppression_reason'
+  FROM jsonb_array_elements(COALESCE(p_deliveries, '[]'::jsonb)) AS d;
+
+  IF v_count = 0 THEN
+    UPDATE public.email_campaigns
+    SET status = 'cancelled',
+        status_reason = COALESCE(p_reason, 'No recipients'),
+        suppressed_count = v_suppressed,
+        cancelled_at = now(),
+        dispatch_locked_until = NULL,
+        updated_at = now()
+    WHERE id = p_campaign_id
+    RETURNING * INTO v_campaign;
+    RETURN v_campaign;
+  END IF;
+
+  UPDATE public.email_campaigns
+  SET status = 'queued',
+      total_recipients = v_count,
+      suppressed_count = v_suppressed,
+      dispatch_locked_until = NULL,
+      updated_at = now()
+  WHERE id = p_campaign_id
+  RETURNING * INTO v_campaign;
+
+  RETURN v_campaign;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.queue_scheduled_campaign(UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, plus: hard bounces and complaints suppress the address.
+-- An existing entry becomes permanent and takes the new reason.
+CREATE OR REPLACE FUNCTION public.apply_email_event(
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_provider_message_id TEXT,
+  p_recipient_email TEXT,
+  p_occurred_at TIMESTAMP WITH TIME ZONE,
+  p_bounce_type TEXT,
+  p_reason TEXT,
+  p_payload JSONB
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_event_id UUID;
+  v_delivery public.email_deliveries;
+BEGIN
+  SELECT * INTO v_delivery
+  FROM public.email_deliveries
+  WHERE provider_message_id = p_provider_message_id
+    AND lower(recipient_email) = lower(p_recipient_email)
+  FOR UPDATE;
+
+  INSERT INTO public.email_events (
+    event_id, event_type, provider_message_id, recipient_email, delivery_id,
+    bounce_type, reason, payload, occurred_at
+  )
+  VALUES (
+    p_event_id, p_event_type, p_provider_message_id, p_recipient_email, v_delivery.id,
+    p_bounce_type, left(p_reason, 500), coalesce(p_payload, '{}'), p_occurred_at
+  )
+  ON CONFLICT (event_id) DO NOTHING
+  RETURNING id INTO v_event_id;
+
+  IF v_event_id IS NULL THEN
+    RETURN 'duplicate';
+  END IF;
+  IF v_delivery.id IS NULL THEN
+    RETURN 'unmatched';
+  END IF;
+
+  UPDATE public.email_deliveries d
+  SET status = CASE
+        WHEN p_event_type = 'delivered' AND d.status = 'sent' THEN 'delivered'
+        WHEN p_event_type = 'bounced' AND d.status IN ('sent', 'delivered') THEN 'bounced'
+        WHEN p_event_type = 'complained' AND d.status IN ('sent', 'delivered') THEN 'complained'
+        ELSE d.status
+      END,
+      delivered_at = CASE WHEN p_event_type = 'delivered' THEN coalesce(d.delivered_at, p_occurred_at) ELSE d.delivered_at END,
+      bounced_at = CASE WHEN p_event_type = 'bounced' THEN coalesce(d.bounced_at, p_occurred_at) ELSE d.bounced_at END,
+      bounce_type = CASE WHEN p_event_type = 'bounced' THEN coalesce(p_bounce_type, 'hard') ELSE d.bounce_type END,
+      complained_at = CASE WHEN p_event_type = 'complained' THEN coalesce(d.complained_at, p_occurred_at) ELSE d.complained_at END,
+      last_error = CASE WHEN p_event_type IN ('bounced', 'deferred') AND p_reason IS NOT NULL THEN left(p_reason, 500) ELSE d.last_error END,
+      last_event = p_event_type,
+      last_event_at = p_occurred_at,
+      updated_at = now()
+  WHERE d.id = v_delivery.id;
+
+  IF p_event_type = 'bounced' AND coalesce(p_bounce_type, 'hard') = 'hard' THEN
+    UPDATE public.employees
+    SET email_bounced_at = p_occurred_at,
+        email_bounce_reason = left(coalesce(p_reason, 'Hard bounce'), 500)
+    WHERE (id = v_delivery.employee_id OR (v_delivery.employee_id IS NULL AND lower(email) = lower(p_recipient_email)))
+      AND lower(email) = lower(p_recipient_email);
+  END IF;
+
+  IF (p_event_type = 'bounced' AND coalesce(p_bounce_type, 'hard') = 'hard') OR p_event_type = 'complained' THEN
+    INSERT INTO public.email_suppressions (email, reason, source)
+    VALUES (
+      lower(p_recipient_email),
+      CASE
+        WHEN p_event_type = 'complained' THEN 'Marked a message as spam'
+        ELSE left(coalesce(p_reason, 'Hard bounce'), 500)
+      END,
+      CASE WHEN p_event_type = 'complained' THEN 'complaint' ELSE 'bounce' END
+    )
+    ON CONFLICT (email) DO UPDATE
+    SET reason = EXCLUDED.reason,
+        source = EXCLUDED.source,
+        expires_at = NULL;
+  END IF;
+
+  IF p_event_type IN ('bounced', 'complained') THEN
+    PERFORM public.sync_email_campaign(v_delivery.campaign_id);
+  END IF;
+
+  RETURN 'applied';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_email_event(TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
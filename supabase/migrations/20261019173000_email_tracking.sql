@@ -0,0 +1,169 @@
+/*
+  # Open and click tracking
+
+  1. New Tables
+    - `pillar_tracking_settings` - whether opens and clicks may be tracked for
+      a pillar's employees. Pillars without a row are never tracked, so
+      tracking stays off until an admin enables it for a pillar.
+
+  2. Changes
+    - `email_campaigns.track_opens` / `track_clicks` - tracking requested for
+      the campaign (off by default)
+    - `email_campaigns.confidential` - confidential campaigns are never
+      tracked, whatever the flags say
+    - `email_deliveries.track_opens` / `track_clicks` - whether the message
+      that was actually sent carried the pixel and tracked links; set by the
+      queue worker from the campaign and the recipient's pillar at send time
+    - `email_deliveries.opened_at`, `open_count`, `clicked_at`, `click_count`
+
+  3. Functions
+    - `record_email_tracking` - counts an open or click for a delivery, only
+      when the sent message was tracked for that kind of event (called by
+      the `email-track` function)
+    - `campaign_engagement` - opens and clicks of a campaign per pillar
+
+  4. Security
+    - Admins can read and change the pillar settings; changes are audited.
+      Only IP-free counts are stored, no user agents or addresses.
+*/
+
+CREATE TABLE IF NOT EXISTS public.pillar_tracking_settings (
+  pillar TEXT PRIMARY KEY CHECK (char_length(pillar) BETWEEN 1 AND 100),
+  track_opens BOOLEAN NOT NULL DEFAULT false,
+  track_clicks BOOLEAN NOT NULL DEFAULT false,
+  updated_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pillar_tracking_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can read pillar tracking settings"
+  ON public.pillar_tracking_settings
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_user());
+
+CREATE POLICY "Only admins can insert pillar tracking settings"
+  ON public.pillar_tracking_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin_user());
+
+CREATE POLICY "Only admins can update pillar tracking settings"
+  ON public.pillar_tracking_settings
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin_user())
+  WITH CHECK (public.is_admin_user());
+
+CREATE OR REPLACE FUNCTION public.audit_pillar_tracking_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.track_opens = OLD.track_opens
+    AND NEW.track_clicks = OLD.track_clicks THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.log_admin_action('pillar_tracking_updated', jsonb_build_object(
+    'pillar', NEW.pillar,
+    'trackOpens', NEW.track_opens,
+    'trackClicks', NEW.track_clicks
+  ));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS pillar_tracking_settings_audit ON public.pillar_tracking_settings;
+CREATE TRIGGER pillar_tracking_settings_audit
+  AFTER INSERT OR UPDATE ON public.pillar_tracking_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_pillar_tracking_change();
+
+ALTER TABLE public.email_campaigns
+  ADD COLUMN IF NOT EXISTS confidential BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS track_opens BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS track_clicks BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.email_campaigns
+  ADD CONSTRAINT email_campaigns_confidential_tracking_check
+  CHECK (NOT confidential OR (NOT track_opens AND NOT track_clicks));
+
+ALTER TABLE public.email_deliveries
+  ADD COLUMN IF NOT EXISTS track_opens BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS track_clicks BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS opened_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS open_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS clicked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS click_count INTEGER NOT NULL DEFAULT 0;
+
+-- p_event is 'open' or 'click'. Returns false when the delivery doesn't exist
+-- or wasn't tracked for that event (e.g. the campaign is confidential).
+CREATE OR REPLACE FUNCTION public.record_email_tracking(p_delivery_id UUID, p_event TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_event = 'open' THEN
+    UPDATE public.email_deliveries d
+    SET opened_at = coalesce(d.opened_at, now()),
+        open_count = d.open_count + 1
+    FROM public.email_campaigns c
+    WHERE d.id = p_delivery_id
+      AND c.id = d.campaign_id
+      AND d.track_opens
+      AND NOT c.confidential;
+  ELSIF p_event = 'click' THEN
+    -- A click implies the message was opened, even with images blocked
+    UPDATE public.email_deliveries d
+    SET clicked_at = coalesce(d.clicked_at, now()),
+        click_count = d.click_count + 1,
+        opened_at = CASE WHEN d.track_opens THEN coalesce(d.opened_at, now()) ELSE d.opened_at END
+    FROM public.email_campaigns c
+    WHERE d.id = p_delivery_id
+      AND c.id = d.campaign_id
+      AND d.track_clicks
+      AND NOT c.confidential;
+  ELSE
+    RAISE EXCEPTION 'Unknown tracking event %', p_event;
+  END IF;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_email_tracking(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Runs with the caller's rights, so the deliveries' admin-only RLS applies
+CREATE OR REPLACE FUNCTION public.campaign_engagement(p_campaign_id UUID)
+RETURNS TABLE (
+  pillar TEXT,
+  sent INTEGER,
+  open_tracked INTEGER,
+  opened INTEGER,
+  click_tracked INTEGER,
+  clicked INTEGER,
+  opens INTEGER,
+  clicks INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(d.merge_data->>'pillar', 'Unknown') AS pillar,
+         count(*)::INTEGER AS sent,
+         count(*) FILTER (WHERE d.track_opens)::INTEGER AS open_tracked,
+         count(d.opened_at) FILTER (WHERE d.track_opens)::INTEGER AS opened,
+         count(*) FILTER (WHERE d.track_clicks)::INTEGER AS click_tracked,
+         count(d.clicked_at) FILTER (WHERE d.track_clicks)::INTEGER AS clicked,
+         coalesce(sum(d.open_count), 0)::INTEGER AS opens,
+         coalesce(sum(d.click_count), 0)::INTEGER AS clicks
+  FROM public.email_deliveries d
+  WHERE d.campaign_id = p_campaign_id
+    AND d.status IN ('sent', 'delivered', 'complained')
+  GROUP BY 1
+  ORDER BY 1;
+$$;
@@ -0,0 +1,140 @@
+/*
+  # Communications analytics
+
+  1. Functions
+    - `communications_analytics` - aggregates for the Analytics page over the
+      campaigns started since `p_from`, as one JSON object, so the browser
+      never downloads delivery rows:
+        - `weeks`: campaigns started, messages sent and failed, and the median
+          time to deliver, per week (weeks start on Monday in `p_timezone`;
+          weeks without sends are included with zeros)
+        - `pillars`: messages sent and failed per recipient pillar
+        - `senders`: the ten admins who started the most campaigns
+        - `totals`: the same figures over the whole range
+      Sent counts deliveries that reached the provider (`sent`, `delivered`,
+      `complained`) and failed counts `failed` and `bounced`, as on the
+      campaign pages. Suppressed and still queued deliveries are left out.
+      Time to deliver runs from when the delivery was queued until the
+      provider confirmed delivery, or accepted the message when no delivery
+      event arrived.
+
+  2. Indexes
+    - `email_campaigns_started_at_idx` for the date range
+
+  3. Security
+    - Runs with the caller's rights, so the admin-only RLS on campaigns and
+      deliveries applies
+*/
+
+CREATE INDEX IF NOT EXISTS email_campaigns_started_at_idx
+  ON public.email_campaigns (started_at)
+  WHERE started_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.communications_analytics(
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_timezone TEXT
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  WITH campaigns AS (
+    SELECT c.id,
+           coalesce(c.requested_by_email, 'Unknown') AS sender,
+           date_trunc('week', c.started_at AT TIME ZONE p_timezone)::DATE AS week
+    FROM public.email_campaigns c
+    WHERE c.started_at >= p_from
+  ),
+  deliveries AS (
+    SELECT c.week,
+           c.sender,
+           coalesce(d.merge_data->>'pillar', 'Unknown') AS pillar,
+           d.status IN ('sent', 'delivered', 'complained') AS sent,
+           d.status IN ('failed', 'bounced') AS failed,
+           CASE WHEN d.status IN ('sent', 'delivered', 'complained')
+             THEN extract(EPOCH FROM coalesce(d.delivered_at, d.sent_at) - d.created_at)
+           END AS seconds
+    FROM campaigns c
+    JOIN public.email_deliveries d ON d.campaign_id = c.id
+    WHERE d.status IN ('sent', 'delivered', 'complained', 'failed', 'bounced')
+  ),
+  weeks AS (
+    SELECT generate_series(
+      date_trunc('week', p_from AT TIME ZONE p_timezone),
+      date_trunc('week', now() AT TIME ZONE p_timezone),
+      INTERVAL '1 week'
+    )::DATE AS week
+  ),
+  weekly_campaigns AS (
+    SELECT week, count(*) AS campaigns
+    FROM campaigns
+    GROUP BY week
+  ),
+  weekly_deliveries AS (
+    SELECT week,
+           count(*) FILTER (WHERE sent) AS sent,
+           count(*) FILTER (WHERE failed) AS failed,
+           percentile_cont(0.5) WITHIN GROUP (ORDER BY seconds) AS median_seconds
+    FROM deliveries
+    GROUP BY week
+  ),
+  sender_campaigns AS (
+    SELECT sender, count(*) AS campaigns
+    FROM campaigns
+    GROUP BY sender
+  ),
+  sender_deliveries AS (
+    SELECT sender, count(*) FILTER (WHERE sent) AS sent
+    FROM deliveries
+    GROUP BY sender
+  )
+  SELECT jsonb_build_object(
+    'weeks', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object(
+        'week', w.week,
+        'campaigns', coalesce(wc.campaigns, 0),
+        'sent', coalesce(wd.sent, 0),
+        'failed', coalesce(wd.failed, 0),
+        'medianSeconds', round(wd.median_seconds)
+      ) ORDER BY w.week), '[]'::jsonb)
+      FROM weeks w
+      LEFT JOIN weekly_campaigns wc ON wc.week = w.week
+      LEFT JOIN weekly_deliveries wd ON wd.week = w.week
+    ),
+    'pillars', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object(
+        'pillar', p.pillar,
+        'sent', p.sent,
+        'failed', p.failed
+      ) ORDER BY p.sent DESC, p.pillar), '[]'::jsonb)
+      FROM (
+        SELECT pillar, count(*) FILTER (WHERE sent) AS sent, count(*) FILTER (WHERE failed) AS failed
+        FROM deliveries
+        GROUP BY pillar
+      ) p
+    ),
+    'senders', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object(
+        'email', s.sender,
+        'campaigns', s.campaigns,
+        'sent', s.sent
+      ) ORDER BY s.campaigns DESC, s.sent DESC, s.sender), '[]'::jsonb)
+      FROM (
+        SELECT sc.sender, sc.campaigns, coalesce(sd.sent, 0) AS sent
+        FROM sender_campaigns sc
+        LEFT JOIN sender_deliveries sd ON sd.sender = sc.sender
+        ORDER BY sc.campaigns DESC, coalesce(sd.sent, 0) DESC, sc.sender
+        LIMIT 10
+      ) s
+    ),
+    'totals', jsonb_build_object(
+      'campaigns', (SELECT count(*) FROM campaigns),
+      'sent', (SELECT count(*) FILTER (WHERE sent) FROM deliveries),
+      'failed', (SELECT count(*) FILTER (WHERE failed) FROM deliveries),
+      'medianSeconds', (SELECT round(percentile_cont(0.5) WITHIN GROUP (ORDER BY seconds)) FROM deliveries)
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.communications_analytics(TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.communications_analytics(TIMESTAMP WITH TIME ZONE, TEXT) TO authenticated;
@@ -0,0 +1,108 @@
+/*
+  # Email categories and employee preferences
+
+  1. New Tables
+    - `email_categories` - what a campaign is about. Mandatory categories
+      reach every employee; optional ones can be unsubscribed from. Seeded
+      with company announcements (mandatory), newsletters and social events.
+    - `email_category_opt_outs` - employees who unsubscribed from an
+      optional category, and whether they did it from the preferences page
+      or with their mail client's one-click unsubscribe
+
+  2. Changes
+    - `email_campaigns.category` - existing campaigns, and sends that don't
+      name a category, are announcements
+
+  3. Functions
+    - `set_email_category_preference` - subscribes or unsubscribes an
+      employee from an optional category (called by the `email-preferences`
+      function)
+
+  4. Security
+    - Admins can read categories and opt-outs. Only the service role
+      changes opt-outs, on behalf of the employee holding a signed link.
+*/
+
+CREATE TABLE IF NOT EXISTS public.email_categories (
+  id TEXT PRIMARY KEY CHECK (id ~ '^[a-z][a-z0-9_]{0,49}$'),
+  label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 100),
+  description TEXT NOT NULL DEFAULT '',
+  mandatory BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.email_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can read email categories"
+  ON public.email_categories
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_user());
+
+INSERT INTO public.email_categories (id, label, description, mandatory, sort_order)
+VALUES
+  ('announcements', 'Company announcements', 'Policy changes, security notices and other messages every employee must receive', true, 1),
+  ('newsletters', 'Newsletters', 'Regular news and updates from around the company', false, 2),
+  ('social_events', 'Social events', 'Invitations to team events, celebrations and other activities', false, 3)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.email_category_opt_outs (
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  category TEXT NOT NULL REFERENCES public.email_categories(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('preferences', 'one_click')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (employee_id, category)
+);
+
+CREATE INDEX IF NOT EXISTS email_category_opt_outs_category_idx
+  ON public.email_category_opt_outs (category);
+
+ALTER TABLE public.email_category_opt_outs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can read email category opt-outs"
+  ON public.email_category_opt_outs
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin_user());
+
+ALTER TABLE public.email_campaigns
+  ADD COLUMN IF NOT EXISTS category TEXT NOT NULL DEFAULT 'announcements'
+    REFERENCES public.email_categories(id);
+
+-- Unsubscribing twice keeps the first opt-out and its source
+CREATE OR REPLACE FUNCTION public.set_email_category_preference(
+  p_employee_id UUID,
+  p_category TEXT,
+  p_subscribed BOOLEAN,
+  p_source TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_mandatory BOOLEAN;
+BEGIN
+  SELECT mandatory INTO v_mandatory
+  FROM public.email_categories
+  WHERE id = p_category;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown email category %', p_category;
+  END IF;
+  IF v_mandatory THEN
+    RAISE EXCEPTION 'Email category % is mandatory', p_category;
+  END IF;
+
+  IF p_subscribed THEN
+    DELETE FROM public.email_category_opt_outs
+    WHERE employee_id = p_employee_id
+      AND category = p_category;
+  ELSE
+    INSERT INTO public.email_category_opt_outs (employee_id, category, source)
+    VALUES (p_employee_id, p_category, p_source)
+    ON CONFLICT (employee_id, category) DO NOTHING;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_email_category_preference(UUID, TEXT, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,47 @@
+/*
+  # Whole-directory lists for the Employees page
+
+  1. Functions
+    - `employee_import_snapshot` - every employee, active or not, as one JSON
+      array, for the import dry run. Selecting the table directly is cut off
+      at the API row limit, which made existing employees look new and
+      under-counted deactivations in larger directories.
+    - `employee_pillars` - the distinct pillars of active employees, sorted,
+      for the pillar suggestions in the employee form
+
+  2. Security
+    - Both run with the caller's rights, so the admin-only RLS on employees
+      applies
+*/
+
+CREATE OR REPLACE FUNCTION public.employee_import_snapshot()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', e.id,
+    'name', e.name,
+    'email', e.email,
+    'employee_id', e.employee_id,
+    'pillar', e.pillar,
+    'level', e.level,
+    'active', e.active
+  ) ORDER BY e.employee_id), '[]'::jsonb)
+  FROM public.employees e;
+$$;
+
+CREATE OR REPLACE FUNCTION public.employee_pillars()
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(array_agg(DISTINCT e.pillar ORDER BY e.pillar), '{}')
+  FROM public.employees e
+  WHERE e.active;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.employee_import_snapshot() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.employee_import_snapshot() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.employee_pillars() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.employee_pillars() TO authenticated;
@@ -0,0 +1,33 @@
+/*
+  # Suppressions of an audience
+
+  1. Functions
+    - `audience_suppressions` - the entries that haven't expired for the
+      given addresses, as one JSON array. send-email, the dispatcher and the
+      send preview used to select the whole list, which the API cuts off at
+      its row limit, so suppressed addresses past the first page were mailed
+      and missing from the preview's skipped list.
+
+  2. Security
+    - Runs with the caller's rights, so only admins (and the service role)
+      see entries
+*/
+
+CREATE OR REPLACE FUNCTION public.audience_suppressions(p_emails TEXT[])
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'email', s.email,
+    'reason', s.reason,
+    'source', s.source,
+    'expires_at', s.expires_at
+  )), '[]'::jsonb)
+  FROM public.email_suppressions s
+  WHERE s.email IN (SELECT lower(btrim(e)) FROM unnest(p_emails) e)
+    AND (s.expires_at IS NULL OR s.expires_at > now());
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.audience_suppressions(TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.audience_suppressions(TEXT[]) TO authenticated;
@@ -0,0 +1,28 @@
+/*
+  # Opt-outs of an audience
+
+  1. Functions
+    - `audience_opt_outs` - the ids of the given employees who unsubscribed
+      from a category, as one array. send-email, the dispatcher and the send
+      preview used to select every opt-out of the category, which the API
+      cuts off at its row limit, so employees past the first page were
+      mailed although they had unsubscribed.
+
+  2. Security
+    - Runs with the caller's rights, so only admins (and the service role)
+      see opt-outs
+*/
+
+CREATE OR REPLACE FUNCTION public.audience_opt_outs(p_category TEXT, p_employee_ids UUID[])
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(array_agg(o.employee_id), '{}')
+  FROM public.email_category_opt_outs o
+  WHERE o.category = p_category
+    AND o.employee_id = ANY (p_employee_ids);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.audience_opt_outs(TEXT, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.audience_opt_outs(TEXT, UUID[]) TO authenticated;
@@ -0,0 +1,60 @@
+/*
+  # Cap re-claims of interrupted deliveries
+
+  1. Changes
+    - `claim_email_deliveries` takes the attempt limit. A delivery whose
+      lease expired (the worker crashed or stalled while sending it) is only
+      claimed again while it has attempts left; once it has used them all it
+      is marked failed, so a message that brings down the worker every time
+      can't keep its campaign sending forever.
+*/
+
+DROP FUNCTION IF EXISTS public.claim_email_deliveries(UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.claim_email_deliveries(
+  p_campaign_id UUID,
+  p_batch_size INTEGER,
+  p_lease_seconds INTEGER,
+  p_max_attempts INTEGER
+)
+RETURNS SETOF public.email_deliveries
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.email_campaigns
+  SET status = 'sending', started_at = COALESCE(started_at, now())
+  WHERE id = p_campaign_id AND status = 'queued';
+
+  UPDATE public.email_deliveries
+  SET status = 'failed',
+      last_error = format('Gave up after %s attempts that never finished', attempt_count),
+      next_attempt_at = NULL,
+      locked_until = NULL,
+      updated_at = now()
+  WHERE campaign_id = p_campaign_id
+    AND status = 'sending'
+    AND locked_until < now()
+    AND attempt_count >= p_max_attempts;
+
+  RETURN QUERY
+  UPDATE public.email_deliveries d
+  SET status = 'sending',
+      attempt_count = d.attempt_count + 1,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  WHERE d.id IN (
+    SELECT id FROM public.email_deliveries
+    WHERE campaign_id = p_campaign_id
+      AND (
+        (status = 'queued' AND (next_attempt_at IS NULL OR next_attempt_at <= now()))
+        OR (status = 'sending' AND locked_until < now() AND attempt_count < p_max_attempts)
+      )
+    ORDER BY created_at
+    LIMIT p_batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_deliveries(UUID, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;